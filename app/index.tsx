@@ -1,4 +1,4 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import {
   View,
   Text,
@@ -8,84 +8,242 @@ import {
   SafeAreaView,
   ScrollView,
   Dimensions,
+  Share,
+  ActivityIndicator,
+  AppState,
 } from 'react-native';
 import { StatusBar } from 'expo-status-bar';
+import { router } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import ChessBoard from '@/components/ChessBoard';
 import GameSetup from '@/components/GameSetup';
 import ChessTimer from '@/components/ChessTimer';
 import DraftInterface from '@/components/DraftInterface';
-import { GameState, Position, GameSettings, GameConfig } from '@/types/chess';
+import PromotionPicker from '@/components/PromotionPicker';
+import ConfirmDialog from '@/components/ConfirmDialog';
+import MoveHistory from '@/components/MoveHistory';
+import ReplayViewer from '@/components/ReplayViewer';
+import {
+  GameState,
+  Position,
+  GameSettings,
+  GameConfig,
+  GameResult,
+  Player,
+  PieceType,
+  PromotionPieceType,
+} from '@/types/chess';
+import { ClientMessage, OnlineAction, ServerMessage } from '@/types/online';
 import { 
-  initializeBoard, 
-  initializeDraftBoard, 
-  getAvailableDraftPieces,
+  createInitialGameState,
+  createDraftGameState,
+  getPossibleMoves,
   isValidMove, 
   makeMove, 
-  isInCheck, 
-  isCheckmate, 
-  updateCastlingRights 
+  normalizeCastlingTarget,
+  isInCheckAfterPly,
+  isPromotionMove,
+  applyMove,
+  applyRemoval,
+  applyRestore,
+  getGameResult,
+  getTimeoutResult,
+  isValidDraftPlacement,
+  isBlindDraftRepick,
+  applyDraftPlacement,
+  isValidArmyPurchase,
+  applyArmyPurchase,
+  isValidDraftConfirmation,
+  confirmDraft,
+  getUndoableDraftPlayer,
+  undoDraftPlacement,
+  getActivePlayer,
+  isValidRemoval,
+  isValidRestore,
+  getRemovalCountdowns,
 } from '@/utils/chessLogic';
+import { DEFAULT_REMOVED_SQUARE_RULES } from '@/utils/moveGenerator';
+import { exportPGN, parsePGN, ParsedPGN } from '@/utils/pgn';
+import { resultReasonLabels } from '@/utils/notation';
+import { parseFEN } from '@/utils/fen';
+import {
+  EngineAction,
+  shouldAcceptDraw,
+} from '@/utils/engine';
+import { startEngineSearch } from '@/utils/engineRunner';
+import { getDraftArmy, getDraftPlacement } from '@/utils/draftBot';
+import { DEFAULT_ARMY_BUDGET, getSettingsArmyBudget } from '@/utils/army';
+import { DEFAULT_DRAFT_SETUP } from '@/utils/draftSetup';
+import { rebuildUndoStack } from '@/utils/replay';
+import { addGameToLibrary, clearSavedGame, loadSavedGame, SavedGame, saveGame } from '@/utils/storage';
+import { applyOnlineAction } from '@/utils/online';
+import { connectToServer, OnlineConnection } from '@/utils/onlineClient';
+import { deserializeGameState } from '@/utils/serialization';
+import { endTurn, getLiveTimeLeft, getMonotonicTime, getTimeControl } from '@/utils/clock';
 
 const { width: screenWidth } = Dimensions.get('window');
 
+// Temps de réflexion maximal de l'ordinateur, et délai avant chacun de ses placements de draft
+const MAX_COMPUTER_THINKING_MS = 3000;
+const COMPUTER_DRAFT_DELAY_MS = 400;
+
+const defaultGameConfig: GameConfig = {
+  timeLimit: 5,
+  clockMode: 'fischer',
+  clockIncrement: 0,
+  removalsPerPlayer: 3,
+  restoresPerPlayer: 0,
+  draftMode: false,
+  draftFormat: 'alternate',
+  draftSeed: 0,
+  armyMode: 'fixed',
+  armyBudget: DEFAULT_ARMY_BUDGET,
+  draftSetup: DEFAULT_DRAFT_SETUP,
+  draftTimeLimit: 0,
+  draftReview: false,
+  opponent: 'human',
+  humanColor: 'white',
+  computerDraftStyle: 'balanced',
+  boardLayout: 'standard',
+  removedSquareRules: DEFAULT_REMOVED_SQUARE_RULES,
+  gameStarted: false,
+  draftPhase: false,
+};
+
+// Partie en ligne : la couleur et le code ne sont connus qu'après la réponse du serveur
+interface OnlineSession {
+  connection: OnlineConnection;
+  gameId: string | null;
+  color: Player | null;
+}
+
+type ComputerAction =
+  | EngineAction
+  | { type: 'purchase'; pieces: PieceType[] }
+  | { type: 'confirmDraft' }
+  | { type: 'placement'; piece: PieceType; square: Position };
+
 export default function ChessGame() {
-  const [gameConfig, setGameConfig] = useState<GameConfig>({
-    timeLimit: 5,
-    removalsPerPlayer: 3,
-    draftMode: false,
-    gameStarted: false,
-    draftPhase: false,
-  });
-
-  const [gameState, setGameState] = useState<GameState>({
-    board: initializeBoard(),
-    currentPlayer: 'white',
-    selectedSquare: null,
-    removedSquares: new Set(),
-    gameOver: false,
-    winner: null,
-    removalsUsed: { white: 0, black: 0 },
-    timeLeft: { white: 300, black: 300 }, // 5 minutes par défaut
-    castlingRights: {
-      whiteKingside: true,
-      whiteQueenside: true,
-      blackKingside: true,
-      blackQueenside: true,
-    },
-    kingMoved: {
-      white: false,
-      black: false,
-    },
-    rookMoved: {
-      whiteKingside: false,
-      whiteQueenside: false,
-      blackKingside: false,
-      blackQueenside: false,
-    },
-  });
-
-  const [actionMode, setActionMode] = useState<'move' | 'remove'>('move');
+  const [gameConfig, setGameConfig] = useState<GameConfig>(defaultGameConfig);
+
+  const [gameState, setGameState] = useState<GameState>(createInitialGameState());
+  // Horodatage monotone du début du tour en cours, null tant que les chronos sont arrêtés :
+  // gameState.timeLeft reste figé pendant le tour et n'est mis à jour qu'à sa fin
+  const [turnStartedAt, setTurnStartedAt] = useState<number | null>(null);
+
+  const [actionMode, setActionMode] = useState<'move' | 'remove' | 'restore'>('move');
   const [possibleMoves, setPossibleMoves] = useState<Position[]>([]);
+  const [pendingPromotion, setPendingPromotion] = useState<{ from: Position; to: Position } | null>(null);
+  const [pendingDialog, setPendingDialog] = useState<'drawOffer' | 'resign' | 'takeback' | null>(null);
+  // Instantanés complets (plateau, chronos, suppressions) pris avant chaque coup ou suppression
+  const [undoStack, setUndoStack] = useState<GameState[]>([]);
+  const [redoStack, setRedoStack] = useState<GameState[]>([]);
+  // Position de départ conservée pour revoir la partie une fois terminée
+  const [startGameState, setStartGameState] = useState<GameState | null>(null);
+  const [isReplaying, setIsReplaying] = useState(false);
+  // Action trouvée par l'ordinateur, associée au demi-coup pour lequel elle a été calculée
+  const [computerAction, setComputerAction] = useState<{ ply: number; action: ComputerAction } | null>(null);
+  // Partie interrompue retrouvée au lancement, proposée à la reprise sur l'écran de configuration
+  const [savedGame, setSavedGame] = useState<SavedGame | null>(null);
+  const [onlineSession, setOnlineSession] = useState<OnlineSession | null>(null);
+  // Action validée par le serveur, appliquée avec l'état courant comme celles de l'ordinateur
+  const [remoteAction, setRemoteAction] = useState<Extract<ServerMessage, { type: 'action' }> | null>(null);
+  // Retournement manuel, appliqué par-dessus l'orientation choisie automatiquement
+  const [isBoardFlipped, setIsBoardFlipped] = useState(false);
+
+  const computerPlayer: Player | null = gameConfig.opponent === 'computer'
+    ? (gameConfig.humanColor === 'white' ? 'black' : 'white')
+    : null;
+  const isComputerTurn = gameConfig.gameStarted
+    && !gameState.gameOver
+    && computerPlayer !== null
+    && getActivePlayer(gameState) === computerPlayer;
+  const onlineColor = onlineSession?.color ?? null;
+  const isRemoteTurn = gameConfig.gameStarted
+    && !gameState.gameOver
+    && onlineColor !== null
+    && getActivePlayer(gameState) !== onlineColor;
+
+  // Couleur en bas de l'écran : celle du joueur de l'appareil face à un adversaire distant,
+  // sinon les Blancs, ou le joueur attendu quand le plateau tourne après chaque tour
+  const defaultOrientation: Player = onlineColor
+    ?? (computerPlayer ? gameConfig.humanColor : null)
+    ?? (gameConfig.boardLayout === 'autoFlip' ? getActivePlayer(gameState) : 'white');
+  const boardOrientation: Player = isBoardFlipped
+    ? (defaultOrientation === 'white' ? 'black' : 'white')
+    : defaultOrientation;
+  const isFaceToFace = gameConfig.boardLayout === 'faceToFace' && !computerPlayer && !onlineSession;
+
+  // Pendant le draft, c'est le chrono du joueur qui place qui tourne
+  const timeControl = getTimeControl(gameConfig);
+  const runningPlayer: Player | null = gameConfig.gameStarted && !gameState.gameOver && turnStartedAt !== null
+    ? getActivePlayer(gameState)
+    : null;
+  const getCurrentTimeLeft = () => getLiveTimeLeft(gameState.timeLeft, runningPlayer, turnStartedAt, timeControl);
+
+  // Partie en cours telle qu'elle serait reprise, chronos arrêtés à cet instant,
+  // ou null s'il n'y a rien à sauvegarder (une partie en ligne ne peut pas reprendre sans le serveur)
+  const getInterruptedGame = (): SavedGame | null => gameConfig.gameStarted && startGameState && !gameState.gameOver && !onlineSession
+    ? { config: gameConfig, gameState: { ...gameState, timeLeft: getCurrentTimeLeft() }, startGameState, savedAt: Date.now() }
+    : null;
+  const getInterruptedGameRef = useRef(getInterruptedGame);
+  getInterruptedGameRef.current = getInterruptedGame;
+
+  useEffect(() => {
+    loadSavedGame().then(setSavedGame);
+  }, []);
+
+  // Sauvegarde après chaque action ; une partie terminée rejoint la bibliothèque
+  useEffect(() => {
+    if (!gameConfig.gameStarted) return;
+    if (gameState.gameOver) {
+      clearSavedGame();
+      if (startGameState) {
+        const { gameStarted, draftPhase, ...settings } = gameConfig;
+        addGameToLibrary({ settings, startGameState, gameState, finishedAt: Date.now() });
+      }
+    } else {
+      const interruptedGame = getInterruptedGame();
+      if (interruptedGame) saveGame(interruptedGame);
+    }
+  }, [gameConfig.gameStarted, gameState.history.length, gameState.gameOver]);
+
+  // Les chronos défilent entre deux actions : on les sauvegarde aussi quand l'application
+  // passe en arrière-plan ou que l'onglet est masqué, juste avant une éventuelle fermeture.
+  // En ligne, les chronos locaux ont pu dériver pendant ce temps : on les resynchronise au retour.
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', state => {
+      const interruptedGame = state !== 'active' ? getInterruptedGameRef.current() : null;
+      if (interruptedGame) saveGame(interruptedGame);
+      if (state === 'active') onlineRef.current.session?.connection.send({ type: 'clockSync' });
+    });
+    return () => subscription.remove();
+  }, []);
 
   const handleTimeUp = (player: Player) => {
-    const winner = player === 'white' ? 'black' : 'white';
+    // En ligne, c'est le serveur qui constate la chute du drapeau
+    if (onlineSession) return;
+    const result = getTimeoutResult(gameState, player);
     setGameState(prev => ({
       ...prev,
+      timeLeft: getLiveTimeLeft(prev.timeLeft, player, turnStartedAt, timeControl),
       gameOver: true,
-      winner,
+      result,
     }));
-    Alert.alert('Temps écoulé !', `Le joueur ${winner === 'white' ? 'Blanc' : 'Noir'} gagne par forfait !`);
+    if (result.winner) {
+      Alert.alert('Temps écoulé !', `Le joueur ${result.winner === 'white' ? 'Blanc' : 'Noir'} gagne au temps !`);
+    } else {
+      Alert.alert('Temps écoulé !', 'Partie nulle : l\'adversaire ne peut plus mater');
+    }
   };
 
-  const handleTimeUpdate = (player: Player, newTime: number) => {
-    setGameState(prev => ({
-      ...prev,
-      timeLeft: {
-        ...prev.timeLeft,
-        [player]: newTime,
-      },
-    }));
+  // Fin de tour : le temps écoulé est décompté, l'incrément accordé, puis le chrono adverse démarre.
+  // Coups, suppressions et placements du draft comptent tous comme un tour.
+  const stopTurnClock = (state: GameState): GameState => {
+    const now = getMonotonicTime();
+    const timeLeft = endTurn(state.timeLeft, getActivePlayer(state), turnStartedAt, timeControl, now);
+    setTurnStartedAt(now);
+    return { ...state, timeLeft };
   };
 
   const handleSettingsChange = (settings: GameSettings) => {
@@ -93,35 +251,166 @@ export default function ChessGame() {
   };
 
   const startGame = () => {
-    // Initialiser les temps en fonction de la configuration
-    const timeInSeconds = gameConfig.timeLimit * 60;
-    
-    if (gameConfig.draftMode) {
-      // Mode draft : initialiser avec seulement les pions
-      setGameState(prev => ({
-        ...prev,
-        board: initializeDraftBoard(),
-        timeLeft: { white: timeInSeconds, black: timeInSeconds },
-        draftState: {
-          availablePieces: {
-            white: getAvailableDraftPieces(),
-            black: getAvailableDraftPieces(),
-          },
-          selectedPiece: null,
-          currentDraftPlayer: 'white',
-        },
-        currentPlayer: 'white', // Le chrono des blancs commence immédiatement
-      }));
-      setGameConfig(prev => ({ ...prev, gameStarted: true, draftPhase: true }));
+    let startState: GameState;
+    if (gameConfig.startFen?.trim()) {
+      // Position collée depuis un rapport de bug ou une autre partie
+      try {
+        startState = parseFEN(gameConfig.startFen, gameConfig.removalsPerPlayer, gameConfig.timeLimit, gameConfig.removedSquareRules, gameConfig.restoresPerPlayer);
+      } catch (error) {
+        Alert.alert('Position invalide', error instanceof Error ? error.message : String(error));
+        return;
+      }
+    } else if (gameConfig.draftMode) {
+      startState = createDraftGameState(
+        gameConfig.timeLimit,
+        gameConfig.removedSquareRules,
+        gameConfig.draftFormat,
+        gameConfig.draftSeed,
+        getSettingsArmyBudget(gameConfig),
+        gameConfig.draftSetup,
+        gameConfig.draftTimeLimit,
+        gameConfig.draftReview
+      );
     } else {
       // Mode classique
-      setGameState(prev => ({
-        ...prev,
-        board: initializeBoard(),
-        timeLeft: { white: timeInSeconds, black: timeInSeconds },
-      }));
-      setGameConfig(prev => ({ ...prev, gameStarted: true, draftPhase: false }));
+      startState = createInitialGameState(gameConfig.timeLimit, gameConfig.removedSquareRules);
     }
+
+    setGameState(startState);
+    setStartGameState(startState);
+    setTurnStartedAt(getMonotonicTime());
+    setGameConfig(prev => ({ ...prev, gameStarted: true, draftPhase: !!startState.draftState }));
+    // La nouvelle partie remplace la sauvegarde dès sa première action
+    setSavedGame(null);
+  };
+
+  const resumeGame = () => {
+    if (!savedGame) return;
+
+    const { config, gameState: savedGameState, startGameState: savedStartGameState } = savedGame;
+    setGameConfig({ ...defaultGameConfig, ...config, gameStarted: true, draftPhase: !!savedGameState.draftState });
+    setGameState(savedGameState);
+    setStartGameState(savedStartGameState);
+    setTurnStartedAt(getMonotonicTime());
+    setUndoStack(rebuildUndoStack(savedStartGameState, savedGameState.history, config.removalsPerPlayer));
+    setRedoStack([]);
+    setSavedGame(null);
+  };
+
+  const discardSavedGame = () => {
+    clearSavedGame();
+    setSavedGame(null);
+  };
+
+  // Partie collée au format PGN : elle reprend là où le fichier s'arrête
+  const importGame = (text: string) => {
+    let parsed: ParsedPGN;
+    try {
+      parsed = parsePGN(text);
+    } catch (error) {
+      Alert.alert('PGN invalide', error instanceof Error ? error.message : String(error));
+      return;
+    }
+
+    const { settings, startGameState: importedStartGameState, gameState: importedGameState } = parsed;
+    setGameConfig({ ...defaultGameConfig, ...settings, gameStarted: true, draftPhase: !!importedGameState.draftState });
+    setGameState(importedGameState);
+    setStartGameState(importedStartGameState);
+    setTurnStartedAt(getMonotonicTime());
+    setUndoStack(rebuildUndoStack(importedStartGameState, importedGameState.history, settings.removalsPerPlayer));
+    setRedoStack([]);
+    setSavedGame(null);
+  };
+
+  const connectOnline = (serverUrl: string, firstMessage: ClientMessage) => {
+    onlineSession?.connection.close();
+    // Les gestionnaires passent par une ref pour toujours voir l'état courant
+    const connection = connectToServer(serverUrl, {
+      onMessage: message => onlineRef.current.handleMessage(message),
+      onClose: () => onlineRef.current.handleClose(),
+    });
+    connection.send(firstMessage);
+    setOnlineSession({ connection, gameId: null, color: null });
+  };
+
+  // Le créateur de la partie joue les Blancs, avec les réglages choisis à l'écran de configuration
+  const createOnlineGame = (serverUrl: string) => {
+    const { gameStarted, draftPhase, ...settings } = gameConfig;
+    connectOnline(serverUrl, { type: 'create', settings: { ...settings, opponent: 'human' }, color: 'white' });
+  };
+
+  const joinOnlineGame = (serverUrl: string, gameId: string) => {
+    connectOnline(serverUrl, { type: 'join', gameId });
+  };
+
+  const leaveOnlineGame = () => {
+    onlineSession?.connection.close();
+    setOnlineSession(null);
+    setRemoteAction(null);
+  };
+
+  const handleServerMessage = (message: ServerMessage) => {
+    switch (message.type) {
+      case 'created':
+        setOnlineSession(prev => prev && { ...prev, gameId: message.gameId, color: message.color });
+        break;
+      case 'started': {
+        const startState = deserializeGameState(message.gameState);
+        setOnlineSession(prev => prev && { ...prev, gameId: message.gameId, color: message.color });
+        setGameConfig({ ...defaultGameConfig, ...message.settings, gameStarted: true, draftPhase: !!startState.draftState });
+        setGameState(startState);
+        setStartGameState(startState);
+        setTurnStartedAt(getMonotonicTime());
+        setUndoStack([]);
+        setRedoStack([]);
+        break;
+      }
+      case 'action':
+        setRemoteAction(message);
+        break;
+      // Chronos du serveur à cet instant : le tour local repart de là
+      case 'clock':
+        setGameState(prev => ({ ...prev, timeLeft: message.timeLeft }));
+        setTurnStartedAt(getMonotonicTime());
+        break;
+      case 'drawOffered':
+        setPendingDialog('drawOffer');
+        break;
+      case 'drawDeclined':
+        Alert.alert('Nulle refusée', 'Votre adversaire préfère continuer la partie');
+        break;
+      case 'gameOver':
+        endGame(message.result);
+        setGameState(prev => ({ ...prev, timeLeft: message.timeLeft }));
+        break;
+      case 'opponentLeft':
+        Alert.alert('Adversaire parti', 'Votre adversaire a quitté la partie');
+        break;
+      case 'error':
+        Alert.alert('Serveur de jeu', message.message);
+        break;
+    }
+  };
+
+  const handleServerClose = () => {
+    setOnlineSession(null);
+    setRemoteAction(null);
+    if (!gameConfig.gameStarted) {
+      Alert.alert('Connexion impossible', 'Le serveur de jeu est injoignable');
+    } else if (!gameState.gameOver) {
+      Alert.alert('Connexion perdue', 'La connexion au serveur de jeu a été interrompue');
+      resetGame();
+    }
+  };
+
+  const onlineRef = useRef({ session: onlineSession, handleMessage: handleServerMessage, handleClose: handleServerClose });
+  onlineRef.current = { session: onlineSession, handleMessage: handleServerMessage, handleClose: handleServerClose };
+
+  // En ligne, l'action part au serveur et n'est jouée qu'une fois renvoyée par celui-ci
+  const sendOnlineAction = (action: OnlineAction) => {
+    onlineSession?.connection.send({ type: 'action', ply: gameState.history.length, action });
+    setGameState(prev => ({ ...prev, selectedSquare: null }));
+    clearSelection();
   };
 
   const handleDraftPieceSelect = (piece: PieceType) => {
@@ -136,63 +425,178 @@ export default function ChessGame() {
     }));
   };
 
+  const purchaseArmy = (pieces: PieceType[]) => {
+    if (!isValidArmyPurchase(gameState, pieces)) return;
+    if (onlineSession) return sendOnlineAction({ type: 'purchase', pieces });
+    setGameState(applyArmyPurchase(stopTurnClock(gameState), pieces));
+  };
+
   const handleDraftPlacement = (row: number, col: number) => {
     if (!gameState.draftState || !gameState.draftState.selectedPiece) return;
+    placeDraftPiece(gameState.draftState.selectedPiece, [row, col]);
+  };
+
+  const placeDraftPiece = (piece: PieceType, square: Position) => {
+    if (!isValidDraftPlacement(gameState, piece, square)) return;
+    if (onlineSession) return sendOnlineAction({ type: 'placement', piece, square });
     
-    const targetRow = gameState.draftState.currentDraftPlayer === 'white' ? 7 : 0;
-    if (row !== targetRow) return;
-    
-    // Vérifier que la case est libre
-    if (gameState.board[row][col] !== null) return;
-    
-    const newBoard = gameState.board.map(boardRow => [...boardRow]);
-    newBoard[row][col] = {
-      type: gameState.draftState.selectedPiece,
-      color: gameState.draftState.currentDraftPlayer,
-    };
-    
-    // Retirer la pièce de la réserve
-    const newAvailablePieces = { ...gameState.draftState.availablePieces };
-    const playerPieces = [...newAvailablePieces[gameState.draftState.currentDraftPlayer]];
-    const pieceIndex = playerPieces.indexOf(gameState.draftState.selectedPiece);
-    if (pieceIndex > -1) {
-      playerPieces.splice(pieceIndex, 1);
-      newAvailablePieces[gameState.draftState.currentDraftPlayer] = playerPieces;
-    }
-    
-    // Changer de joueur
-    const nextPlayer = gameState.draftState.currentDraftPlayer === 'white' ? 'black' : 'white';
-    
-    // Vérifier si la phase de draft est terminée
-    const totalPiecesLeft = newAvailablePieces.white.length + newAvailablePieces.black.length;
-    const isDraftComplete = totalPiecesLeft === 0;
+    const nextGameState = applyDraftPlacement(stopTurnClock(gameState), piece, square);
+    setGameState(nextGameState);
     
-    if (isDraftComplete) {
+    if (!nextGameState.draftState) {
       // Terminer la phase de draft et commencer la partie
-      setGameState(prev => ({
-        ...prev,
-        board: newBoard,
-        currentPlayer: 'white', // Les blancs commencent toujours
-        draftState: undefined,
-      }));
       setGameConfig(prev => ({ ...prev, draftPhase: false }));
+    }
+  };
+
+  const confirmDraftPosition = () => {
+    if (!isValidDraftConfirmation(gameState)) return;
+    if (onlineSession) return sendOnlineAction({ type: 'confirmDraft' });
+    
+    const nextGameState = confirmDraft(stopTurnClock(gameState));
+    setGameState(nextGameState);
+    if (!nextGameState.draftState) setGameConfig(prev => ({ ...prev, draftPhase: false }));
+  };
+
+  // Reprise d'un placement : le temps pris par l'adversaire lui est décompté, sans incrément (par le serveur en ligne)
+  const undoPlacement = () => {
+    const undoablePlayer = getUndoableDraftPlayer(gameState);
+    if (undoablePlayer === null) return;
+    if (onlineSession) {
+      if (undoablePlayer === onlineSession.color) sendOnlineAction({ type: 'undoDraft' });
+      return;
+    }
+    const now = getMonotonicTime();
+    const timeLeft = getLiveTimeLeft(gameState.timeLeft, getActivePlayer(gameState), turnStartedAt, timeControl, now);
+    setTurnStartedAt(now);
+    setGameState(undoDraftPlacement({ ...gameState, timeLeft }));
+  };
+
+  // Évalue la fin de partie après chaque action qui passe le tour
+  const finishTurn = (nextGameState: GameState, isCastling: boolean = false) => {
+    const result = getGameResult(nextGameState, gameConfig.removalsPerPlayer, gameConfig.restoresPerPlayer);
+    const player = gameState.currentPlayer;
+
+    if (result?.reason === 'checkmate') {
+      if (isCastling) {
+        Alert.alert('Roque réussi !', `${player === 'white' ? 'Les Blancs' : 'Les Noirs'} ont roqué et gagné !`);
+      } else {
+        Alert.alert('Échec et mat !', `Le joueur ${player === 'white' ? 'Blanc' : 'Noir'} gagne !`);
+      }
+    } else if (result) {
+      Alert.alert('Partie nulle', resultReasonLabels[result.reason]);
+    } else if (isCastling) {
+      Alert.alert('Roque réussi !', `${player === 'white' ? 'Les Blancs' : 'Les Noirs'} ont roqué !`);
+    }
+
+    setGameState({
+      ...nextGameState,
+      gameOver: result !== null,
+      result,
+    });
+    setUndoStack(prev => [...prev, { ...gameState, selectedSquare: null }]);
+    setRedoStack([]);
+
+    setPendingPromotion(null);
+    setActionMode('move');
+    setPossibleMoves([]);
+  };
+
+  const executeMove = (from: Position, input: Position, promotion?: PromotionPieceType) => {
+    // Un roque désigné par la tour ou par la case du roi est enregistré sous une seule forme
+    const to = normalizeCastlingTarget(gameState, from, input);
+    if (onlineSession) return sendOnlineAction({ type: 'move', from, to, promotion });
+    const { gameState: nextGameState, moveResult } = applyMove(stopTurnClock(gameState), from, to, promotion, gameConfig.removalsPerPlayer);
+    finishTurn(nextGameState, moveResult.isCastling);
+  };
+
+  const clearSelection = () => {
+    setPendingPromotion(null);
+    setActionMode('move');
+    setPossibleMoves([]);
+  };
+
+  // Face à l'ordinateur, on saute ses tours pour revenir directement à un tour du joueur humain
+  const getHistorySteps = (stack: GameState[]) => {
+    let steps = 1;
+    while (computerPlayer && steps < stack.length && getActivePlayer(stack[stack.length - steps]) === computerPlayer) {
+      steps++;
+    }
+    return steps;
+  };
+
+  const handleUndo = () => {
+    if (undoStack.length === 0) return;
+
+    const steps = getHistorySteps(undoStack);
+    const skipped = undoStack.slice(undoStack.length - steps + 1).reverse();
+    setRedoStack(prev => [...prev, { ...gameState, selectedSquare: null }, ...skipped]);
+    setUndoStack(prev => prev.slice(0, prev.length - steps));
+    setGameState(undoStack[undoStack.length - steps]);
+    setTurnStartedAt(getMonotonicTime());
+    setPendingDialog(null);
+    clearSelection();
+  };
+
+  const handleRedo = () => {
+    if (redoStack.length === 0) return;
+
+    const steps = getHistorySteps(redoStack);
+    const skipped = redoStack.slice(redoStack.length - steps + 1).reverse();
+    setUndoStack(prev => [...prev, { ...gameState, selectedSquare: null }, ...skipped]);
+    setRedoStack(prev => prev.slice(0, prev.length - steps));
+    setGameState(redoStack[redoStack.length - steps]);
+    setTurnStartedAt(getMonotonicTime());
+    clearSelection();
+  };
+
+  const handleDrawOffer = () => {
+    if (onlineSession) {
+      onlineSession.connection.send({ type: 'drawOffer' });
+      Alert.alert('Nulle proposée', 'En attente de la réponse de votre adversaire');
+      return;
+    }
+    if (!computerPlayer) {
+      setPendingDialog('drawOffer');
+      return;
+    }
+    if (shouldAcceptDraw(gameState, computerPlayer)) {
+      endGame({ outcome: 'draw', winner: null, reason: 'agreement' });
     } else {
-      setGameState(prev => ({
-        ...prev,
-        board: newBoard,
-        currentPlayer: nextPlayer, // Change de joueur après chaque placement
-        draftState: {
-          ...gameState.draftState!,
-          availablePieces: newAvailablePieces,
-          selectedPiece: null,
-          currentDraftPlayer: nextPlayer,
-        },
-      }));
+      Alert.alert('Nulle refusée', 'L\'ordinateur préfère continuer la partie');
     }
   };
 
+  const answerOnlineDrawOffer = (accept: boolean) => {
+    onlineSession?.connection.send({ type: 'drawResponse', accept });
+    setPendingDialog(null);
+  };
+
+  const handleExportPGN = () => {
+    Share.share({ message: exportPGN(gameState, gameConfig) });
+  };
+
+  const endGame = (result: GameResult) => {
+    // Les chronos s'arrêtent sur le temps restant à cet instant
+    const timeLeft = getCurrentTimeLeft();
+    setGameState(prev => ({ ...prev, timeLeft, gameOver: true, result, selectedSquare: null }));
+    setPendingDialog(null);
+    setPendingPromotion(null);
+    setPossibleMoves([]);
+  };
+
+  const handlePromotionSelect = (piece: PromotionPieceType) => {
+    if (!pendingPromotion) return;
+    executeMove(pendingPromotion.from, pendingPromotion.to, piece);
+  };
+
+  const handlePromotionCancel = () => {
+    setPendingPromotion(null);
+    setGameState(prev => ({ ...prev, selectedSquare: null }));
+  };
+
   const handleSquarePress = useCallback((row: number, col: number) => {
-    if (gameState.gameOver) return;
+    if (gameState.gameOver || pendingPromotion || isComputerTurn || isRemoteTurn) return;
     
     // Mode draft : placement des pièces
     if (gameConfig.draftPhase && gameState.draftState) {
@@ -221,21 +625,42 @@ export default function ChessGame() {
         return;
       }
 
-      const newRemovedSquares = new Set(gameState.removedSquares);
-      newRemovedSquares.add(positionKey);
+      if (!isValidRemoval(gameState, position, gameConfig.removalsPerPlayer)) {
+        Alert.alert('Erreur', gameState.removedSquareRules.blockSliders
+          ? 'Votre roi resterait en échec : cette suppression ne pare pas l\'échec'
+          : 'Votre roi est en échec : vous devez jouer un coup');
+        return;
+      }
+
+      if (onlineSession) {
+        sendOnlineAction({ type: 'removal', square: position });
+      } else {
+        finishTurn(applyRemoval(stopTurnClock(gameState), position, gameConfig.removalsPerPlayer));
+      }
+      return;
+    }
+
+    if (actionMode === 'restore') {
+      if (gameState.restoresUsed[gameState.currentPlayer] >= gameConfig.restoresPerPlayer) {
+        Alert.alert('Limite atteinte', `Vous avez déjà rouvert ${gameConfig.restoresPerPlayer} case${gameConfig.restoresPerPlayer > 1 ? 's' : ''}`);
+        return;
+      }
 
-      const newRemovalsUsed = { ...gameState.removalsUsed };
-      newRemovalsUsed[gameState.currentPlayer]++;
+      if (!gameState.removedSquares.has(positionKey)) {
+        Alert.alert('Erreur', 'Seule une case supprimée peut être rouverte');
+        return;
+      }
 
-      setGameState(prev => ({
-        ...prev,
-        removedSquares: newRemovedSquares,
-        removalsUsed: newRemovalsUsed,
-        currentPlayer: prev.currentPlayer === 'white' ? 'black' : 'white',
-      }));
+      if (!isValidRestore(gameState, position, gameConfig.restoresPerPlayer)) {
+        Alert.alert('Erreur', 'Votre roi serait en échec : cette case ne peut pas être rouverte');
+        return;
+      }
 
-      setActionMode('move');
-      setPossibleMoves([]);
+      if (onlineSession) {
+        sendOnlineAction({ type: 'restore', square: position });
+      } else {
+        finishTurn(applyRestore(stopTurnClock(gameState), position, gameConfig.removalsPerPlayer));
+      }
       return;
     }
 
@@ -250,60 +675,26 @@ export default function ChessGame() {
 
       if (isValidMove(gameState.board, gameState.selectedSquare, position, gameState.removedSquares, gameState)) {
         const moveResult = makeMove(gameState.board, gameState.selectedSquare, position, gameState);
-        const newBoard = moveResult.board;
-        const nextPlayer = gameState.currentPlayer === 'white' ? 'black' : 'white';
 
-        if (isInCheck(newBoard, gameState.currentPlayer, gameState.removedSquares)) {
+        if (isInCheckAfterPly(gameState, moveResult.board)) {
           Alert.alert('Mouvement invalide', 'Ce mouvement laisserait votre roi en échec');
           return;
         }
 
-        // Mettre à jour les droits de roque
-        const updatedGameState = updateCastlingRights(gameState, gameState.selectedSquare, position);
-
-        let winner = null;
-        let gameOver = false;
-        if (isCheckmate(newBoard, nextPlayer, gameState.removedSquares, updatedGameState)) {
-          winner = gameState.currentPlayer;
-          gameOver = true;
-          
-          if (moveResult.isCastling) {
-            Alert.alert('Roque réussi !', `${winner === 'white' ? 'Les Blancs' : 'Les Noirs'} ont roqué et gagné !`);
-          } else {
-            Alert.alert('Échec et mat !', `Le joueur ${winner === 'white' ? 'Blanc' : 'Noir'} gagne !`);
-          }
-        } else if (moveResult.isCastling) {
-          Alert.alert('Roque réussi !', `${gameState.currentPlayer === 'white' ? 'Les Blancs' : 'Les Noirs'} ont roqué !`);
+        // Le choix de la pièce de promotion est demandé avant de jouer le coup
+        if (isPromotionMove(gameState.board, gameState.selectedSquare, position)) {
+          setPendingPromotion({ from: gameState.selectedSquare, to: position });
+          setPossibleMoves([]);
+          return;
         }
 
-        setGameState({
-          ...updatedGameState,
-          board: newBoard,
-          currentPlayer: nextPlayer,
-          selectedSquare: null,
-          gameOver,
-          winner,
-        });
-
-        setActionMode('move');
-        setPossibleMoves([]);
+        executeMove(gameState.selectedSquare, position);
       } else {
         const piece = gameState.board[row][col];
         if (piece && piece.color === gameState.currentPlayer) {
           setGameState(prev => ({ ...prev, selectedSquare: position }));
           // Calculer et afficher les mouvements possibles
-          const moves: Position[] = [];
-          for (let toRow = 0; toRow < 8; toRow++) {
-            for (let toCol = 0; toCol < 8; toCol++) {
-              if (isValidMove(gameState.board, position, [toRow, toCol], gameState.removedSquares, gameState)) {
-                const moveResult = makeMove(gameState.board, position, [toRow, toCol], gameState);
-                if (!isInCheck(moveResult.board, gameState.currentPlayer, gameState.removedSquares)) {
-                  moves.push([toRow, toCol]);
-                }
-              }
-            }
-          }
-          setPossibleMoves(moves);
+          setPossibleMoves(getPossibleMoves(gameState.board, position, gameState.removedSquares, gameState));
         } else {
           setGameState(prev => ({ ...prev, selectedSquare: null }));
           setPossibleMoves([]);
@@ -314,74 +705,162 @@ export default function ChessGame() {
       if (piece && piece.color === gameState.currentPlayer) {
         setGameState(prev => ({ ...prev, selectedSquare: position }));
         // Calculer et afficher les mouvements possibles
-        const moves: Position[] = [];
-        for (let toRow = 0; toRow < 8; toRow++) {
-          for (let toCol = 0; toCol < 8; toCol++) {
-            if (isValidMove(gameState.board, position, [toRow, toCol], gameState.removedSquares, gameState)) {
-              const moveResult = makeMove(gameState.board, position, [toRow, toCol], gameState);
-              if (!isInCheck(moveResult.board, gameState.currentPlayer, gameState.removedSquares)) {
-                moves.push([toRow, toCol]);
-              }
-            }
-          }
-        }
-        setPossibleMoves(moves);
+        setPossibleMoves(getPossibleMoves(gameState.board, position, gameState.removedSquares, gameState));
       }
     }
-  }, [gameState, actionMode, gameConfig.removalsPerPlayer]);
+  }, [
+    gameState,
+    turnStartedAt,
+    actionMode,
+    gameConfig.removalsPerPlayer,
+    gameConfig.restoresPerPlayer,
+    pendingPromotion,
+    isComputerTurn,
+    isRemoteTurn,
+    onlineSession,
+  ]);
 
-  const resetGame = () => {
-    setGameConfig({
-      timeLimit: 5,
-      removalsPerPlayer: 3,
-      draftMode: false,
-      gameStarted: false,
-      draftPhase: false,
+  // Tour de l'ordinateur : la recherche est relancée à chaque demi-coup, pas à chaque tic des chronos
+  useEffect(() => {
+    if (!isComputerTurn || !computerPlayer) return;
+    const ply = gameState.history.length;
+
+    if (gameState.draftState?.phase === 'shop' && gameState.draftState.armyBudget !== null) {
+      const pieces = getDraftArmy(gameState.draftState.armyBudget, gameConfig.computerDraftStyle);
+      const timer = setTimeout(() => setComputerAction({ ply, action: { type: 'purchase', pieces } }), COMPUTER_DRAFT_DELAY_MS);
+      return () => clearTimeout(timer);
+    }
+    if (gameState.draftState?.phase === 'review') {
+      const timer = setTimeout(() => setComputerAction({ ply, action: { type: 'confirmDraft' } }), COMPUTER_DRAFT_DELAY_MS);
+      return () => clearTimeout(timer);
+    }
+    if (gameState.draftState) {
+      const placement = getDraftPlacement(gameState, gameConfig.computerDraftStyle);
+      const timer = setTimeout(() => {
+        if (placement) setComputerAction({ ply, action: { type: 'placement', ...placement } });
+      }, COMPUTER_DRAFT_DELAY_MS);
+      return () => clearTimeout(timer);
+    }
+
+    // Hors du fil JS quand c'est possible : l'interface et les chronos restent fluides pendant la réflexion
+    const search = startEngineSearch(gameState, {
+      removalsPerPlayer: gameConfig.removalsPerPlayer,
+      restoresPerPlayer: gameConfig.restoresPerPlayer,
+      // Environ un trentième du temps restant, pour ne jamais perdre au temps
+      timeLimitMs: Math.min(MAX_COMPUTER_THINKING_MS, gameState.timeLeft[computerPlayer] / 30),
     });
-    setGameState({
-      board: initializeBoard(),
-      currentPlayer: 'white',
-      selectedSquare: null,
-      removedSquares: new Set(),
-      gameOver: false,
-      winner: null,
-      removalsUsed: { white: 0, black: 0 },
-      timeLeft: { white: 300, black: 300 },
-      castlingRights: {
-        whiteKingside: true,
-        whiteQueenside: true,
-        blackKingside: true,
-        blackQueenside: true,
-      },
-      kingMoved: {
-        white: false,
-        black: false,
-      },
-      rookMoved: {
-        whiteKingside: false,
-        whiteQueenside: false,
-        blackKingside: false,
-        blackQueenside: false,
-      },
-      draftState: undefined,
+    let cancelled = false;
+    search.result.then(action => {
+      if (action && !cancelled) setComputerAction({ ply, action });
+    }, error => {
+      if (!cancelled) Alert.alert('Ordinateur', `La recherche a échoué : ${error instanceof Error ? error.message : String(error)}`);
     });
+    // Reprise, retour au menu ou fin au temps : la recherche en cours est abandonnée
+    return () => {
+      cancelled = true;
+      search.cancel();
+    };
+  }, [isComputerTurn, gameState.history.length]);
+
+  // L'action est jouée ici, avec l'état courant et non celui du début de la recherche
+  useEffect(() => {
+    if (!computerAction) return;
+    setComputerAction(null);
+    if (!isComputerTurn || computerAction.ply !== gameState.history.length) return;
+
+    const { action } = computerAction;
+    if (action.type === 'purchase') {
+      purchaseArmy(action.pieces);
+    } else if (action.type === 'confirmDraft') {
+      confirmDraftPosition();
+    } else if (action.type === 'placement') {
+      placeDraftPiece(action.piece, action.square);
+    } else if (action.type === 'removal') {
+      finishTurn(applyRemoval(stopTurnClock(gameState), action.square, gameConfig.removalsPerPlayer));
+    } else if (action.type === 'restore') {
+      finishTurn(applyRestore(stopTurnClock(gameState), action.square, gameConfig.removalsPerPlayer));
+    } else {
+      executeMove(action.from, action.to, action.promotion);
+    }
+  }, [computerAction]);
+
+  // Action renvoyée par le serveur, la nôtre comme celle de l'adversaire, avec les chronos du serveur
+  useEffect(() => {
+    if (!remoteAction) return;
+    setRemoteAction(null);
+    if (remoteAction.ply !== gameState.history.length) return;
+
+    const { action, timeLeft } = remoteAction;
+    let nextGameState: GameState;
+    try {
+      nextGameState = applyOnlineAction({ ...gameState, timeLeft }, action, gameConfig);
+    } catch (error) {
+      Alert.alert('Partie désynchronisée', error instanceof Error ? error.message : String(error));
+      return;
+    }
+    setTurnStartedAt(getMonotonicTime());
+
+    if (action.type === 'placement' || action.type === 'purchase' || action.type === 'confirmDraft' || action.type === 'undoDraft') {
+      setGameState(nextGameState);
+      if (!nextGameState.draftState) setGameConfig(prev => ({ ...prev, draftPhase: false }));
+    } else {
+      const lastRecord = nextGameState.history[nextGameState.history.length - 1];
+      finishTurn(nextGameState, lastRecord.type === 'move' && !!lastRecord.castling);
+    }
+  }, [remoteAction]);
+
+  const resetGame = () => {
+    leaveOnlineGame();
+    // Une partie quittée en cours reste proposée à la reprise
+    const interruptedGame = getInterruptedGame();
+    if (interruptedGame) saveGame(interruptedGame);
+    setSavedGame(interruptedGame);
+    setTurnStartedAt(null);
+    setGameConfig(defaultGameConfig);
+    setGameState(createInitialGameState());
     setActionMode('move');
     setPossibleMoves([]);
+    setPendingPromotion(null);
+    setPendingDialog(null);
+    setUndoStack([]);
+    setRedoStack([]);
+    setStartGameState(null);
+    setIsReplaying(false);
+    setComputerAction(null);
+    setIsBoardFlipped(false);
   };
 
   // Utiliser le composant ChessTimer pour gérer les chronomètres
   const renderTimers = () => (
     <ChessTimer
       timeLeft={gameState.timeLeft}
-      currentPlayer={gameState.currentPlayer}
-      gameOver={gameState.gameOver}
+      runningPlayer={runningPlayer}
+      turnStartedAt={turnStartedAt}
+      timeControl={timeControl}
       removalsUsed={gameState.removalsUsed}
       maxRemovals={gameConfig.removalsPerPlayer}
       onTimeUp={handleTimeUp}
-      onTimeUpdate={handleTimeUpdate}
+      rotatedPlayer={isFaceToFace ? (boardOrientation === 'white' ? 'black' : 'white') : null}
     />
   );
 
+  // Face à l'ordinateur, il faut qu'un tour du joueur humain figure dans l'historique
+  // En ligne, le serveur ne revient sur une action validée que pour reprendre un placement de ce joueur
+  const undoablePlayer = getUndoableDraftPlayer(gameState);
+  const canUndoPlacement = !gameState.gameOver && undoablePlayer !== null && undoablePlayer !== computerPlayer
+    && (!onlineSession || undoablePlayer === onlineColor);
+  const canUndo = !gameState.gameOver && !onlineSession && (computerPlayer
+    ? undoStack.some(previousGameState => getActivePlayer(previousGameState) !== computerPlayer)
+    : undoStack.length > 0);
+  const canRedo = redoStack.length > 0 && !gameState.gameOver && !onlineSession;
+  // En ligne, seul le joueur de cet appareil peut abandonner
+  const resigningPlayer: Player = onlineColor ?? gameState.currentPlayer;
+  // Une réouverture demande du budget et au moins une case supprimée
+  const canRestore = gameState.restoresUsed[gameState.currentPlayer] < gameConfig.restoresPerPlayer
+    && gameState.removedSquares.size > 0;
+  // Le joueur qui vient de jouer est celui qui demande la reprise
+  const lastActor: Player = gameState.currentPlayer === 'white' ? 'black' : 'white';
+
   // Afficher l'écran de configuration si le jeu n'a pas commencé
   if (!gameConfig.gameStarted) {
     return (
@@ -389,6 +868,26 @@ export default function ChessGame() {
         settings={gameConfig}
         onSettingsChange={handleSettingsChange}
         onStartGame={startGame}
+        onImportPGN={importGame}
+        savedGame={savedGame}
+        onResumeGame={resumeGame}
+        onDiscardSavedGame={discardSavedGame}
+        onOpenLibrary={() => router.push('/library')}
+        onlineGameId={onlineSession ? onlineSession.gameId : undefined}
+        onCreateOnlineGame={createOnlineGame}
+        onJoinOnlineGame={joinOnlineGame}
+        onCancelOnlineGame={leaveOnlineGame}
+      />
+    );
+  }
+
+  if (isReplaying && startGameState) {
+    return (
+      <ReplayViewer
+        startGameState={startGameState}
+        history={gameState.history}
+        maxRemovals={gameConfig.removalsPerPlayer}
+        onClose={() => setIsReplaying(false)}
       />
     );
   }
@@ -400,8 +899,16 @@ export default function ChessGame() {
       {/* Layout principal en 3 zones */}
       <View style={styles.gameLayout}>
         
-        {/* Bouton menu en haut au centre */}
+        {/* Bouton menu en haut au centre, entouré de la reprise et du rétablissement */}
         <View style={styles.topMenuContainer}>
+          <TouchableOpacity 
+            style={[styles.topMenuSideButton, !canUndo && styles.topMenuButtonDisabled]} 
+            onPress={() => (computerPlayer ? handleUndo() : setPendingDialog('takeback'))}
+            activeOpacity={0.8}
+            disabled={!canUndo}
+          >
+            <Ionicons name="arrow-undo" size={18} color="#ffffff" />
+          </TouchableOpacity>
           <TouchableOpacity 
             style={styles.topMenuButton} 
             onPress={resetGame}
@@ -409,6 +916,21 @@ export default function ChessGame() {
           >
             <Ionicons name="home" size={20} color="#ffffff" />
           </TouchableOpacity>
+          <TouchableOpacity 
+            style={[styles.topMenuSideButton, !canRedo && styles.topMenuButtonDisabled]} 
+            onPress={handleRedo}
+            activeOpacity={0.8}
+            disabled={!canRedo}
+          >
+            <Ionicons name="arrow-redo" size={18} color="#ffffff" />
+          </TouchableOpacity>
+          <TouchableOpacity 
+            style={styles.topMenuSideButton} 
+            onPress={() => setIsBoardFlipped(flipped => !flipped)}
+            activeOpacity={0.8}
+          >
+            <Ionicons name="swap-vertical" size={18} color="#ffffff" />
+          </TouchableOpacity>
         </View>
 
         {/* Chronomètres intégrés */}
@@ -421,20 +943,76 @@ export default function ChessGame() {
               board={gameState.board}
               selectedSquare={gameState.selectedSquare}
               removedSquares={gameState.removedSquares}
+              removalCountdowns={getRemovalCountdowns(gameState)}
+              canRestore={actionMode === 'restore'}
               possibleMoves={possibleMoves}
               onSquarePress={handleSquarePress}
               currentPlayer={gameState.currentPlayer}
+              orientation={boardOrientation}
+              faceToFace={isFaceToFace}
             />
           </View>
 
+          {/* Proposition de nulle et abandon */}
+          {pendingDialog === 'drawOffer' && !gameState.gameOver && (
+            <ConfirmDialog
+              icon="hand-left"
+              title="Proposition de nulle"
+              message={onlineSession
+                ? 'Votre adversaire propose la nulle. Acceptez-vous ?'
+                : `Les ${gameState.currentPlayer === 'white' ? 'Blancs' : 'Noirs'} proposent la nulle. Les ${gameState.currentPlayer === 'white' ? 'Noirs' : 'Blancs'} acceptent-ils ?`}
+              confirmLabel="Accepter"
+              cancelLabel="Refuser"
+              onConfirm={() => (onlineSession
+                ? answerOnlineDrawOffer(true)
+                : endGame({ outcome: 'draw', winner: null, reason: 'agreement' }))}
+              onCancel={() => (onlineSession ? answerOnlineDrawOffer(false) : setPendingDialog(null))}
+            />
+          )}
+          {pendingDialog === 'takeback' && canUndo && (
+            <ConfirmDialog
+              icon="arrow-undo"
+              title="Demande de reprise"
+              message={`Les ${lastActor === 'white' ? 'Blancs' : 'Noirs'} demandent à reprendre leur dernière action. Les ${lastActor === 'white' ? 'Noirs' : 'Blancs'} acceptent-ils ?`}
+              confirmLabel="Accepter"
+              cancelLabel="Refuser"
+              onConfirm={handleUndo}
+              onCancel={() => setPendingDialog(null)}
+            />
+          )}
+          {pendingDialog === 'resign' && !gameState.gameOver && (
+            <ConfirmDialog
+              icon="flag"
+              title="Abandonner ?"
+              message={`Les ${resigningPlayer === 'white' ? 'Blancs' : 'Noirs'} abandonnent la partie.`}
+              confirmLabel="Abandonner"
+              cancelLabel="Annuler"
+              onConfirm={() => (onlineSession
+                ? onlineSession.connection.send({ type: 'resign' })
+                : endGame({
+                  outcome: 'win',
+                  winner: resigningPlayer === 'white' ? 'black' : 'white',
+                  reason: 'resignation',
+                }))}
+              onCancel={() => setPendingDialog(null)}
+            />
+          )}
+
           {/* Game Over Overlay */}
           {gameState.gameOver && (
             <View style={styles.gameOverOverlay}>
               <View style={styles.gameOverCard}>
                 <Ionicons name="trophy" size={32} color="#f59e0b" />
                 <Text style={styles.winnerText}>
-                  {gameState.winner === 'white' ? 'BLANC' : 'NOIR'} GAGNE !
+                  {gameState.result?.winner
+                    ? `${gameState.result.winner === 'white' ? 'BLANC' : 'NOIR'} GAGNE !`
+                    : 'PARTIE NULLE'}
                 </Text>
+                {gameState.result && (
+                  <Text style={styles.resultReasonText}>
+                    {resultReasonLabels[gameState.result.reason]}
+                  </Text>
+                )}
                 <TouchableOpacity 
                   style={styles.newGameButton} 
                   onPress={resetGame}
@@ -442,69 +1020,166 @@ export default function ChessGame() {
                 >
                   <Text style={styles.newGameText}>Nouvelle partie</Text>
                 </TouchableOpacity>
+                {startGameState && (
+                  <TouchableOpacity 
+                    style={styles.exportButton} 
+                    onPress={() => setIsReplaying(true)}
+                    activeOpacity={0.8}
+                  >
+                    <Ionicons name="play-circle-outline" size={16} color="#4a5568" />
+                    <Text style={styles.exportText}>Revoir la partie</Text>
+                  </TouchableOpacity>
+                )}
+                <TouchableOpacity 
+                  style={styles.exportButton} 
+                  onPress={handleExportPGN}
+                  activeOpacity={0.8}
+                >
+                  <Ionicons name="share-outline" size={16} color="#4a5568" />
+                  <Text style={styles.exportText}>Exporter (PGN)</Text>
+                </TouchableOpacity>
               </View>
             </View>
           )}
         </View>
 
+        {/* Historique des coups */}
+        <MoveHistory history={gameState.history} firstTurn={startGameState?.fullmoveNumber} />
+
         {/* Contrôles en bas de l'écran - Interface de draft ou contrôles normaux */}
         {!gameState.gameOver && (
           <View style={styles.bottomControls}>
-            {gameConfig.draftPhase && gameState.draftState ? (
+            {pendingPromotion ? (
+              /* Choix de la pièce de promotion */
+              <PromotionPicker
+                currentPlayer={gameState.currentPlayer}
+                onSelect={handlePromotionSelect}
+                onCancel={handlePromotionCancel}
+              />
+            ) : isComputerTurn || isRemoteTurn ? (
+              /* Tour de l'ordinateur ou de l'adversaire en ligne */
+              <View style={styles.computerThinking}>
+                <ActivityIndicator size="small" color="#4a9eff" />
+                <Text style={styles.computerThinkingText}>
+                  {isComputerTurn ? 'L\'ordinateur réfléchit…' : 'Au tour de votre adversaire…'}
+                </Text>
+              </View>
+            ) : gameConfig.draftPhase && gameState.draftState ? (
               /* Interface de draft */
               <DraftInterface
                 availablePieces={gameState.draftState.availablePieces[gameState.draftState.currentDraftPlayer]}
                 selectedPiece={gameState.draftState.selectedPiece}
                 currentPlayer={gameState.draftState.currentDraftPlayer}
+                format={gameState.draftState.format}
+                placementsLeftInTurn={gameState.draftState.placementsLeftInTurn}
+                hasHiddenPlacement={!!gameState.draftState.hiddenPlacement}
+                isRepick={isBlindDraftRepick(gameState)}
+                phase={gameState.draftState.phase}
+                armyBudget={gameState.draftState.armyBudget}
+                zone={gameState.draftState.zone}
+                constraints={gameState.draftState.constraints}
+                canUndo={canUndoPlacement}
                 onPieceSelect={handleDraftPieceSelect}
+                onPurchase={purchaseArmy}
+                onConfirm={confirmDraftPosition}
+                onUndo={undoPlacement}
               />
             ) : (
               /* Toggle binaire pour mode de jeu normal */
-              <View style={styles.toggleContainer}>
-                <TouchableOpacity
-                  style={[
-                    styles.toggleButton,
-                    styles.toggleLeft,
-                    actionMode === 'move' && styles.toggleActive,
-                  ]}
-                  onPress={() => setActionMode('move')}
-                  activeOpacity={0.8}
-                >
-                  <Ionicons name="move" size={16} color={actionMode === 'move' ? "#ffffff" : "#666666"} />
-                  <Text style={[
-                    styles.toggleText,
-                    actionMode === 'move' && styles.toggleActiveText,
-                  ]}>
-                    Déplacer
-                  </Text>
-                </TouchableOpacity>
+              <View style={styles.gameControls}>
+                <View style={styles.toggleContainer}>
+                  <TouchableOpacity
+                    style={[
+                      styles.toggleButton,
+                      styles.toggleLeft,
+                      actionMode === 'move' && styles.toggleActive,
+                    ]}
+                    onPress={() => setActionMode('move')}
+                    activeOpacity={0.8}
+                  >
+                    <Ionicons name="move" size={16} color={actionMode === 'move' ? "#ffffff" : "#666666"} />
+                    <Text style={[
+                      styles.toggleText,
+                      actionMode === 'move' && styles.toggleActiveText,
+                    ]}>
+                      Déplacer
+                    </Text>
+                  </TouchableOpacity>
 
-                <TouchableOpacity
-                  style={[
-                    styles.toggleButton,
-                    styles.toggleRight,
-                    actionMode === 'remove' && styles.toggleActiveRemove,
-                    gameState.removalsUsed[gameState.currentPlayer] >= gameConfig.removalsPerPlayer && styles.toggleDisabled,
-                  ]}
-                  onPress={() => setActionMode('remove')}
-                  activeOpacity={0.8}
-                  disabled={gameState.removalsUsed[gameState.currentPlayer] >= gameConfig.removalsPerPlayer}
-                >
-                  <Text style={[
-                    styles.removeIcon,
-                    actionMode === 'remove' && styles.toggleActiveText,
-                    gameState.removalsUsed[gameState.currentPlayer] >= gameConfig.removalsPerPlayer && styles.toggleDisabledText,
-                  ]}>
-                    ✕
-                  </Text>
-                  <Text style={[
-                    styles.toggleText,
-                    actionMode === 'remove' && styles.toggleActiveText,
-                    gameState.removalsUsed[gameState.currentPlayer] >= gameConfig.removalsPerPlayer && styles.toggleDisabledText,
-                  ]}>
-                    Supprimer
-                  </Text>
-                </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[
+                      styles.toggleButton,
+                      gameConfig.restoresPerPlayer === 0 && styles.toggleRight,
+                      actionMode === 'remove' && styles.toggleActiveRemove,
+                      gameState.removalsUsed[gameState.currentPlayer] >= gameConfig.removalsPerPlayer && styles.toggleDisabled,
+                    ]}
+                    onPress={() => setActionMode('remove')}
+                    activeOpacity={0.8}
+                    disabled={gameState.removalsUsed[gameState.currentPlayer] >= gameConfig.removalsPerPlayer}
+                  >
+                    <Text style={[
+                      styles.removeIcon,
+                      actionMode === 'remove' && styles.toggleActiveText,
+                      gameState.removalsUsed[gameState.currentPlayer] >= gameConfig.removalsPerPlayer && styles.toggleDisabledText,
+                    ]}>
+                      ✕
+                    </Text>
+                    <Text style={[
+                      styles.toggleText,
+                      actionMode === 'remove' && styles.toggleActiveText,
+                      gameState.removalsUsed[gameState.currentPlayer] >= gameConfig.removalsPerPlayer && styles.toggleDisabledText,
+                    ]}>
+                      Supprimer
+                    </Text>
+                  </TouchableOpacity>
+
+                  {gameConfig.restoresPerPlayer > 0 && (
+                    <TouchableOpacity
+                      style={[
+                        styles.toggleButton,
+                        styles.toggleRight,
+                        actionMode === 'restore' && styles.toggleActive,
+                        !canRestore && styles.toggleDisabled,
+                      ]}
+                      onPress={() => setActionMode('restore')}
+                      activeOpacity={0.8}
+                      disabled={!canRestore}
+                    >
+                      <Ionicons
+                        name="refresh"
+                        size={16}
+                        color={actionMode === 'restore' ? '#ffffff' : canRestore ? '#666666' : '#444444'}
+                      />
+                      <Text style={[
+                        styles.toggleText,
+                        actionMode === 'restore' && styles.toggleActiveText,
+                        !canRestore && styles.toggleDisabledText,
+                      ]}>
+                        Rouvrir
+                      </Text>
+                    </TouchableOpacity>
+                  )}
+                </View>
+
+                {/* Nulle et abandon */}
+                <View style={styles.gameActions}>
+                  <TouchableOpacity
+                    style={styles.gameActionButton}
+                    onPress={handleDrawOffer}
+                    activeOpacity={0.8}
+                  >
+                    <Ionicons name="hand-left" size={14} color="#cccccc" />
+                    <Text style={styles.gameActionText}>Nulle</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={styles.gameActionButton}
+                    onPress={() => setPendingDialog('resign')}
+                    activeOpacity={0.8}
+                  >
+                    <Ionicons name="flag" size={14} color="#cccccc" />
+                    <Text style={styles.gameActionText}>Abandonner</Text>
+                  </TouchableOpacity>
+                </View>
               </View>
             )}
           </View>
@@ -525,10 +1200,24 @@ const styles = StyleSheet.create({
     justifyContent: 'flex-start',
   },
   topMenuContainer: {
+    flexDirection: 'row',
+    justifyContent: 'center',
     alignItems: 'center',
+    gap: 16,
     paddingTop: 8,
     paddingBottom: 4,
   },
+  topMenuSideButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: 'rgba(0,0,0,0.6)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  topMenuButtonDisabled: {
+    opacity: 0.3,
+  },
   topMenuButton: {
     width: 48,
     height: 48,
@@ -612,6 +1301,40 @@ const styles = StyleSheet.create({
     minHeight: 120,
     justifyContent: 'center',
   },
+  computerThinking: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    paddingVertical: 12,
+  },
+  computerThinkingText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#cccccc',
+  },
+  gameControls: {
+    alignItems: 'center',
+    gap: 10,
+  },
+  gameActions: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  gameActionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 12,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+  },
+  gameActionText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#cccccc',
+  },
   toggleContainer: {
     flexDirection: 'row',
     backgroundColor: 'rgba(0,0,0,0.8)',
@@ -686,6 +1409,11 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: '#000000',
     marginTop: 16,
+    marginBottom: 4,
+  },
+  resultReasonText: {
+    fontSize: 14,
+    color: '#6c757d',
     marginBottom: 20,
   },
   newGameButton: {
@@ -699,4 +1427,17 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
+  exportButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  exportText: {
+    color: '#4a5568',
+    fontSize: 14,
+    fontWeight: '600',
+  },
 });
\ No newline at end of file
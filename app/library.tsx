@@ -0,0 +1,334 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  SafeAreaView,
+  ScrollView,
+  Share,
+} from 'react-native';
+import { StatusBar } from 'expo-status-bar';
+import { router } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import ReplayViewer from '@/components/ReplayViewer';
+import ConfirmDialog from '@/components/ConfirmDialog';
+import { GameResult } from '@/types/chess';
+import { groupMovesByTurn, resultReasonLabels } from '@/utils/notation';
+import { exportPGN } from '@/utils/pgn';
+import { formatTimeControl } from '@/utils/clock';
+import { deleteGameFromLibrary, LibraryGame, loadLibrary } from '@/utils/storage';
+
+type ResultFilter = 'all' | 'white' | 'black' | 'draw';
+type ModeFilter = 'all' | 'classic' | 'draft';
+
+const resultFilterOptions: { filter: ResultFilter; label: string }[] = [
+  { filter: 'all', label: 'Tous' },
+  { filter: 'white', label: 'Blancs gagnent' },
+  { filter: 'black', label: 'Noirs gagnent' },
+  { filter: 'draw', label: 'Nulles' },
+];
+
+const modeFilterOptions: { filter: ModeFilter; label: string }[] = [
+  { filter: 'all', label: 'Tous' },
+  { filter: 'classic', label: 'Classique' },
+  { filter: 'draft', label: 'Draft' },
+];
+
+function matchesFilters(game: LibraryGame, resultFilter: ResultFilter, modeFilter: ModeFilter): boolean {
+  const result = game.gameState.result;
+  const resultMatches = resultFilter === 'all'
+    || (resultFilter === 'draw' ? result?.outcome === 'draw' : result?.winner === resultFilter);
+  const modeMatches = modeFilter === 'all' || (modeFilter === 'draft') === game.settings.draftMode;
+  return resultMatches && modeMatches;
+}
+
+function describeResult(result: GameResult | null): string {
+  if (!result) return 'Partie interrompue';
+  const outcome = result.winner
+    ? `Victoire des ${result.winner === 'white' ? 'Blancs' : 'Noirs'}`
+    : 'Partie nulle';
+  return `${outcome} ${resultReasonLabels[result.reason]}`;
+}
+
+function describeSettings(game: LibraryGame): string {
+  const { removalsPerPlayer, restoresPerPlayer, draftMode, armyMode, armyBudget, opponent } = game.settings;
+  const moveCount = groupMovesByTurn(game.gameState.history).length;
+  return [
+    formatTimeControl(game.settings),
+    `${removalsPerPlayer} suppression${removalsPerPlayer > 1 ? 's' : ''}`,
+    restoresPerPlayer ? `${restoresPerPlayer} réouverture${restoresPerPlayer > 1 ? 's' : ''}` : null,
+    draftMode ? (armyMode === 'budget' ? `Draft à ${armyBudget} points` : 'Draft') : 'Classique',
+    opponent === 'computer' ? 'contre l\'ordinateur' : null,
+    `${moveCount} coup${moveCount > 1 ? 's' : ''}`,
+  ].filter(Boolean).join(' · ');
+}
+
+export default function GameLibrary() {
+  const [games, setGames] = useState<LibraryGame[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [resultFilter, setResultFilter] = useState<ResultFilter>('all');
+  const [modeFilter, setModeFilter] = useState<ModeFilter>('all');
+  const [replayedGame, setReplayedGame] = useState<LibraryGame | null>(null);
+  const [pendingDeletion, setPendingDeletion] = useState<LibraryGame | null>(null);
+
+  useEffect(() => {
+    loadLibrary().then(library => {
+      setGames(library);
+      setIsLoading(false);
+    });
+  }, []);
+
+  // Ouverte directement par son URL sur le web, la page n'a pas d'écran précédent
+  const goBack = () => {
+    if (router.canGoBack()) {
+      router.back();
+    } else {
+      router.replace('/');
+    }
+  };
+
+  const handleExport = (game: LibraryGame) => {
+    Share.share({ message: exportPGN(game.gameState, game.settings, {}, new Date(game.finishedAt)) });
+  };
+
+  const confirmDeletion = async () => {
+    if (!pendingDeletion) return;
+    setGames(await deleteGameFromLibrary(pendingDeletion.id));
+    setPendingDeletion(null);
+  };
+
+  if (replayedGame) {
+    return (
+      <ReplayViewer
+        startGameState={replayedGame.startGameState}
+        history={replayedGame.gameState.history}
+        maxRemovals={replayedGame.settings.removalsPerPlayer}
+        onClose={() => setReplayedGame(null)}
+      />
+    );
+  }
+
+  const filteredGames = games.filter(game => matchesFilters(game, resultFilter, modeFilter));
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar style="light" />
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={goBack} activeOpacity={0.8}>
+          <Ionicons name="arrow-back" size={20} color="#ffffff" />
+        </TouchableOpacity>
+        <Text style={styles.title}>Mes parties</Text>
+        <Text style={styles.countText}>{filteredGames.length}/{games.length}</Text>
+      </View>
+
+      {/* Filtres par résultat et par mode */}
+      <View style={styles.filters}>
+        <View style={styles.filterRow}>
+          {resultFilterOptions.map(({ filter, label }) => (
+            <TouchableOpacity
+              key={filter}
+              style={[styles.filterButton, resultFilter === filter && styles.selectedFilterButton]}
+              onPress={() => setResultFilter(filter)}
+              activeOpacity={0.8}
+            >
+              <Text style={[styles.filterText, resultFilter === filter && styles.selectedFilterText]}>
+                {label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        <View style={styles.filterRow}>
+          {modeFilterOptions.map(({ filter, label }) => (
+            <TouchableOpacity
+              key={filter}
+              style={[styles.filterButton, modeFilter === filter && styles.selectedFilterButton]}
+              onPress={() => setModeFilter(filter)}
+              activeOpacity={0.8}
+            >
+              <Text style={[styles.filterText, modeFilter === filter && styles.selectedFilterText]}>
+                {label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+
+      <ScrollView style={styles.list} contentContainerStyle={styles.listContent}>
+        {!isLoading && filteredGames.length === 0 && (
+          <Text style={styles.emptyText}>
+            {games.length === 0
+              ? 'Les parties terminées apparaîtront ici.'
+              : 'Aucune partie ne correspond à ces filtres.'}
+          </Text>
+        )}
+        {filteredGames.map(game => (
+          <View key={game.id} style={styles.gameCard}>
+            <Text style={styles.gameDate}>
+              {new Date(game.finishedAt).toLocaleString('fr-FR', { dateStyle: 'medium', timeStyle: 'short' })}
+            </Text>
+            <Text style={styles.gameResult}>{describeResult(game.gameState.result)}</Text>
+            <Text style={styles.gameSettings}>{describeSettings(game)}</Text>
+            <View style={styles.gameActions}>
+              <TouchableOpacity
+                style={styles.actionButton}
+                onPress={() => setReplayedGame(game)}
+                activeOpacity={0.8}
+              >
+                <Ionicons name="play-circle-outline" size={16} color="#ffffff" />
+                <Text style={styles.actionText}>Revoir</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.actionButton}
+                onPress={() => handleExport(game)}
+                activeOpacity={0.8}
+              >
+                <Ionicons name="share-outline" size={16} color="#ffffff" />
+                <Text style={styles.actionText}>Exporter</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.actionButton, styles.deleteButton]}
+                onPress={() => setPendingDeletion(game)}
+                activeOpacity={0.8}
+              >
+                <Ionicons name="trash-outline" size={16} color="#ffffff" />
+                <Text style={styles.actionText}>Supprimer</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        ))}
+      </ScrollView>
+
+      {pendingDeletion && (
+        <ConfirmDialog
+          icon="trash-outline"
+          title="Supprimer la partie ?"
+          message={describeResult(pendingDeletion.gameState.result)}
+          confirmLabel="Supprimer"
+          cancelLabel="Annuler"
+          onConfirm={confirmDeletion}
+          onCancel={() => setPendingDeletion(null)}
+        />
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#312e2b',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingTop: 8,
+  },
+  backButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: 'rgba(0,0,0,0.8)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#ffffff',
+  },
+  countText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#999999',
+    minWidth: 36,
+    textAlign: 'right',
+  },
+  filters: {
+    paddingHorizontal: 16,
+    paddingTop: 12,
+    gap: 8,
+  },
+  filterRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: 8,
+  },
+  filterButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: '#4a5568',
+  },
+  selectedFilterButton: {
+    backgroundColor: '#4a9eff',
+  },
+  filterText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#cccccc',
+  },
+  selectedFilterText: {
+    color: '#ffffff',
+  },
+  list: {
+    flex: 1,
+    marginTop: 12,
+  },
+  listContent: {
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+    gap: 12,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#999999',
+    textAlign: 'center',
+    marginTop: 32,
+  },
+  gameCard: {
+    borderRadius: 8,
+    padding: 12,
+    backgroundColor: 'rgba(0,0,0,0.3)',
+  },
+  gameDate: {
+    fontSize: 12,
+    color: '#999999',
+  },
+  gameResult: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#ffffff',
+    marginTop: 4,
+  },
+  gameSettings: {
+    fontSize: 13,
+    color: '#cccccc',
+    marginTop: 4,
+  },
+  gameActions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 12,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: '#4a5568',
+  },
+  deleteButton: {
+    backgroundColor: '#d9534f',
+  },
+  actionText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#ffffff',
+    marginLeft: 6,
+  },
+});
@@ -10,11 +10,18 @@ interface ChessBoardProps {
   possibleMoves: Position[];
   onSquarePress: (row: number, col: number) => void;
   currentPlayer: Player;
+  orientation?: Player; // couleur affichée en bas de l'échiquier
+  faceToFace?: boolean; // pièces du haut retournées pour le joueur assis en face
+  removalCountdowns?: Record<string, number>; // demi-coups avant le retour des cases temporaires
+  canRestore?: boolean; // cases supprimées cliquables, pour les rouvrir
 }
 
 const { width: screenWidth } = Dimensions.get('window');
 const boardSize = Math.min(screenWidth - 80, 360);
 const squareSize = boardSize / 8;
+const files = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'];
+const ranks = ['8', '7', '6', '5', '4', '3', '2', '1'];
+const indices = [0, 1, 2, 3, 4, 5, 6, 7];
 
 export default function ChessBoard({
   board,
@@ -23,17 +30,23 @@ export default function ChessBoard({
   possibleMoves,
   onSquarePress,
   currentPlayer,
+  orientation = 'white',
+  faceToFace = false,
+  removalCountdowns = {},
+  canRestore = false,
 }: ChessBoardProps) {
-  const files = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'];
-  const ranks = ['8', '7', '6', '5', '4', '3', '2', '1'];
+  // Lignes et colonnes du plateau dans l'ordre d'affichage : tout est inversé quand les Noirs sont en bas.
+  // Les indices restent ceux du plateau, si bien que les appuis désignent toujours la bonne case.
+  const displayOrder = orientation === 'white' ? indices : [...indices].reverse();
+  const topPlayer: Player = orientation === 'white' ? 'black' : 'white';
 
   return (
     <View style={styles.container}>
       {/* Rank labels (left side) */}
       <View style={styles.rankLabels}>
-        {ranks.map((rank, index) => (
-          <View key={rank} style={[styles.rankLabel, { height: squareSize }]}>
-            <Text style={styles.labelText}>{rank}</Text>
+        {displayOrder.map(rowIndex => (
+          <View key={rowIndex} style={[styles.rankLabel, { height: squareSize }]}>
+            <Text style={styles.labelText}>{ranks[rowIndex]}</Text>
           </View>
         ))}
       </View>
@@ -41,11 +54,12 @@ export default function ChessBoard({
       {/* Main board */}
       <View style={styles.boardWrapper}>
         <View style={[styles.board, { width: boardSize, height: boardSize }]}>
-          {board.map((row, rowIndex) => (
+          {displayOrder.map(rowIndex => (
             <View key={rowIndex} style={styles.row}>
-              {row.map((piece, colIndex) => {
+              {displayOrder.map(colIndex => {
+                const piece = board[rowIndex][colIndex];
                 const isLight = (rowIndex + colIndex) % 2 === 0;
-                const isSelected = selectedSquare && 
+                const isSelected = !!selectedSquare && 
                   selectedSquare[0] === rowIndex && 
                   selectedSquare[1] === colIndex;
                 const isRemoved = removedSquares.has(`${rowIndex}-${colIndex}`);
@@ -60,10 +74,13 @@ export default function ChessBoard({
                     isLight={isLight}
                     isSelected={isSelected}
                     isRemoved={isRemoved}
+                    removalCountdown={removalCountdowns[`${rowIndex}-${colIndex}`]}
+                    canRestore={canRestore}
                     isPossibleMove={isPossibleMove}
                     onPress={() => onSquarePress(rowIndex, colIndex)}
                     canSelect={piece?.color === currentPlayer}
                     size={squareSize}
+                    isPieceRotated={faceToFace && piece?.color === topPlayer}
                   />
                 );
               })}
@@ -73,9 +90,9 @@ export default function ChessBoard({
 
         {/* File labels (bottom) */}
         <View style={styles.fileLabels}>
-          {files.map((file) => (
-            <View key={file} style={[styles.fileLabel, { width: squareSize }]}>
-              <Text style={styles.labelText}>{file}</Text>
+          {displayOrder.map(colIndex => (
+            <View key={colIndex} style={[styles.fileLabel, { width: squareSize }]}>
+              <Text style={styles.labelText}>{files[colIndex]}</Text>
             </View>
           ))}
         </View>
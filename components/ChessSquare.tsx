@@ -13,10 +13,13 @@ interface ChessSquareProps {
   isLight: boolean;
   isSelected: boolean;
   isRemoved: boolean;
+  removalCountdown?: number; // demi-coups avant le retour d'une case temporaire
+  canRestore?: boolean; // une case supprimée reste cliquable pour être rouverte
   isPossibleMove: boolean;
   onPress: () => void;
   canSelect: boolean;
   size: number;
+  isPieceRotated?: boolean; // pièce retournée pour le joueur assis en face
 }
 
 const AnimatedTouchableOpacity = Animated.createAnimatedComponent(TouchableOpacity);
@@ -46,15 +49,18 @@ export default function ChessSquare({
   isLight,
   isSelected,
   isRemoved,
+  removalCountdown,
+  canRestore = false,
   isPossibleMove,
   onPress,
   canSelect,
   size,
+  isPieceRotated = false,
 }: ChessSquareProps) {
   const scale = useSharedValue(1);
 
   const handlePress = () => {
-    if (isRemoved) return;
+    if (isRemoved && !canRestore) return;
     
     scale.value = withSequence(
       withSpring(0.95, { duration: 80 }),
@@ -98,7 +104,7 @@ export default function ChessSquare({
       ]}
       onPress={handlePress}
       activeOpacity={0.9}
-      disabled={isRemoved}
+      disabled={isRemoved && !canRestore}
     >
       {piece && !isRemoved && (
         <Text style={[
@@ -109,7 +115,8 @@ export default function ChessSquare({
             textShadowColor: piece.color === 'white' ? '#000000' : 'transparent',
             textShadowOffset: piece.color === 'white' ? { width: 1, height: 1 } : { width: 0, height: 0 },
             textShadowRadius: piece.color === 'white' ? 1 : 0,
-          }
+          },
+          isPieceRotated && styles.rotatedPiece,
         ]}>
           {getPieceSymbol(piece)}
         </Text>
@@ -118,6 +125,9 @@ export default function ChessSquare({
       {isRemoved && (
         <View style={styles.removedOverlay}>
           <Text style={[styles.removedX, { fontSize: size * 0.4 }]}>✕</Text>
+          {removalCountdown !== undefined && (
+            <Text style={[styles.countdown, { fontSize: size * 0.25 }]}>{removalCountdown}</Text>
+          )}
         </View>
       )}
 
@@ -152,6 +162,9 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     textAlign: 'center',
   },
+  rotatedPiece: {
+    transform: [{ rotate: '180deg' }],
+  },
   removedOverlay: {
     position: 'absolute',
     top: 0,
@@ -166,6 +179,13 @@ const styles = StyleSheet.create({
     color: '#ffffff',
     fontWeight: 'bold',
   },
+  countdown: {
+    position: 'absolute',
+    bottom: 1,
+    right: 3,
+    color: '#ffffff',
+    fontWeight: 'bold',
+  },
   selectedBorder: {
     position: 'absolute',
     top: 2,
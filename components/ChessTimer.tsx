@@ -1,74 +1,74 @@
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { View, Text, StyleSheet } from 'react-native';
 import { Player } from '@/types/chess';
+import { Clocks, getLiveTimeLeft, getTimeUntilFlag, SUDDEN_DEATH, TimeControl } from '@/utils/clock';
 
 interface ChessTimerProps {
-  timeLeft: { white: number; black: number };
-  currentPlayer: Player;
-  gameOver: boolean;
+  timeLeft: Clocks; // en millisecondes, figés au début du tour en cours
+  runningPlayer: Player | null; // null : chronos arrêtés
+  turnStartedAt: number | null; // horodatage monotone du début du tour
+  timeControl?: TimeControl;
   removalsUsed: { white: number; black: number };
   maxRemovals: number;
-  onTimeUp: (player: Player) => void;
-  onTimeUpdate: (player: Player, newTime: number) => void;
+  onTimeUp?: (player: Player) => void;
+  rotatedPlayer?: Player | null; // moitié retournée pour le joueur assis en face
+}
+
+// Rafraîchissement de l'affichage seulement : le temps restant est recalculé à partir des horodatages
+const DISPLAY_REFRESH_MS = 100;
+const LOW_TIME_MS = 30 * 1000;
+const CRITICAL_TIME_MS = 10 * 1000;
+
+// Dixièmes de seconde sous les dix secondes, sinon minutes et secondes arrondies au-dessus
+function formatTime(ms: number): string {
+  if (ms < CRITICAL_TIME_MS) return `0:0${(Math.floor(ms / 100) / 10).toFixed(1)}`;
+  const totalSeconds = Math.ceil(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const remainingSeconds = totalSeconds % 60;
+  return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`;
 }
 
 export default function ChessTimer({
   timeLeft,
-  currentPlayer,
-  gameOver,
+  runningPlayer,
+  turnStartedAt,
+  timeControl = SUDDEN_DEATH,
   removalsUsed,
   maxRemovals,
   onTimeUp,
-  onTimeUpdate,
+  rotatedPlayer = null,
 }: ChessTimerProps) {
-  const intervalRef = useRef<NodeJS.Timeout | null>(null);
+  const [, setRefreshCount] = useState(0);
+  // Le parent recrée son callback à chaque rendu : il ne doit pas relancer les minuteries
+  const onTimeUpRef = useRef(onTimeUp);
+  onTimeUpRef.current = onTimeUp;
 
   useEffect(() => {
-    if (gameOver) {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-        intervalRef.current = null;
-      }
-      return;
-    }
+    if (!runningPlayer || turnStartedAt === null) return;
 
-    // Démarrer le chronomètre pour le joueur actuel
-    intervalRef.current = setInterval(() => {
-      const currentTime = timeLeft[currentPlayer];
-      
-      if (currentTime <= 1) {
-        onTimeUp(currentPlayer);
-        if (intervalRef.current) {
-          clearInterval(intervalRef.current);
-          intervalRef.current = null;
-        }
-      } else {
-        onTimeUpdate(currentPlayer, currentTime - 1);
-      }
-    }, 1000);
+    const refresh = setInterval(() => setRefreshCount(count => count + 1), DISPLAY_REFRESH_MS);
+    // Drapeau programmé à l'instant exact de la chute plutôt que constaté au prochain rafraîchissement
+    const flag = setTimeout(
+      () => onTimeUpRef.current?.(runningPlayer),
+      getTimeUntilFlag(timeLeft, runningPlayer, turnStartedAt, timeControl)
+    );
 
     return () => {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-        intervalRef.current = null;
-      }
+      clearInterval(refresh);
+      clearTimeout(flag);
     };
-  }, [currentPlayer, gameOver, timeLeft, onTimeUp, onTimeUpdate]);
+  }, [runningPlayer, turnStartedAt, timeLeft, timeControl.mode, timeControl.incrementMs]);
 
-  const formatTime = (seconds: number): string => {
-    const minutes = Math.floor(seconds / 60);
-    const remainingSeconds = seconds % 60;
-    return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`;
-  };
+  const displayedTime = getLiveTimeLeft(timeLeft, runningPlayer, turnStartedAt, timeControl);
 
   const getRemainingRemovals = (player: Player): number => {
     return maxRemovals - removalsUsed[player];
   };
 
   const getTimerStyle = (player: Player) => {
-    const isActive = currentPlayer === player && !gameOver;
-    const isLowTime = timeLeft[player] <= 30;
-    const isCriticalTime = timeLeft[player] <= 10;
+    const isActive = runningPlayer === player;
+    const isLowTime = displayedTime[player] <= LOW_TIME_MS;
+    const isCriticalTime = displayedTime[player] <= CRITICAL_TIME_MS;
     
     return [
       styles.timer,
@@ -76,6 +76,7 @@ export default function ChessTimer({
       isActive && styles.activeTimer,
       isLowTime && styles.lowTimeTimer,
       isCriticalTime && styles.criticalTimeTimer,
+      rotatedPlayer === player && styles.rotatedTimer,
     ];
   };
 
@@ -87,10 +88,10 @@ export default function ChessTimer({
         <Text style={[
           styles.timeText, 
           styles.blackTimeText,
-          currentPlayer === 'black' && !gameOver && styles.activeTimeText,
-          timeLeft.black <= 10 && styles.criticalTimeText,
+          runningPlayer === 'black' && styles.activeTimeText,
+          displayedTime.black <= CRITICAL_TIME_MS && styles.criticalTimeText,
         ]}>
-          {formatTime(timeLeft.black)}
+          {formatTime(displayedTime.black)}
         </Text>
         <Text style={[styles.removalsText, styles.blackLabel]}>
           {getRemainingRemovals('black')} suppressions
@@ -102,10 +103,10 @@ export default function ChessTimer({
         <Text style={styles.playerLabel}>BLANC</Text>
         <Text style={[
           styles.timeText,
-          currentPlayer === 'white' && !gameOver && styles.activeTimeText,
-          timeLeft.white <= 10 && styles.criticalTimeText,
+          runningPlayer === 'white' && styles.activeTimeText,
+          displayedTime.white <= CRITICAL_TIME_MS && styles.criticalTimeText,
         ]}>
-          {formatTime(timeLeft.white)}
+          {formatTime(displayedTime.white)}
         </Text>
         <Text style={styles.removalsText}>
           {getRemainingRemovals('white')} suppressions
@@ -137,6 +138,9 @@ const styles = StyleSheet.create({
     shadowRadius: 4,
     elevation: 3,
   },
+  rotatedTimer: {
+    transform: [{ rotate: '180deg' }],
+  },
   whiteTimer: {
     backgroundColor: '#f8f9fa',
   },
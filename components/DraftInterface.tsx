@@ -1,15 +1,76 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { View, Text, StyleSheet, TouchableOpacity, ScrollView } from 'react-native';
-import { PieceType, Player } from '@/types/chess';
+import { DraftConstraint, DraftFormat, DraftPhase, DraftZone, PieceType, Player } from '@/types/chess';
+import {
+  ARMY_PIECE_COSTS,
+  ARMY_PIECE_LIMITS,
+  MAX_ARMY_SIZE,
+  SHOP_PIECES,
+  countArmyPieces,
+  getArmyCost,
+  getArmyError,
+} from '@/utils/army';
 
 interface DraftInterfaceProps {
   availablePieces: PieceType[];
   selectedPiece: PieceType | null;
   currentPlayer: Player;
+  format: DraftFormat;
+  placementsLeftInTurn: number;
+  hasHiddenPlacement: boolean; // l'adversaire a déjà choisi en secret
+  isRepick: boolean; // à l'aveugle, la paire précédente était incompatible
+  phase: DraftPhase;
+  armyBudget: number | null; // null : réserve classique, sans boutique
+  zone: DraftZone;
+  constraints: DraftConstraint[];
+  canUndo: boolean; // le dernier placement peut encore être repris
   onPieceSelect: (piece: PieceType) => void;
+  onPurchase: (pieces: PieceType[]) => void;
+  onConfirm: () => void;
+  onUndo: () => void;
 }
 
-const pieceNames = {
+// Rappel de la règle propre à chaque format, sous le titre
+function getFormatInstruction(
+  format: DraftFormat,
+  placementsLeftInTurn: number,
+  hasHiddenPlacement: boolean,
+  isRepick: boolean
+): string {
+  switch (format) {
+    case 'snake':
+      return placementsLeftInTurn > 1
+        ? `Ordre serpent : encore ${placementsLeftInTurn} placements avant de passer la main`
+        : 'Ordre serpent : dernier placement avant de passer la main';
+    case 'blind':
+      if (isRepick) return 'À l\'aveugle : les deux choix étaient incompatibles, choisissez à nouveau face à la pièce révélée';
+      return hasHiddenPlacement
+        ? 'À l\'aveugle : l\'adversaire a choisi, les deux choix seront révélés ensemble'
+        : 'À l\'aveugle : votre choix restera caché jusqu\'à celui de l\'adversaire';
+    default:
+      return 'Un placement chacun à tour de rôle';
+  }
+}
+
+const zoneInstructions: Record<DraftZone, string> = {
+  backRank: 'sur votre dernière rangée',
+  backTwoRanks: 'sur vos deux dernières rangées',
+  half: 'sur votre moitié de l\'échiquier',
+};
+
+// Où poser les pièces, avec les règles qui s'y ajoutent
+function getPlacementInstruction(zone: DraftZone, constraints: DraftConstraint[], hasPawns: boolean): string {
+  const rules = [
+    ...(hasPawns ? ['jamais de pion sur la dernière rangée'] : []),
+    ...(constraints.includes('kingOnBackRank') ? ['roi sur la dernière rangée'] : []),
+    ...(constraints.includes('oppositeBishops') ? ['fous de couleurs opposées'] : []),
+  ];
+  const instruction = `Choisissez une pièce puis cliquez ${zoneInstructions[zone]}`;
+  return rules.length > 0 ? `${instruction} : ${rules.join(', ')}` : instruction;
+}
+
+const pieceNames: Record<PieceType, string> = {
+  pawn: 'Pion',
   rook: 'Tour',
   knight: 'Cavalier',
   bishop: 'Fou',
@@ -17,8 +78,9 @@ const pieceNames = {
   king: 'Roi',
 };
 
-const pieceSymbols = {
+const pieceSymbols: Record<Player, Record<PieceType, string>> = {
   white: {
+    pawn: '♙',
     rook: '♖',
     knight: '♘',
     bishop: '♗',
@@ -26,6 +88,7 @@ const pieceSymbols = {
     king: '♔',
   },
   black: {
+    pawn: '♟',
     rook: '♜',
     knight: '♞',
     bishop: '♝',
@@ -38,8 +101,27 @@ export default function DraftInterface({
   availablePieces,
   selectedPiece,
   currentPlayer,
+  format,
+  placementsLeftInTurn,
+  hasHiddenPlacement,
+  isRepick,
+  phase,
+  armyBudget,
+  zone,
+  constraints,
+  canUndo,
   onPieceSelect,
+  onPurchase,
+  onConfirm,
+  onUndo,
 }: DraftInterfaceProps) {
+  // Panier de la boutique : le roi obligatoire y est d'office, et chaque joueur repart de zéro
+  const [cart, setCart] = useState<PieceType[]>(['king']);
+  useEffect(() => {
+    setCart(['king']);
+  }, [currentPlayer]);
+
+
   // Compter les pièces disponibles
   const pieceCounts = availablePieces.reduce((acc, piece) => {
     acc[piece] = (acc[piece] || 0) + 1;
@@ -52,13 +134,106 @@ export default function DraftInterface({
   const backgroundColor = currentPlayer === 'white' ? '#ffffff' : '#000000';
   const textColor = currentPlayer === 'white' ? '#000000' : '#ffffff';
   const instructionColor = currentPlayer === 'white' ? '#666666' : '#cccccc';
+
+  if (phase === 'shop' && armyBudget !== null) {
+    const cartCounts = countArmyPieces(cart);
+    const remaining = armyBudget - getArmyCost(cart);
+    const armyError = getArmyError(cart, armyBudget);
+    const canAdd = (piece: PieceType) => ARMY_PIECE_COSTS[piece] <= remaining
+      && cartCounts[piece] < ARMY_PIECE_LIMITS[piece]
+      && cart.length < MAX_ARMY_SIZE;
+    const removeOne = (piece: PieceType) => {
+      const index = cart.lastIndexOf(piece);
+      if (index !== -1) setCart([...cart.slice(0, index), ...cart.slice(index + 1)]);
+    };
+
+    return (
+      <View style={[styles.container, { backgroundColor }]}>
+        <Text style={[styles.title, { color: textColor }]}>
+          Boutique - {currentPlayer === 'white' ? 'BLANC' : 'NOIR'}
+        </Text>
+        <Text style={[styles.instruction, { color: instructionColor }]}>
+          Budget restant : {remaining} / {armyBudget} points · {cart.length} pièce{cart.length > 1 ? 's' : ''}
+        </Text>
+
+        <View style={styles.shopList}>
+          {SHOP_PIECES.map(piece => (
+            <View key={piece} style={styles.shopRow}>
+              <Text style={[styles.shopSymbol, { color: textColor }]}>{pieceSymbols[currentPlayer][piece]}</Text>
+              <Text style={[styles.shopName, { color: textColor }]}>
+                {pieceNames[piece]} · {ARMY_PIECE_COSTS[piece]} pt{ARMY_PIECE_COSTS[piece] > 1 ? 's' : ''}
+              </Text>
+              <TouchableOpacity
+                style={[styles.shopButton, (piece === 'king' || cartCounts[piece] === 0) && styles.disabledShopButton]}
+                onPress={() => removeOne(piece)}
+                disabled={piece === 'king' || cartCounts[piece] === 0}
+                activeOpacity={0.8}
+              >
+                <Text style={styles.shopButtonText}>−</Text>
+              </TouchableOpacity>
+              <Text style={[styles.shopCount, { color: textColor }]}>
+                {cartCounts[piece]}/{ARMY_PIECE_LIMITS[piece]}
+              </Text>
+              <TouchableOpacity
+                style={[styles.shopButton, !canAdd(piece) && styles.disabledShopButton]}
+                onPress={() => setCart([...cart, piece])}
+                disabled={!canAdd(piece)}
+                activeOpacity={0.8}
+              >
+                <Text style={styles.shopButtonText}>+</Text>
+              </TouchableOpacity>
+            </View>
+          ))}
+        </View>
+
+        {armyError && (
+          <Text style={[styles.formatInstruction, { color: instructionColor }]}>{armyError}</Text>
+        )}
+        <TouchableOpacity
+          style={[styles.confirmButton, !!armyError && styles.disabledShopButton]}
+          onPress={() => onPurchase(cart)}
+          disabled={!!armyError}
+          activeOpacity={0.8}
+        >
+          <Text style={styles.confirmButtonText}>{'Valider l\'armée'}</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  const undoButton = canUndo && (
+    <TouchableOpacity style={styles.undoButton} onPress={onUndo} activeOpacity={0.8}>
+      <Text style={styles.undoButtonText}>Reprendre le dernier placement</Text>
+    </TouchableOpacity>
+  );
+
+  if (phase === 'review') {
+    return (
+      <View style={[styles.container, { backgroundColor }]}>
+        <Text style={[styles.title, { color: textColor }]}>
+          Vérification - {currentPlayer === 'white' ? 'BLANC' : 'NOIR'}
+        </Text>
+        <Text style={[styles.instruction, { color: instructionColor }]}>
+          {'Vérifiez la position draftée : les chronos de partie démarrent quand les deux joueurs l\'ont validée'}
+        </Text>
+        <TouchableOpacity style={styles.confirmButton} onPress={onConfirm} activeOpacity={0.8}>
+          <Text style={styles.confirmButtonText}>Valider la position</Text>
+        </TouchableOpacity>
+        {undoButton}
+      </View>
+    );
+  }
+
   return (
     <View style={[styles.container, { backgroundColor }]}>
       <Text style={[styles.title, { color: textColor }]}>
         Phase de placement - {currentPlayer === 'white' ? 'BLANC' : 'NOIR'}
       </Text>
       <Text style={[styles.instruction, { color: instructionColor }]}>
-        Choisissez une pièce puis cliquez sur votre première rangée
+        {getPlacementInstruction(zone, constraints, availablePieces.includes('pawn'))}
+      </Text>
+      <Text style={[styles.formatInstruction, { color: instructionColor }]}>
+        {getFormatInstruction(format, placementsLeftInTurn, hasHiddenPlacement, isRepick)}
       </Text>
       
       <ScrollView 
@@ -98,6 +273,7 @@ export default function DraftInterface({
           );
         })}
       </ScrollView>
+      {undoButton}
     </View>
   );
 }
@@ -115,6 +291,12 @@ const styles = StyleSheet.create({
   },
   instruction: {
     fontSize: 12,
+    marginBottom: 4,
+    textAlign: 'center',
+  },
+  formatInstruction: {
+    fontSize: 11,
+    fontStyle: 'italic',
     marginBottom: 12,
     textAlign: 'center',
   },
@@ -165,4 +347,68 @@ const styles = StyleSheet.create({
     color: '#ffffff',
     fontWeight: 'bold',
   },
+  undoButton: {
+    marginTop: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 6,
+    backgroundColor: '#6c757d',
+  },
+  undoButtonText: {
+    fontSize: 12,
+    color: '#ffffff',
+    fontWeight: '600',
+  },
+  shopList: {
+    alignSelf: 'stretch',
+    gap: 4,
+    marginBottom: 8,
+  },
+  shopRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  shopSymbol: {
+    fontSize: 22,
+    width: 28,
+    textAlign: 'center',
+  },
+  shopName: {
+    flex: 1,
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  shopButton: {
+    backgroundColor: '#4a5568',
+    borderRadius: 6,
+    width: 28,
+    height: 28,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  disabledShopButton: {
+    opacity: 0.4,
+  },
+  shopButtonText: {
+    fontSize: 16,
+    color: '#ffffff',
+    fontWeight: 'bold',
+  },
+  shopCount: {
+    fontSize: 12,
+    minWidth: 32,
+    textAlign: 'center',
+  },
+  confirmButton: {
+    backgroundColor: '#4a9eff',
+    borderRadius: 6,
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+  },
+  confirmButtonText: {
+    fontSize: 14,
+    color: '#ffffff',
+    fontWeight: 'bold',
+  },
 });
\ No newline at end of file
@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useState } from 'react';
 import {
   View,
   Text,
@@ -6,34 +6,198 @@ import {
   TouchableOpacity,
   SafeAreaView,
   Dimensions,
+  Linking,
+  TextInput,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
-import { GameSettings } from '@/types/chess';
+import { ArmyMode, BoardLayout, ClockMode, DraftConstraint, DraftFormat, DraftSetup, DraftZone, PieceType, DraftStyle, GameSettings, RemovedSquareRules } from '@/types/chess';
+import { ARMY_BUDGETS } from '@/utils/army';
+import { getRandomDraftSeed, isValidDraftSeed } from '@/utils/draftFormats';
+import { isValidDraftSetup, MAX_RESERVE_COUNT } from '@/utils/draftSetup';
+import { INITIAL_FEN } from '@/utils/fen';
+import { SavedGame } from '@/utils/storage';
+import { DEFAULT_SERVER_URL } from '@/utils/onlineClient';
 
 interface GameSetupProps {
   settings: GameSettings;
   onSettingsChange: (settings: GameSettings) => void;
   onStartGame: () => void;
+  onImportPGN: (text: string) => void;
+  savedGame: SavedGame | null;
+  onResumeGame: () => void;
+  onDiscardSavedGame: () => void;
+  onOpenLibrary: () => void;
+  // undefined hors ligne, null pendant la connexion, puis le code de la partie créée
+  onlineGameId: string | null | undefined;
+  onCreateOnlineGame: (serverUrl: string) => void;
+  onJoinOnlineGame: (serverUrl: string, gameId: string) => void;
+  onCancelOnlineGame: () => void;
 }
 
 const { width: screenWidth } = Dimensions.get('window');
 
-const timeOptions = [3, 5, 10, 15];
+// Cadences courantes : minutes par joueur + secondes d'incrément ou de délai
+const timeControlPresets: { timeLimit: number; increment: number }[] = [
+  { timeLimit: 1, increment: 0 },
+  { timeLimit: 3, increment: 0 },
+  { timeLimit: 3, increment: 2 },
+  { timeLimit: 5, increment: 0 },
+  { timeLimit: 5, increment: 3 },
+  { timeLimit: 10, increment: 0 },
+  { timeLimit: 10, increment: 5 },
+  { timeLimit: 15, increment: 10 },
+];
+const clockModeOptions: { mode: ClockMode; label: string }[] = [
+  { mode: 'fischer', label: 'Fischer' },
+  { mode: 'bronstein', label: 'Bronstein' },
+  { mode: 'delay', label: 'Délai simple' },
+  { mode: 'hourglass', label: 'Sablier' },
+];
 const removalOptions = [1, 3, 5];
+const restoreOptions = [0, 1, 2];
+// Chaque règle s'active ou se désactive indépendamment des autres
+type RemovedSquareToggle = Exclude<keyof RemovedSquareRules, 'lifetime'>;
+const removedSquareRuleOptions: { rule: RemovedSquareToggle; label: string }[] = [
+  { rule: 'blockSliders', label: 'Bloquent les pièces longues' },
+  { rule: 'pawnDoublePushOver', label: 'Double pas au-dessus permis' },
+  { rule: 'castleThrough', label: 'Roque à travers permis' },
+];
+// Durée de vie d'une case supprimée, en demi-coups
+const lifetimeOptions: { lifetime: number; label: string }[] = [
+  { lifetime: 0, label: 'Définitive' },
+  { lifetime: 6, label: '6 demi-coups' },
+  { lifetime: 10, label: '10 demi-coups' },
+  { lifetime: 20, label: '20 demi-coups' },
+];
+const boardLayoutOptions: { layout: BoardLayout; label: string }[] = [
+  { layout: 'standard', label: 'Standard' },
+  { layout: 'autoFlip', label: 'Rotation auto' },
+  { layout: 'faceToFace', label: 'Face à face' },
+];
+const draftFormatOptions: { format: DraftFormat; label: string }[] = [
+  { format: 'alternate', label: 'Alterné' },
+  { format: 'snake', label: 'Serpent 1-2-2' },
+  { format: 'blind', label: 'À l\'aveugle' },
+  { format: 'random', label: 'Tirage 960' },
+];
+const armyModeOptions: { mode: ArmyMode; label: string }[] = [
+  { mode: 'fixed', label: 'Réserve classique' },
+  { mode: 'budget', label: 'Budget de points' },
+];
+// Le roi, toujours seul, n'a pas de compteur
+const reservePieceOptions: { piece: Exclude<PieceType, 'king'>; label: string }[] = [
+  { piece: 'queen', label: 'Dames' },
+  { piece: 'rook', label: 'Tours' },
+  { piece: 'bishop', label: 'Fous' },
+  { piece: 'knight', label: 'Cavaliers' },
+  { piece: 'pawn', label: 'Pions draftés' },
+];
+const draftZoneOptions: { zone: DraftZone; label: string }[] = [
+  { zone: 'backRank', label: 'Dernière rangée' },
+  { zone: 'backTwoRanks', label: 'Deux rangées' },
+  { zone: 'half', label: 'Toute sa moitié' },
+];
+const draftConstraintOptions: { constraint: DraftConstraint; label: string }[] = [
+  { constraint: 'oppositeBishops', label: 'Fous de couleurs opposées' },
+  { constraint: 'kingOnBackRank', label: 'Roi sur la dernière rangée' },
+];
+// Chrono propre au draft, en minutes ; 0 : le draft entame le chrono de partie
+const draftTimeOptions: { minutes: number; label: string }[] = [
+  { minutes: 0, label: 'Chrono de partie' },
+  { minutes: 1, label: '1 min de draft' },
+  { minutes: 2, label: '2 min de draft' },
+  { minutes: 5, label: '5 min de draft' },
+];
+const draftStyleOptions: { style: DraftStyle; label: string }[] = [
+  { style: 'random', label: 'Aléatoire' },
+  { style: 'balanced', label: 'Équilibré' },
+  { style: 'aggressive', label: 'Agressif' },
+];
 
-export default function GameSetup({ settings, onSettingsChange, onStartGame }: GameSetupProps) {
-  const updateTimeLimit = (time: number) => {
-    onSettingsChange({ ...settings, timeLimit: time });
+// Résumé d'une partie interrompue : avancement, adversaire et date de la dernière action
+function describeSavedGame({ config, gameState, savedAt }: SavedGame): string {
+  const progress = gameState.draftState
+    ? 'Phase de draft'
+    : `${gameState.history.length} demi-coups, ${gameState.currentPlayer === 'white' ? 'aux Blancs' : 'aux Noirs'} de jouer`;
+  const opponent = config.opponent === 'computer' ? 'contre l\'ordinateur' : 'à deux joueurs';
+  const date = new Date(savedAt).toLocaleString('fr-FR', { dateStyle: 'short', timeStyle: 'short' });
+  return `${progress} · ${opponent} · ${date}`;
+}
+
+export default function GameSetup({
+  settings,
+  onSettingsChange,
+  onStartGame,
+  onImportPGN,
+  savedGame,
+  onResumeGame,
+  onDiscardSavedGame,
+  onOpenLibrary,
+  onlineGameId,
+  onCreateOnlineGame,
+  onJoinOnlineGame,
+  onCancelOnlineGame,
+}: GameSetupProps) {
+  const [pgnText, setPgnText] = useState('');
+  const [serverUrl, setServerUrl] = useState(DEFAULT_SERVER_URL);
+  const [joinCode, setJoinCode] = useState('');
+
+  const updateTimeControl = (timeLimit: number, clockIncrement: number) => {
+    onSettingsChange({ ...settings, timeLimit, clockIncrement });
   };
 
   const updateRemovals = (removals: number) => {
     onSettingsChange({ ...settings, removalsPerPlayer: removals });
   };
 
+  const updateRestores = (restores: number) => {
+    onSettingsChange({ ...settings, restoresPerPlayer: restores });
+  };
+
+  const toggleRemovedSquareRule = (rule: RemovedSquareToggle) => {
+    const rules = settings.removedSquareRules;
+    onSettingsChange({ ...settings, removedSquareRules: { ...rules, [rule]: !rules[rule] } });
+  };
+
+  const updateLifetime = (lifetime: number) => {
+    onSettingsChange({ ...settings, removedSquareRules: { ...settings.removedSquareRules, lifetime } });
+  };
+
   const toggleDraftMode = () => {
     onSettingsChange({ ...settings, draftMode: !settings.draftMode });
   };
 
+  // Chaque passage au tirage au sort propose une nouvelle graine
+  const updateDraftFormat = (draftFormat: DraftFormat) => {
+    const draftSeed = draftFormat === 'random' && settings.draftFormat !== 'random' ? getRandomDraftSeed() : settings.draftSeed;
+    onSettingsChange({ ...settings, draftFormat, draftSeed });
+  };
+
+  // Une configuration qui ne tient pas dans la zone est ignorée
+  const updateDraftSetup = (draftSetup: DraftSetup) => {
+    if (isValidDraftSetup(draftSetup)) onSettingsChange({ ...settings, draftSetup });
+  };
+
+  const updateReserveCount = (piece: PieceType, delta: number) => {
+    const { reserve } = settings.draftSetup;
+    updateDraftSetup({ ...settings.draftSetup, reserve: { ...reserve, [piece]: reserve[piece] + delta } });
+  };
+
+  const toggleDraftConstraint = (constraint: DraftConstraint) => {
+    const { constraints } = settings.draftSetup;
+    updateDraftSetup({
+      ...settings.draftSetup,
+      constraints: constraints.includes(constraint)
+        ? constraints.filter(active => active !== constraint)
+        : [...constraints, constraint],
+    });
+  };
+
+  const updateDraftSeed = (text: string) => {
+    const draftSeed = Number(text);
+    if (isValidDraftSeed(draftSeed)) onSettingsChange({ ...settings, draftSeed });
+  };
+
   return (
     <SafeAreaView style={styles.container}>
       <View style={styles.content}>
@@ -42,26 +206,76 @@ export default function GameSetup({ settings, onSettingsChange, onStartGame }: G
           <Text style={styles.title}>Chess Variant Draft</Text>
         </View>
 
+        {/* Reprise d'une partie interrompue */}
+        {savedGame && (
+          <View style={styles.resumeCard}>
+            <Text style={styles.resumeTitle}>Partie interrompue</Text>
+            <Text style={styles.resumeDetails}>{describeSavedGame(savedGame)}</Text>
+            <View style={styles.resumeButtons}>
+              <TouchableOpacity
+                style={styles.resumeButton}
+                onPress={onResumeGame}
+                activeOpacity={0.8}
+              >
+                <Ionicons name="play-forward" size={18} color="#ffffff" />
+                <Text style={styles.resumeButtonText}>Reprendre</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.discardButton}
+                onPress={onDiscardSavedGame}
+                activeOpacity={0.8}
+              >
+                <Ionicons name="trash-outline" size={18} color="#cccccc" />
+                <Text style={styles.discardButtonText}>Effacer</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        )}
+
         {/* Time Selection */}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Temps de la partie</Text>
           <View style={styles.optionsGrid}>
-            {timeOptions.map((time) => (
+            {timeControlPresets.map(({ timeLimit, increment }) => {
+              const isSelected = settings.timeLimit === timeLimit && settings.clockIncrement === increment;
+              return (
+                <TouchableOpacity
+                  key={`${timeLimit}+${increment}`}
+                  style={[
+                    styles.optionButton,
+                    styles.timeButton,
+                    isSelected && styles.selectedButton,
+                  ]}
+                  onPress={() => updateTimeControl(timeLimit, increment)}
+                  activeOpacity={0.8}
+                >
+                  <Text style={[
+                    styles.optionText,
+                    isSelected && styles.selectedText,
+                  ]}>
+                    {increment ? `${timeLimit}+${increment}` : `${timeLimit} min`}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+          <View style={[styles.optionsGrid, styles.colorToggleContainer]}>
+            {clockModeOptions.map(({ mode, label }) => (
               <TouchableOpacity
-                key={time}
+                key={mode}
                 style={[
                   styles.optionButton,
                   styles.timeButton,
-                  settings.timeLimit === time && styles.selectedButton,
+                  settings.clockMode === mode && styles.selectedButton,
                 ]}
-                onPress={() => updateTimeLimit(time)}
+                onPress={() => onSettingsChange({ ...settings, clockMode: mode })}
                 activeOpacity={0.8}
               >
                 <Text style={[
                   styles.optionText,
-                  settings.timeLimit === time && styles.selectedText,
+                  settings.clockMode === mode && styles.selectedText,
                 ]}>
-                  {time} min
+                  {label}
                 </Text>
               </TouchableOpacity>
             ))}
@@ -105,8 +319,327 @@ export default function GameSetup({ settings, onSettingsChange, onStartGame }: G
               </Text>
             </TouchableOpacity>
           </View>
+          {settings.draftMode && (
+            <View style={[styles.optionsGrid, styles.colorToggleContainer]}>
+              {draftFormatOptions.map(({ format, label }) => (
+                <TouchableOpacity
+                  key={format}
+                  style={[
+                    styles.optionButton,
+                    styles.timeButton,
+                    settings.draftFormat === format && styles.selectedButton,
+                  ]}
+                  onPress={() => updateDraftFormat(format)}
+                  activeOpacity={0.8}
+                >
+                  <Text style={[
+                    styles.optionText,
+                    settings.draftFormat === format && styles.selectedText,
+                  ]}>
+                    {label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+          {settings.draftMode && settings.draftFormat !== 'random' && (
+            <View style={[styles.optionsGrid, styles.colorToggleContainer]}>
+              {armyModeOptions.map(({ mode, label }) => (
+                <TouchableOpacity
+                  key={mode}
+                  style={[
+                    styles.optionButton,
+                    styles.timeButton,
+                    settings.armyMode === mode && styles.selectedButton,
+                  ]}
+                  onPress={() => onSettingsChange({ ...settings, armyMode: mode })}
+                  activeOpacity={0.8}
+                >
+                  <Text style={[
+                    styles.optionText,
+                    settings.armyMode === mode && styles.selectedText,
+                  ]}>
+                    {label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+          {settings.draftMode && settings.draftFormat !== 'random' && settings.armyMode === 'budget' && (
+            <View style={[styles.optionsGrid, styles.colorToggleContainer]}>
+              {ARMY_BUDGETS.map(budget => (
+                <TouchableOpacity
+                  key={budget}
+                  style={[
+                    styles.optionButton,
+                    styles.timeButton,
+                    settings.armyBudget === budget && styles.selectedButton,
+                  ]}
+                  onPress={() => onSettingsChange({ ...settings, armyBudget: budget })}
+                  activeOpacity={0.8}
+                >
+                  <Text style={[
+                    styles.optionText,
+                    settings.armyBudget === budget && styles.selectedText,
+                  ]}>
+                    {budget} points
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+          {settings.draftMode && settings.draftFormat !== 'random' && settings.armyMode === 'fixed' && (
+            <View style={styles.colorToggleContainer}>
+              {reservePieceOptions.map(({ piece, label }) => (
+                <View key={piece} style={styles.reserveRow}>
+                  <Text style={styles.reserveLabel}>{label}</Text>
+                  <TouchableOpacity
+                    style={[styles.reserveButton, settings.draftSetup.reserve[piece] === 0 && styles.disabledReserveButton]}
+                    onPress={() => updateReserveCount(piece, -1)}
+                    disabled={settings.draftSetup.reserve[piece] === 0}
+                    activeOpacity={0.8}
+                  >
+                    <Text style={styles.optionText}>−</Text>
+                  </TouchableOpacity>
+                  <Text style={styles.reserveCount}>{settings.draftSetup.reserve[piece]}</Text>
+                  <TouchableOpacity
+                    style={[
+                      styles.reserveButton,
+                      settings.draftSetup.reserve[piece] === MAX_RESERVE_COUNT && styles.disabledReserveButton,
+                    ]}
+                    onPress={() => updateReserveCount(piece, 1)}
+                    disabled={settings.draftSetup.reserve[piece] === MAX_RESERVE_COUNT}
+                    activeOpacity={0.8}
+                  >
+                    <Text style={styles.optionText}>+</Text>
+                  </TouchableOpacity>
+                </View>
+              ))}
+              {settings.draftSetup.reserve.pawn === 0 && (
+                <Text style={styles.draftFormatHint}>{'Sans pion drafté, la rangée de pions est posée d\'avance'}</Text>
+              )}
+            </View>
+          )}
+          {settings.draftMode && settings.draftFormat !== 'random' && (
+            <View style={[styles.optionsGrid, styles.colorToggleContainer]}>
+              {draftZoneOptions.map(({ zone, label }) => (
+                <TouchableOpacity
+                  key={zone}
+                  style={[
+                    styles.optionButton,
+                    styles.timeButton,
+                    settings.draftSetup.zone === zone && styles.selectedButton,
+                  ]}
+                  onPress={() => updateDraftSetup({ ...settings.draftSetup, zone })}
+                  activeOpacity={0.8}
+                >
+                  <Text style={[
+                    styles.optionText,
+                    settings.draftSetup.zone === zone && styles.selectedText,
+                  ]}>
+                    {label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+          {settings.draftMode && settings.draftFormat !== 'random' && (
+            <View style={[styles.optionsGrid, styles.colorToggleContainer]}>
+              {draftConstraintOptions.map(({ constraint, label }) => {
+                const isActive = settings.draftSetup.constraints.includes(constraint);
+                return (
+                  <TouchableOpacity
+                    key={constraint}
+                    style={[styles.optionButton, styles.timeButton, isActive && styles.selectedButton]}
+                    onPress={() => toggleDraftConstraint(constraint)}
+                    activeOpacity={0.8}
+                  >
+                    <Text style={[styles.optionText, isActive && styles.selectedText]}>{label}</Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          )}
+          {settings.draftMode && settings.draftFormat !== 'random' && (
+            <View style={[styles.optionsGrid, styles.colorToggleContainer]}>
+              {draftTimeOptions.map(({ minutes, label }) => (
+                <TouchableOpacity
+                  key={minutes}
+                  style={[
+                    styles.optionButton,
+                    styles.timeButton,
+                    settings.draftTimeLimit === minutes && styles.selectedButton,
+                  ]}
+                  onPress={() => onSettingsChange({ ...settings, draftTimeLimit: minutes })}
+                  activeOpacity={0.8}
+                >
+                  <Text style={[
+                    styles.optionText,
+                    settings.draftTimeLimit === minutes && styles.selectedText,
+                  ]}>
+                    {label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+              <TouchableOpacity
+                style={[styles.optionButton, styles.timeButton, settings.draftReview && styles.selectedButton]}
+                onPress={() => onSettingsChange({ ...settings, draftReview: !settings.draftReview })}
+                activeOpacity={0.8}
+              >
+                <Text style={[styles.optionText, settings.draftReview && styles.selectedText]}>Vérification finale</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+          {settings.draftMode && settings.draftFormat === 'blind' && (
+            <Text style={styles.draftFormatHint}>Sur un même appareil seulement : détournez les yeux pendant le choix adverse</Text>
+          )}
+          {settings.draftMode && settings.draftFormat === 'random' && (
+            <View style={[styles.seedRow, styles.colorToggleContainer]}>
+              <TextInput
+                style={[styles.fenInput, styles.seedInput]}
+                value={`${settings.draftSeed}`}
+                onChangeText={updateDraftSeed}
+                keyboardType="number-pad"
+                placeholder="Graine"
+                placeholderTextColor="#777777"
+              />
+              <TouchableOpacity
+                style={[styles.optionButton, styles.timeButton]}
+                onPress={() => onSettingsChange({ ...settings, draftSeed: getRandomDraftSeed() })}
+                activeOpacity={0.8}
+              >
+                <Text style={styles.optionText}>Nouveau tirage</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+        </View>
+
+        {/* Adversaire : humain ou ordinateur */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Adversaire</Text>
+          <View style={styles.draftToggleContainer}>
+            <TouchableOpacity
+              style={[
+                styles.draftToggleButton,
+                styles.draftToggleLeft,
+                settings.opponent === 'human' && styles.selectedDraftButton,
+              ]}
+              onPress={() => onSettingsChange({ ...settings, opponent: 'human' })}
+              activeOpacity={0.8}
+            >
+              <Text style={[
+                styles.draftToggleText,
+                settings.opponent === 'human' && styles.selectedText,
+              ]}>
+                Humain
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[
+                styles.draftToggleButton,
+                styles.draftToggleRight,
+                settings.opponent === 'computer' && styles.selectedDraftButton,
+              ]}
+              onPress={() => onSettingsChange({ ...settings, opponent: 'computer' })}
+              activeOpacity={0.8}
+            >
+              <Text style={[
+                styles.draftToggleText,
+                settings.opponent === 'computer' && styles.selectedText,
+              ]}>
+                Ordinateur
+              </Text>
+            </TouchableOpacity>
+          </View>
+          {settings.opponent === 'computer' && (
+            <View style={[styles.draftToggleContainer, styles.colorToggleContainer]}>
+              <TouchableOpacity
+                style={[
+                  styles.draftToggleButton,
+                  styles.draftToggleLeft,
+                  settings.humanColor === 'white' && styles.selectedDraftButton,
+                ]}
+                onPress={() => onSettingsChange({ ...settings, humanColor: 'white' })}
+                activeOpacity={0.8}
+              >
+                <Text style={[
+                  styles.draftToggleText,
+                  settings.humanColor === 'white' && styles.selectedText,
+                ]}>
+                  Je joue les Blancs
+                </Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[
+                  styles.draftToggleButton,
+                  styles.draftToggleRight,
+                  settings.humanColor === 'black' && styles.selectedDraftButton,
+                ]}
+                onPress={() => onSettingsChange({ ...settings, humanColor: 'black' })}
+                activeOpacity={0.8}
+              >
+                <Text style={[
+                  styles.draftToggleText,
+                  settings.humanColor === 'black' && styles.selectedText,
+                ]}>
+                  Je joue les Noirs
+                </Text>
+              </TouchableOpacity>
+            </View>
+          )}
+          {settings.opponent === 'computer' && settings.draftMode && (
+            <View style={[styles.optionsGrid, styles.colorToggleContainer]}>
+              {draftStyleOptions.map(({ style, label }) => (
+                <TouchableOpacity
+                  key={style}
+                  style={[
+                    styles.optionButton,
+                    styles.timeButton,
+                    settings.computerDraftStyle === style && styles.selectedButton,
+                  ]}
+                  onPress={() => onSettingsChange({ ...settings, computerDraftStyle: style })}
+                  activeOpacity={0.8}
+                >
+                  <Text style={[
+                    styles.optionText,
+                    settings.computerDraftStyle === style && styles.selectedText,
+                  ]}>
+                    {label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
         </View>
 
+        {/* Orientation du plateau pour deux joueurs sur un même appareil */}
+        {settings.opponent === 'human' && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Affichage du plateau</Text>
+            <View style={styles.optionsGrid}>
+              {boardLayoutOptions.map(({ layout, label }) => (
+                <TouchableOpacity
+                  key={layout}
+                  style={[
+                    styles.optionButton,
+                    styles.timeButton,
+                    settings.boardLayout === layout && styles.selectedButton,
+                  ]}
+                  onPress={() => onSettingsChange({ ...settings, boardLayout: layout })}
+                  activeOpacity={0.8}
+                >
+                  <Text style={[
+                    styles.optionText,
+                    settings.boardLayout === layout && styles.selectedText,
+                  ]}>
+                    {label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+        )}
+
         {/* Removals Selection */}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Cases supprimables par joueur</Text>
@@ -133,6 +666,98 @@ export default function GameSetup({ settings, onSettingsChange, onStartGame }: G
           </View>
         </View>
 
+        {/* Cases qu'un joueur peut rouvrir */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Cases réouvrables par joueur</Text>
+          <View style={styles.optionsGrid}>
+            {restoreOptions.map((restores) => (
+              <TouchableOpacity
+                key={restores}
+                style={[
+                  styles.optionButton,
+                  styles.removalButton,
+                  settings.restoresPerPlayer === restores && styles.selectedRemovalButton,
+                ]}
+                onPress={() => updateRestores(restores)}
+                activeOpacity={0.8}
+              >
+                <Text style={[
+                  styles.optionText,
+                  settings.restoresPerPlayer === restores && styles.selectedText,
+                ]}>
+                  {restores}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+
+        {/* Retour automatique des cases supprimées */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Durée des suppressions</Text>
+          <View style={styles.optionsGrid}>
+            {lifetimeOptions.map(({ lifetime, label }) => (
+              <TouchableOpacity
+                key={lifetime}
+                style={[
+                  styles.optionButton,
+                  styles.removalButton,
+                  settings.removedSquareRules.lifetime === lifetime && styles.selectedRemovalButton,
+                ]}
+                onPress={() => updateLifetime(lifetime)}
+                activeOpacity={0.8}
+              >
+                <Text style={[
+                  styles.optionText,
+                  settings.removedSquareRules.lifetime === lifetime && styles.selectedText,
+                ]}>
+                  {label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+
+        {/* Effet des cases supprimées sur les déplacements */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Règles des cases supprimées</Text>
+          <View style={styles.optionsGrid}>
+            {removedSquareRuleOptions.map(({ rule, label }) => (
+              <TouchableOpacity
+                key={rule}
+                style={[
+                  styles.optionButton,
+                  styles.removalButton,
+                  settings.removedSquareRules[rule] && styles.selectedRemovalButton,
+                ]}
+                onPress={() => toggleRemovedSquareRule(rule)}
+                activeOpacity={0.8}
+              >
+                <Text style={[
+                  styles.optionText,
+                  settings.removedSquareRules[rule] && styles.selectedText,
+                ]}>
+                  {label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+
+        {/* Position de départ personnalisée */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Position de départ (FEN, optionnel)</Text>
+          <TextInput
+            style={styles.fenInput}
+            value={settings.startFen ?? ''}
+            onChangeText={(startFen) => onSettingsChange({ ...settings, startFen })}
+            placeholder={INITIAL_FEN}
+            placeholderTextColor="#777777"
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+        </View>
+
         {/* Start Game Button */}
         <TouchableOpacity
           style={styles.startButton}
@@ -143,6 +768,99 @@ export default function GameSetup({ settings, onSettingsChange, onStartGame }: G
           <Text style={styles.startButtonText}>Lancer la partie</Text>
         </TouchableOpacity>
 
+        {/* Partie exportée au format PGN, reprise là où elle s'arrête */}
+        <View style={[styles.section, styles.importSection]}>
+          <Text style={styles.sectionTitle}>Importer une partie (PGN)</Text>
+          <TextInput
+            style={styles.pgnInput}
+            value={pgnText}
+            onChangeText={setPgnText}
+            placeholder="Collez ici une partie exportée"
+            placeholderTextColor="#777777"
+            multiline
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+          <TouchableOpacity
+            style={[styles.importButton, !pgnText.trim() && styles.importButtonDisabled]}
+            onPress={() => onImportPGN(pgnText)}
+            disabled={!pgnText.trim()}
+            activeOpacity={0.8}
+          >
+            <Ionicons name="download-outline" size={18} color="#ffffff" />
+            <Text style={styles.importButtonText}>Importer</Text>
+          </TouchableOpacity>
+        </View>
+
+        {/* Partie en ligne sur un serveur de jeu */}
+        <View style={[styles.section, styles.onlineSection]}>
+          <Text style={styles.sectionTitle}>Jouer en ligne</Text>
+          {onlineGameId === undefined ? (
+            <>
+              <TextInput
+                style={styles.fenInput}
+                value={serverUrl}
+                onChangeText={setServerUrl}
+                placeholder={DEFAULT_SERVER_URL}
+                placeholderTextColor="#777777"
+                autoCapitalize="none"
+                autoCorrect={false}
+              />
+              <View style={styles.onlineRow}>
+                <TouchableOpacity
+                  style={styles.onlineButton}
+                  onPress={() => onCreateOnlineGame(serverUrl.trim())}
+                  activeOpacity={0.8}
+                >
+                  <Text style={styles.onlineButtonText}>Créer</Text>
+                </TouchableOpacity>
+                <TextInput
+                  style={[styles.fenInput, styles.codeInput]}
+                  value={joinCode}
+                  onChangeText={code => setJoinCode(code.toUpperCase())}
+                  placeholder="Code"
+                  placeholderTextColor="#777777"
+                  autoCapitalize="characters"
+                  autoCorrect={false}
+                />
+                <TouchableOpacity
+                  style={[styles.onlineButton, !joinCode.trim() && styles.onlineButtonDisabled]}
+                  onPress={() => onJoinOnlineGame(serverUrl.trim(), joinCode.trim())}
+                  activeOpacity={0.8}
+                  disabled={!joinCode.trim()}
+                >
+                  <Text style={styles.onlineButtonText}>Rejoindre</Text>
+                </TouchableOpacity>
+              </View>
+            </>
+          ) : (
+            <View style={styles.onlineRow}>
+              <Text style={styles.onlineStatusText}>
+                {onlineGameId
+                  ? `Code de la partie : ${onlineGameId}\nVous jouez les Blancs, en attente d'un adversaire…`
+                  : 'Connexion au serveur…'}
+              </Text>
+              <TouchableOpacity
+                style={styles.onlineButton}
+                onPress={onCancelOnlineGame}
+                activeOpacity={0.8}
+              >
+                <Text style={styles.onlineButtonText}>Annuler</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+        </View>
+
+        {/* Parties terminées enregistrées sur l'appareil */}
+        <TouchableOpacity
+          style={styles.libraryButton}
+          onPress={onOpenLibrary}
+          activeOpacity={0.8}
+        >
+          <Ionicons name="library-outline" size={18} color="#ffffff" />
+          <Text style={styles.libraryButtonText}>Mes parties</Text>
+        </TouchableOpacity>
+
         {/* Boutons Faire un don et Telegram */}
         <View style={styles.socialButtonsContainer}>
           <TouchableOpacity
@@ -204,6 +922,60 @@ const styles = StyleSheet.create({
     color: '#cccccc',
     fontWeight: '500',
   },
+  resumeCard: {
+    width: '100%',
+    maxWidth: 400,
+    backgroundColor: '#4a5568',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 32,
+    alignItems: 'center',
+  },
+  resumeTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+  resumeDetails: {
+    fontSize: 14,
+    color: '#cccccc',
+    textAlign: 'center',
+    marginTop: 6,
+  },
+  resumeButtons: {
+    flexDirection: 'row',
+    marginTop: 16,
+    gap: 12,
+  },
+  resumeButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#5cb85c',
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    borderRadius: 8,
+  },
+  resumeButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ffffff',
+    marginLeft: 6,
+  },
+  discardButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 2,
+    borderColor: '#cccccc',
+    paddingHorizontal: 20,
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  discardButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#cccccc',
+    marginLeft: 6,
+  },
   section: {
     width: '100%',
     maxWidth: 400,
@@ -254,6 +1026,49 @@ const styles = StyleSheet.create({
   selectedText: {
     color: '#ffffff',
   },
+  fenInput: {
+    backgroundColor: '#4a5568',
+    color: '#ffffff',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 12,
+    fontFamily: 'monospace',
+  },
+  importSection: {
+    marginTop: 24,
+    marginBottom: 0,
+  },
+  pgnInput: {
+    minHeight: 96,
+    backgroundColor: '#4a5568',
+    color: '#ffffff',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 12,
+    fontFamily: 'monospace',
+    textAlignVertical: 'top',
+  },
+  importButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: 6,
+    marginTop: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: '#4a9eff',
+  },
+  importButtonDisabled: {
+    opacity: 0.5,
+  },
+  importButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
   startButton: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -273,6 +1088,55 @@ const styles = StyleSheet.create({
     color: '#ffffff',
     marginLeft: 8,
   },
+  onlineSection: {
+    marginTop: 24,
+    marginBottom: 0,
+  },
+  onlineRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 8,
+  },
+  onlineButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: '#4a9eff',
+  },
+  onlineButtonDisabled: {
+    opacity: 0.5,
+  },
+  onlineButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+  codeInput: {
+    flex: 1,
+    fontSize: 14,
+    letterSpacing: 2,
+  },
+  onlineStatusText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#cccccc',
+  },
+  libraryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 16,
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: '#4a5568',
+  },
+  libraryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#ffffff',
+    marginLeft: 8,
+  },
   draftToggleContainer: {
     flexDirection: 'row',
     backgroundColor: '#4a5568',
@@ -294,6 +1158,53 @@ const styles = StyleSheet.create({
     borderTopRightRadius: 8,
     borderBottomRightRadius: 8,
   },
+  colorToggleContainer: {
+    marginTop: 12,
+  },
+  draftFormatHint: {
+    marginTop: 8,
+    fontSize: 12,
+    color: '#cccccc',
+    textAlign: 'center',
+  },
+  reserveRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 12,
+    marginBottom: 8,
+  },
+  reserveLabel: {
+    width: 110,
+    fontSize: 14,
+    color: '#ffffff',
+  },
+  reserveButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 8,
+    backgroundColor: '#4a5568',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  disabledReserveButton: {
+    opacity: 0.5,
+  },
+  reserveCount: {
+    width: 24,
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#ffffff',
+    textAlign: 'center',
+  },
+  seedRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  seedInput: {
+    flex: 1,
+  },
   selectedDraftButton: {
     backgroundColor: '#4a9eff',
   },
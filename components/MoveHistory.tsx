@@ -0,0 +1,103 @@
+import React, { useRef } from 'react';
+import { View, Text, StyleSheet, ScrollView } from 'react-native';
+import { MoveRecord } from '@/types/chess';
+import { groupMovesByTurn, isDraftRecord } from '@/utils/notation';
+
+interface MoveHistoryProps {
+  history: MoveRecord[];
+  firstTurn?: number;
+}
+
+export default function MoveHistory({ history, firstTurn = 1 }: MoveHistoryProps) {
+  const scrollRef = useRef<ScrollView>(null);
+
+  const placements = history.filter(isDraftRecord);
+  const turns = groupMovesByTurn(history, firstTurn);
+
+  if (history.length === 0) return null;
+
+  return (
+    <ScrollView
+      ref={scrollRef}
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      style={styles.scroll}
+      contentContainerStyle={styles.container}
+      // Toujours afficher le dernier coup joué
+      onContentSizeChange={() => scrollRef.current?.scrollToEnd({ animated: true })}
+    >
+      {placements.length > 0 && (
+        <View style={styles.turn}>
+          <Text style={styles.turnNumber}>Draft</Text>
+          {placements.map((record, index) => (
+            <Text key={index} style={[styles.notation, styles.placementNotation]}>
+              {record.notation}
+            </Text>
+          ))}
+        </View>
+      )}
+
+      {turns.map(({ turn, white, black }) => (
+        <View key={turn} style={styles.turn}>
+          <Text style={styles.turnNumber}>{white ? `${turn}.` : `${turn}...`}</Text>
+          {white && (
+            <Text style={[
+              styles.notation,
+              white.type === 'removal' && styles.removalNotation,
+              white.type === 'restore' && styles.restoreNotation,
+            ]}>
+              {white.notation}
+            </Text>
+          )}
+          {black && (
+            <Text style={[
+              styles.notation,
+              black.type === 'removal' && styles.removalNotation,
+              black.type === 'restore' && styles.restoreNotation,
+            ]}>
+              {black.notation}
+            </Text>
+          )}
+        </View>
+      ))}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  scroll: {
+    flexGrow: 0,
+  },
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 6,
+    gap: 12,
+  },
+  turn: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  turnNumber: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#999999',
+  },
+  notation: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#ffffff',
+    fontFamily: 'monospace',
+  },
+  removalNotation: {
+    color: '#d9534f',
+  },
+  restoreNotation: {
+    color: '#5cb85c',
+  },
+  placementNotation: {
+    color: '#4a9eff',
+  },
+});
@@ -0,0 +1,115 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Player, PromotionPieceType } from '@/types/chess';
+import { PROMOTION_PIECES } from '@/utils/chessLogic';
+import { getPieceSymbol } from '@/utils/pieceSymbols';
+
+interface PromotionPickerProps {
+  currentPlayer: Player;
+  onSelect: (piece: PromotionPieceType) => void;
+  onCancel: () => void;
+}
+
+const pieceNames: Record<PromotionPieceType, string> = {
+  queen: 'Dame',
+  rook: 'Tour',
+  bishop: 'Fou',
+  knight: 'Cavalier',
+};
+
+export default function PromotionPicker({
+  currentPlayer,
+  onSelect,
+  onCancel,
+}: PromotionPickerProps) {
+  // Couleurs dynamiques selon le joueur
+  const backgroundColor = currentPlayer === 'white' ? '#ffffff' : '#000000';
+  const textColor = currentPlayer === 'white' ? '#000000' : '#ffffff';
+  const instructionColor = currentPlayer === 'white' ? '#666666' : '#cccccc';
+
+  return (
+    <View style={[styles.container, { backgroundColor }]}>
+      <Text style={[styles.title, { color: textColor }]}>
+        Promotion - {currentPlayer === 'white' ? 'BLANC' : 'NOIR'}
+      </Text>
+      <Text style={[styles.instruction, { color: instructionColor }]}>
+        Choisissez la pièce qui remplace votre pion
+      </Text>
+
+      <View style={styles.piecesContainer}>
+        {PROMOTION_PIECES.map((pieceType) => (
+          <TouchableOpacity
+            key={pieceType}
+            style={styles.pieceButton}
+            onPress={() => onSelect(pieceType)}
+            activeOpacity={0.8}
+          >
+            <Text style={[
+              styles.pieceSymbol,
+              { color: currentPlayer === 'white' ? '#ffffff' : '#000000' }
+            ]}>
+              {getPieceSymbol({ type: pieceType, color: currentPlayer })}
+            </Text>
+            <Text style={styles.pieceName}>
+              {pieceNames[pieceType]}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <TouchableOpacity onPress={onCancel} activeOpacity={0.8}>
+        <Text style={[styles.cancelText, { color: instructionColor }]}>Annuler</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    padding: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    marginBottom: 4,
+  },
+  instruction: {
+    fontSize: 12,
+    marginBottom: 12,
+    textAlign: 'center',
+  },
+  piecesContainer: {
+    flexDirection: 'row',
+    gap: 8,
+    paddingHorizontal: 4,
+  },
+  pieceButton: {
+    backgroundColor: '#4a5568',
+    borderRadius: 6,
+    padding: 8,
+    alignItems: 'center',
+    minWidth: 60,
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  pieceSymbol: {
+    fontSize: 24,
+    marginBottom: 2,
+    textShadowColor: 'rgba(0,0,0,0.5)',
+    textShadowOffset: { width: 1, height: 1 },
+    textShadowRadius: 1,
+  },
+  pieceName: {
+    fontSize: 10,
+    color: '#ffffff',
+    fontWeight: '600',
+  },
+  cancelText: {
+    fontSize: 12,
+    fontWeight: '600',
+    marginTop: 10,
+    textDecorationLine: 'underline',
+  },
+});
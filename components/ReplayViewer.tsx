@@ -0,0 +1,236 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView, SafeAreaView } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import ChessBoard from './ChessBoard';
+import ChessTimer from './ChessTimer';
+import { GameState, MoveRecord, Position } from '@/types/chess';
+import { getRemovalCountdowns } from '@/utils/chessLogic';
+import { getReplayFrames } from '@/utils/replay';
+import { groupMovesByTurn, isDraftRecord } from '@/utils/notation';
+
+interface ReplayViewerProps {
+  startGameState: GameState;
+  history: MoveRecord[];
+  maxRemovals: number;
+  onClose: () => void;
+}
+
+function getRecordSquare(record: MoveRecord): Position | null {
+  if (record.type === 'purchase' || record.type === 'confirmation') return null;
+  return record.type === 'move' ? record.to : record.square;
+}
+
+export default function ReplayViewer({
+  startGameState,
+  history,
+  maxRemovals,
+  onClose,
+}: ReplayViewerProps) {
+  const frames = useMemo(() => getReplayFrames(startGameState, history, maxRemovals), [startGameState, history, maxRemovals]);
+  // L'indice 0 est la position de départ, l'indice n la position après la n-ième action
+  const [ply, setPly] = useState(frames.length - 1);
+
+  const frame = frames[ply];
+  const lastRecord = ply > 0 ? history[ply - 1] : null;
+  const placements = history.filter(isDraftRecord);
+  const turns = groupMovesByTurn(history, startGameState.fullmoveNumber);
+
+  const renderRecord = (record: MoveRecord) => {
+    const recordPly = history.indexOf(record) + 1;
+    return (
+      <TouchableOpacity
+        key={recordPly}
+        style={[styles.moveButton, recordPly === ply && styles.currentMoveButton]}
+        onPress={() => setPly(recordPly)}
+        activeOpacity={0.8}
+      >
+        <Text style={[
+          styles.moveText,
+          record.type === 'removal' && styles.removalText,
+          record.type === 'restore' && styles.restoreText,
+          isDraftRecord(record) && styles.placementText,
+          recordPly === ply && styles.currentMoveText,
+        ]}>
+          {record.notation}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.closeButton} onPress={onClose} activeOpacity={0.8}>
+          <Ionicons name="close" size={20} color="#ffffff" />
+        </TouchableOpacity>
+        <Text style={styles.title}>Revoir la partie</Text>
+        <Text style={styles.plyText}>{ply}/{frames.length - 1}</Text>
+      </View>
+
+      <ChessTimer
+        timeLeft={frame.timeLeft}
+        runningPlayer={null}
+        turnStartedAt={null}
+        removalsUsed={frame.removalsUsed}
+        maxRemovals={maxRemovals}
+      />
+
+      <View style={styles.boardContainer}>
+        <ChessBoard
+          board={frame.board}
+          selectedSquare={lastRecord ? getRecordSquare(lastRecord) : null}
+          removedSquares={frame.removedSquares}
+          removalCountdowns={getRemovalCountdowns(frame)}
+          possibleMoves={[]}
+          onSquarePress={() => {}}
+          currentPlayer={frame.currentPlayer}
+        />
+      </View>
+
+      {/* Navigation coup par coup */}
+      <View style={styles.navigation}>
+        <TouchableOpacity style={styles.navButton} onPress={() => setPly(0)} disabled={ply === 0}>
+          <Ionicons name="play-skip-back" size={20} color={ply === 0 ? '#666666' : '#ffffff'} />
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.navButton} onPress={() => setPly(ply - 1)} disabled={ply === 0}>
+          <Ionicons name="chevron-back" size={24} color={ply === 0 ? '#666666' : '#ffffff'} />
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.navButton}
+          onPress={() => setPly(ply + 1)}
+          disabled={ply === frames.length - 1}
+        >
+          <Ionicons name="chevron-forward" size={24} color={ply === frames.length - 1 ? '#666666' : '#ffffff'} />
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.navButton}
+          onPress={() => setPly(frames.length - 1)}
+          disabled={ply === frames.length - 1}
+        >
+          <Ionicons name="play-skip-forward" size={20} color={ply === frames.length - 1 ? '#666666' : '#ffffff'} />
+        </TouchableOpacity>
+      </View>
+
+      {/* Liste des coups : un appui saute directement à la position */}
+      <ScrollView style={styles.moveList} contentContainerStyle={styles.moveListContent}>
+        {placements.length > 0 && (
+          <View style={styles.turnRow}>
+            <Text style={styles.turnNumber}>Draft</Text>
+            <View style={styles.placementList}>{placements.map(renderRecord)}</View>
+          </View>
+        )}
+        {turns.map(({ turn, white, black }) => (
+          <View key={turn} style={styles.turnRow}>
+            <Text style={styles.turnNumber}>{white ? `${turn}.` : `${turn}...`}</Text>
+            {white && renderRecord(white)}
+            {black && renderRecord(black)}
+          </View>
+        ))}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#312e2b',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingTop: 8,
+  },
+  closeButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: 'rgba(0,0,0,0.8)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#ffffff',
+  },
+  plyText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#999999',
+    minWidth: 36,
+    textAlign: 'right',
+  },
+  boardContainer: {
+    alignItems: 'center',
+  },
+  navigation: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 16,
+    paddingVertical: 12,
+  },
+  navButton: {
+    width: 48,
+    height: 40,
+    borderRadius: 8,
+    backgroundColor: 'rgba(0,0,0,0.6)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  moveList: {
+    flex: 1,
+    marginHorizontal: 16,
+    marginBottom: 12,
+    borderRadius: 8,
+    backgroundColor: 'rgba(0,0,0,0.3)',
+  },
+  moveListContent: {
+    padding: 8,
+  },
+  turnRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 2,
+  },
+  turnNumber: {
+    width: 44,
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#999999',
+  },
+  placementList: {
+    flex: 1,
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  moveButton: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 4,
+    minWidth: 72,
+  },
+  currentMoveButton: {
+    backgroundColor: '#4a9eff',
+  },
+  moveText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#ffffff',
+    fontFamily: 'monospace',
+  },
+  removalText: {
+    color: '#d9534f',
+  },
+  restoreText: {
+    color: '#5cb85c',
+  },
+  placementText: {
+    color: '#4a9eff',
+  },
+  currentMoveText: {
+    color: '#ffffff',
+  },
+});
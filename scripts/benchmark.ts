@@ -0,0 +1,80 @@
+import { GameState } from '@/types/chess';
+import { getAllValidMoves, isCheckmate } from '@/utils/chessLogic';
+import { parseFEN } from '@/utils/fen';
+import {
+  createSearchPosition,
+  generateLegalMoves,
+  makeSearchMove,
+  SearchPosition,
+  unmakeSearchMove,
+} from '@/utils/moveGenerator';
+import { legacyGetAllValidMoves, legacyIsCheckmate } from './legacyMoveGenerator';
+
+// Comparaison de l'ancien balayage 64 × 64 et du générateur par pièce
+// Usage : npm run bench [-- durée en ms par mesure]
+const DURATION_MS = Number(process.argv[2]) || 1000;
+
+const positions: { name: string; fen: string }[] = [
+  { name: 'Position initiale', fen: 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1 - 3/3 -' },
+  { name: 'Milieu de partie', fen: 'r3k2r/p1ppqpb1/bn2pnp1/3PN3/1p2P3/2N2Q1p/PPPBBPPP/R3K2R w KQkq - 0 1 - 3/3 -' },
+  { name: 'Cases supprimées', fen: 'r3k2r/p1ppqpb1/bn2pnp1/3PN3/1p2P3/2N2Q1p/PPPBBPPP/R3K2R w KQkq - 0 1 b1,c6,d4 0/1 -' },
+  { name: 'Mat du berger', fen: 'r1bqkb1r/pppp1Qpp/2n2n2/4p3/2B1P3/8/PPPP1PPP/RNB1K1NR b KQkq - 0 4 - 3/3 -' },
+];
+
+function measure(run: () => void): number {
+  let iterations = 0;
+  const start = performance.now();
+  while (performance.now() - start < DURATION_MS) {
+    run();
+    iterations++;
+  }
+  return (iterations * 1000) / (performance.now() - start);
+}
+
+function perft(position: SearchPosition, depth: number): number {
+  const moves = generateLegalMoves(position);
+  if (depth === 1) return moves.length;
+
+  let nodes = 0;
+  for (const move of moves) {
+    const undo = makeSearchMove(position, move);
+    nodes += perft(position, depth - 1);
+    unmakeSearchMove(position, move, undo);
+  }
+  return nodes;
+}
+
+function formatRate(rate: number): string {
+  return rate >= 100 ? Math.round(rate).toLocaleString('fr-FR') : rate.toFixed(1);
+}
+
+function report(label: string, legacyRate: number, newRate: number) {
+  console.log(
+    `  ${label.padEnd(18)} ${formatRate(legacyRate).padStart(10)} /s  ->  ${formatRate(newRate).padStart(10)} /s  (x${(newRate / legacyRate).toFixed(1)})`
+  );
+}
+
+for (const { name, fen } of positions) {
+  const gameState: GameState = parseFEN(fen, 3);
+  const { board, currentPlayer, removedSquares } = gameState;
+  console.log(name);
+
+  report(
+    'getAllValidMoves',
+    measure(() => legacyGetAllValidMoves(board, currentPlayer, removedSquares, gameState)),
+    measure(() => getAllValidMoves(board, currentPlayer, removedSquares, gameState))
+  );
+  report(
+    'isCheckmate',
+    measure(() => legacyIsCheckmate(board, currentPlayer, removedSquares, gameState)),
+    measure(() => isCheckmate(board, currentPlayer, removedSquares, gameState))
+  );
+}
+
+// Débit brut du générateur avec make/unmake, sans conversion depuis le plateau de l'interface
+const perftState = parseFEN(positions[1].fen, 3);
+const position = createSearchPosition(perftState.board, perftState.removedSquares, perftState.currentPlayer, perftState);
+const start = performance.now();
+const nodes = perft(position, 3);
+const elapsed = performance.now() - start;
+console.log(`Perft 3 (${positions[1].name}) : ${nodes} nœuds en ${Math.round(elapsed)} ms, ${formatRate((nodes * 1000) / elapsed)} nœuds/s`);
@@ -0,0 +1,22 @@
+import { build } from 'esbuild';
+import { join } from 'path';
+
+// Compile le moteur en un script autonome pour le Web Worker de recherche.
+// Metro ne produit pas de bundle de worker : le fichier est servi tel quel depuis public/.
+//
+// Usage :
+//   npm run build:engine
+
+const ROOT = join(__dirname, '..');
+
+build({
+  entryPoints: [join(ROOT, 'utils/engineWorker.ts')],
+  outfile: join(ROOT, 'public/engine-worker.js'),
+  tsconfig: join(ROOT, 'tsconfig.json'),
+  bundle: true,
+  minify: true,
+  format: 'iife',
+  platform: 'browser',
+  target: 'es2020',
+  logLevel: 'info',
+}).catch(() => process.exit(1));
@@ -0,0 +1,62 @@
+import { Board, GameState, Move, Player, Position } from '@/types/chess';
+import { PROMOTION_PIECES, findKing, isPromotionMove, isValidMove, makeMove } from '@/utils/chessLogic';
+
+// Ancien générateur par balayage 64 × 64, conservé comme référence pour les mesures de performance
+export function legacyIsInCheck(board: Board, color: Player, removedSquares: Set<string>): boolean {
+  const kingPosition = findKing(board, color);
+  if (!kingPosition) return false;
+
+  const opponentColor = color === 'white' ? 'black' : 'white';
+  for (let row = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++) {
+      const piece = board[row][col];
+      if (piece && piece.color === opponentColor && isValidMove(board, [row, col], kingPosition, removedSquares)) {
+        return true;
+      }
+    }
+  }
+  return false;
+}
+
+export function legacyGetAllValidMoves(
+  board: Board,
+  color: Player,
+  removedSquares: Set<string>,
+  gameState?: GameState
+): Move[] {
+  const validMoves: Move[] = [];
+
+  for (let fromRow = 0; fromRow < 8; fromRow++) {
+    for (let fromCol = 0; fromCol < 8; fromCol++) {
+      const piece = board[fromRow][fromCol];
+      if (!piece || piece.color !== color) continue;
+
+      for (let toRow = 0; toRow < 8; toRow++) {
+        for (let toCol = 0; toCol < 8; toCol++) {
+          const from: Position = [fromRow, fromCol];
+          const to: Position = [toRow, toCol];
+          if (!isValidMove(board, from, to, removedSquares, gameState)) continue;
+          if (legacyIsInCheck(makeMove(board, from, to, gameState).board, color, removedSquares)) continue;
+
+          if (isPromotionMove(board, from, to)) {
+            for (const promotion of PROMOTION_PIECES) validMoves.push({ from, to, promotion });
+          } else {
+            validMoves.push({ from, to });
+          }
+        }
+      }
+    }
+  }
+
+  return validMoves;
+}
+
+export function legacyIsCheckmate(
+  board: Board,
+  color: Player,
+  removedSquares: Set<string>,
+  gameState?: GameState
+): boolean {
+  if (!legacyIsInCheck(board, color, removedSquares)) return false;
+  return legacyGetAllValidMoves(board, color, removedSquares, gameState).length === 0;
+}
@@ -0,0 +1,118 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { GameState, Move } from '@/types/chess';
+import { getAllValidMoves, makeMove, updateCastlingRights } from '@/utils/chessLogic';
+import { parseFEN } from '@/utils/fen';
+import { squareToAlgebraic } from '@/utils/notation';
+
+// Comptage des positions atteignables (perft) pour vérifier la génération de coups.
+// Seuls les coups de pièces sont comptés : les suppressions de case ne sont pas des coups ici.
+//
+// Usage :
+//   npm run perft                          toutes les positions de perft-fixtures.json
+//   npm run perft -- --depth 2             en s'arrêtant à la profondeur 2
+//   npm run perft -- divide "<FEN>" 3      détail par coup à la racine
+
+interface PerftFixture {
+  name: string;
+  fen: string;
+  counts: number[]; // nombre de positions attendu aux profondeurs 1, 2, 3…
+}
+
+const FIXTURES_PATH = join(__dirname, 'perft-fixtures.json');
+
+// Le budget de suppressions n'influe pas sur les coups de pièces : on reprend celui de la FEN
+function parsePerftFEN(fen: string): GameState {
+  const removalsLeft = (fen.trim().split(/\s+/)[7] ?? '').split('/').map(Number).filter(Number.isFinite);
+  return parseFEN(fen, Math.max(0, ...removalsLeft));
+}
+
+function playMove(gameState: GameState, move: Move): GameState {
+  const moveResult = makeMove(gameState.board, move.from, move.to, gameState, move.promotion);
+  return {
+    ...updateCastlingRights(gameState, move.from, move.to),
+    board: moveResult.board,
+    currentPlayer: gameState.currentPlayer === 'white' ? 'black' : 'white',
+    enPassantTarget: moveResult.enPassantTarget,
+  };
+}
+
+function getMoves(gameState: GameState): Move[] {
+  return getAllValidMoves(gameState.board, gameState.currentPlayer, gameState.removedSquares, gameState);
+}
+
+export function perft(gameState: GameState, depth: number): number {
+  const moves = getMoves(gameState);
+  if (depth <= 1) return depth === 1 ? moves.length : 1;
+
+  let nodes = 0;
+  for (const move of moves) {
+    nodes += perft(playMove(gameState, move), depth - 1);
+  }
+  return nodes;
+}
+
+// Notation coordonnée (e2e4, e7e8q) : sans ambiguïté, facile à comparer d'un outil à l'autre
+function formatMove(move: Move): string {
+  const promotion = move.promotion ? (move.promotion === 'knight' ? 'n' : move.promotion[0]) : '';
+  return `${squareToAlgebraic(move.from)}${squareToAlgebraic(move.to)}${promotion}`;
+}
+
+export function divide(gameState: GameState, depth: number): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const move of getMoves(gameState)) {
+    counts.set(formatMove(move), perft(playMove(gameState, move), depth - 1));
+  }
+  return counts;
+}
+
+function runDivide(fen: string, depth: number) {
+  const counts = divide(parsePerftFEN(fen), depth);
+  let total = 0;
+  for (const [move, nodes] of [...counts].sort(([a], [b]) => a.localeCompare(b))) {
+    console.log(`${move}: ${nodes}`);
+    total += nodes;
+  }
+  console.log(`\n${counts.size} coups, ${total} positions`);
+}
+
+function runFixtures(maxDepth: number) {
+  const fixtures: PerftFixture[] = JSON.parse(readFileSync(FIXTURES_PATH, 'utf8'));
+  let failures = 0;
+
+  for (const fixture of fixtures) {
+    const gameState = parsePerftFEN(fixture.fen);
+    const mismatches: string[] = [];
+
+    fixture.counts.slice(0, maxDepth).forEach((expected, index) => {
+      const nodes = perft(gameState, index + 1);
+      if (nodes !== expected) mismatches.push(`profondeur ${index + 1} : ${nodes} au lieu de ${expected}`);
+    });
+
+    if (mismatches.length === 0) {
+      console.log(`ok     ${fixture.name}`);
+    } else {
+      failures++;
+      console.log(`ÉCHEC  ${fixture.name}`);
+      mismatches.forEach(mismatch => console.log(`       ${mismatch}`));
+    }
+  }
+
+  if (failures > 0) {
+    console.log(`\n${failures} position(s) en échec`);
+    process.exitCode = 1;
+  }
+}
+
+const args = process.argv.slice(2);
+if (args[0] === 'divide') {
+  const [, fen, depth] = args;
+  if (!fen || !Number(depth)) {
+    console.error('Usage : npm run perft -- divide "<FEN>" <profondeur>');
+    process.exit(1);
+  }
+  runDivide(fen, Number(depth));
+} else {
+  const depthIndex = args.indexOf('--depth');
+  runFixtures(depthIndex === -1 ? Infinity : Number(args[depthIndex + 1]));
+}
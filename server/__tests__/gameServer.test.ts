@@ -0,0 +1,221 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'net';
+import { WebSocket, WebSocketServer } from 'ws';
+import { GameSettings, Position } from '@/types/chess';
+import { ClientMessage, ServerMessage } from '@/types/online';
+import { DEFAULT_DRAFT_SETUP } from '@/utils/draftSetup';
+import { DEFAULT_REMOVED_SQUARE_RULES } from '@/utils/moveGenerator';
+import { algebraicToSquare } from '@/utils/notation';
+import { createGameServer } from '../gameServer';
+
+const settings: GameSettings = {
+  timeLimit: 5,
+  clockMode: 'fischer',
+  clockIncrement: 2,
+  removalsPerPlayer: 3,
+  restoresPerPlayer: 0,
+  draftMode: false,
+  draftFormat: 'alternate',
+  draftSeed: 0,
+  armyMode: 'fixed',
+  armyBudget: 39,
+  draftSetup: DEFAULT_DRAFT_SETUP,
+  draftTimeLimit: 0,
+  draftReview: false,
+  opponent: 'human',
+  humanColor: 'white',
+  computerDraftStyle: 'balanced',
+  boardLayout: 'standard',
+  removedSquareRules: DEFAULT_REMOVED_SQUARE_RULES,
+};
+
+interface TestClient {
+  send: (message: ClientMessage) => void;
+  next: <T extends ServerMessage['type']>(type: T) => Promise<Extract<ServerMessage, { type: T }>>;
+  close: () => void;
+}
+
+function sq(square: string): Position {
+  const position = algebraicToSquare(square);
+  if (!position) throw new Error(`Case invalide : ${square}`);
+  return position;
+}
+
+function move(ply: number, from: string, to: string): ClientMessage {
+  return { type: 'action', ply, action: { type: 'move', from: sq(from), to: sq(to) } };
+}
+
+let server: WebSocketServer;
+let url: string;
+
+// Les messages reçus sont mis en file : next attend le prochain, qui doit être du type annoncé
+async function connect(): Promise<TestClient> {
+  const socket = new WebSocket(url);
+  const received: ServerMessage[] = [];
+  const waiting: ((message: ServerMessage) => void)[] = [];
+  socket.on('message', data => {
+    const message: ServerMessage = JSON.parse(data.toString());
+    const resolve = waiting.shift();
+    if (resolve) resolve(message);
+    else received.push(message);
+  });
+  await new Promise(resolve => socket.once('open', resolve));
+
+  return {
+    send: message => socket.send(JSON.stringify(message)),
+    next: async type => {
+      const message = received.shift() ?? await new Promise<ServerMessage>(resolve => waiting.push(resolve));
+      assert.equal(message.type, type, `message inattendu : ${JSON.stringify(message)}`);
+      return message as Extract<ServerMessage, { type: typeof type }>;
+    },
+    close: () => socket.close(),
+  };
+}
+
+async function startGame(gameSettings: GameSettings = settings): Promise<[TestClient, TestClient]> {
+  const white = await connect();
+  const black = await connect();
+  white.send({ type: 'create', settings: gameSettings, color: 'white' });
+  const { gameId } = await white.next('created');
+  black.send({ type: 'join', gameId: gameId.toLowerCase() });
+  await white.next('started');
+  const started = await black.next('started');
+  assert.equal(started.color, 'black');
+  return [white, black];
+}
+
+before(async () => {
+  server = createGameServer({ port: 0 });
+  await new Promise(resolve => server.once('listening', resolve));
+  url = `ws://localhost:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  server.clients.forEach(client => client.terminate());
+  server.close();
+});
+
+describe('serveur de jeu en ligne', () => {
+  it('relaie les actions validées aux deux joueurs', async () => {
+    const [white, black] = await startGame();
+    white.send(move(0, 'e2', 'e4'));
+    const echoed = await white.next('action');
+    assert.deepEqual(echoed.action, { type: 'move', from: sq('e2'), to: sq('e4') });
+    assert.equal((await black.next('action')).ply, 0);
+
+    black.send({ type: 'action', ply: 1, action: { type: 'removal', square: sq('d4') } });
+    await white.next('action');
+    await black.next('action');
+    white.close();
+    black.close();
+  });
+
+  it('refuse les coups illégaux, hors tour ou périmés', async () => {
+    const [white, black] = await startGame();
+    white.send(move(0, 'e2', 'e5'));
+    assert.equal((await white.next('error')).message, 'Coup illégal');
+    black.send(move(0, 'e7', 'e5'));
+    assert.equal((await black.next('error')).message, 'Ce n\'est pas votre tour');
+    white.send(move(3, 'e2', 'e4'));
+    assert.equal((await white.next('error')).message, 'Action périmée');
+    white.send({ type: 'action', ply: 0, action: { type: 'removal', square: sq('e2') } });
+    assert.equal((await white.next('error')).message, 'Suppression invalide');
+    white.close();
+    black.close();
+  });
+
+  it('laisse les clients constater le mat', async () => {
+    const [white, black] = await startGame();
+    const moves = [['f2', 'f3'], ['e7', 'e5'], ['g2', 'g4'], ['d8', 'h4']];
+    for (const [ply, [from, to]] of moves.entries()) {
+      (ply % 2 === 0 ? white : black).send(move(ply, from, to));
+      await white.next('action');
+      await black.next('action');
+    }
+    white.send(move(4, 'a2', 'a3'));
+    assert.equal((await white.next('error')).message, 'La partie est terminée');
+    white.close();
+    black.close();
+  });
+
+  it('transmet les propositions de nulle et termine la partie sur abandon', async () => {
+    const [white, black] = await startGame();
+    white.send({ type: 'drawOffer' });
+    assert.equal((await black.next('drawOffered')).by, 'white');
+    black.send({ type: 'drawResponse', accept: false });
+    assert.equal((await white.next('drawDeclined')).by, 'black');
+
+    black.send({ type: 'resign' });
+    const { result } = await white.next('gameOver');
+    assert.deepEqual(result, { outcome: 'win', winner: 'white', reason: 'resignation' });
+    await black.next('gameOver');
+    white.close();
+    black.close();
+  });
+
+  it('fait perdre le joueur qui quitte la partie', async () => {
+    const [white, black] = await startGame();
+    white.close();
+    await black.next('opponentLeft');
+    assert.equal((await black.next('gameOver')).result.winner, 'black');
+    black.close();
+  });
+
+  it('laisse seul son auteur reprendre un placement tant que l\'adversaire n\'a pas répondu', async () => {
+    const [white, black] = await startGame({ ...settings, draftMode: true });
+    white.send({ type: 'action', ply: 0, action: { type: 'placement', piece: 'king', square: sq('e1') } });
+    await white.next('action');
+    await black.next('action');
+
+    black.send({ type: 'action', ply: 1, action: { type: 'undoDraft' } });
+    assert.equal((await black.next('error')).message, 'Aucun placement à reprendre');
+    white.send({ type: 'action', ply: 1, action: { type: 'undoDraft' } });
+    assert.deepEqual((await black.next('action')).action, { type: 'undoDraft' });
+    await white.next('action');
+
+    // La main revient aux Blancs, qui replacent ; une fois la réponse des Noirs jouée, plus de reprise
+    white.send({ type: 'action', ply: 0, action: { type: 'placement', piece: 'king', square: sq('d1') } });
+    await white.next('action');
+    await black.next('action');
+    black.send({ type: 'action', ply: 1, action: { type: 'placement', piece: 'king', square: sq('e8') } });
+    await white.next('action');
+    await black.next('action');
+    white.send({ type: 'action', ply: 2, action: { type: 'undoDraft' } });
+    assert.equal((await white.next('error')).message, 'Aucun placement à reprendre');
+    white.close();
+    black.close();
+  });
+
+  it('fait perdre au temps le joueur dont le drapeau tombe pendant le draft', async () => {
+    // Réserve avec pions : l'échiquier est vide tant que les Noirs n'ont rien posé
+    const draftSetup = { reserve: { ...DEFAULT_DRAFT_SETUP.reserve, pawn: 8 }, zone: 'backTwoRanks' as const, constraints: [] };
+    const [white, black] = await startGame({ ...settings, draftMode: true, draftSetup, timeLimit: 0.001 });
+    const { result } = await black.next('gameOver');
+    assert.deepEqual(result, { outcome: 'win', winner: 'black', reason: 'timeout' });
+    await white.next('gameOver');
+    white.close();
+    black.close();
+  });
+
+  it('tient les chronos et signale une partie introuvable', async () => {
+    const [white, black] = await startGame();
+    white.send({ type: 'clockSync' });
+    const { timeLeft } = await white.next('clock');
+    assert.ok(timeLeft.white <= 300000 && timeLeft.white > 299000);
+    assert.equal(timeLeft.black, 300000);
+
+    // Incrément Fischer de 2 secondes accordé au joueur qui vient de jouer
+    white.send(move(0, 'e2', 'e4'));
+    const echoed = await white.next('action');
+    assert.ok(echoed.timeLeft.white > 300000);
+    await black.next('action');
+
+    const stranger = await connect();
+    stranger.send({ type: 'join', gameId: 'ZZZZZ' });
+    assert.equal((await stranger.next('error')).message, 'Partie introuvable');
+    white.close();
+    black.close();
+    stranger.close();
+  });
+});
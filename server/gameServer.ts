@@ -0,0 +1,282 @@
+import { RawData, ServerOptions, WebSocket, WebSocketServer } from 'ws';
+import { GameResult, GameSettings, GameState, Player } from '@/types/chess';
+import { ClientMessage, ClockState, OnlineAction, ServerMessage } from '@/types/online';
+import { getActivePlayer, getTimeoutResult, getUndoableDraftPlayer } from '@/utils/chessLogic';
+import { endTurn, getLiveTimeLeft, getMonotonicTime, getTimeControl, getTimeUntilFlag } from '@/utils/clock';
+import { ARMY_MODES, isValidArmyBudget } from '@/utils/army';
+import { isValidDraftSeed, ONLINE_DRAFT_FORMATS } from '@/utils/draftFormats';
+import { isValidDraftSetup } from '@/utils/draftSetup';
+import { applyOnlineAction, createStartGameState, OnlineActionError } from '@/utils/online';
+import { serializeGameState } from '@/utils/serialization';
+
+// Serveur de référence du jeu en ligne : il héberge les parties en mémoire,
+// valide chaque action avec les règles de chessLogic et tient les chronos.
+
+interface Room {
+  id: string;
+  settings: GameSettings;
+  gameState: GameState;
+  players: Partial<Record<Player, WebSocket>>;
+  turnStartedAt: number; // horloge monotone, en millisecondes
+  flagTimer: ReturnType<typeof setTimeout> | null;
+  drawOfferedBy: Player | null;
+}
+
+interface Seat {
+  room: Room;
+  color: Player;
+}
+
+// Sans lettres ambiguës (I, O) ni chiffres, pour dicter le code à voix haute
+const GAME_ID_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ';
+const GAME_ID_LENGTH = 5;
+
+function getOpponent(player: Player): Player {
+  return player === 'white' ? 'black' : 'white';
+}
+
+function send(socket: WebSocket | undefined, message: ServerMessage) {
+  if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+}
+
+function broadcast(room: Room, message: ServerMessage) {
+  send(room.players.white, message);
+  send(room.players.black, message);
+}
+
+function isValidSettings(settings: GameSettings | undefined): settings is GameSettings {
+  return !!settings
+    && typeof settings.timeLimit === 'number' && settings.timeLimit > 0
+    && ['fischer', 'bronstein', 'delay', 'hourglass'].includes(settings.clockMode)
+    && typeof settings.clockIncrement === 'number' && settings.clockIncrement >= 0
+    && typeof settings.removedSquareRules?.blockSliders === 'boolean'
+    && typeof settings.removedSquareRules.pawnDoublePushOver === 'boolean'
+    && typeof settings.removedSquareRules.castleThrough === 'boolean'
+    && Number.isInteger(settings.removedSquareRules.lifetime) && settings.removedSquareRules.lifetime >= 0
+    && Number.isInteger(settings.removalsPerPlayer) && settings.removalsPerPlayer >= 0
+    && Number.isInteger(settings.restoresPerPlayer) && settings.restoresPerPlayer >= 0
+    && typeof settings.draftMode === 'boolean'
+    && ONLINE_DRAFT_FORMATS.includes(settings.draftFormat)
+    && isValidDraftSeed(settings.draftSeed)
+    && ARMY_MODES.includes(settings.armyMode)
+    && isValidArmyBudget(settings.armyBudget)
+    && !!settings.draftSetup && isValidDraftSetup(settings.draftSetup)
+    && Number.isInteger(settings.draftTimeLimit) && settings.draftTimeLimit >= 0
+    && typeof settings.draftReview === 'boolean';
+}
+
+export function createGameServer(options: ServerOptions): WebSocketServer {
+  const server = new WebSocketServer(options);
+  const rooms = new Map<string, Room>();
+  const seats = new Map<WebSocket, Seat>();
+
+  const createGameId = (): string => {
+    let id: string;
+    do {
+      id = Array.from(
+        { length: GAME_ID_LENGTH },
+        () => GAME_ID_ALPHABET[Math.floor(Math.random() * GAME_ID_ALPHABET.length)]
+      ).join('');
+    } while (rooms.has(id));
+    return id;
+  };
+
+  // Temps restant de chaque joueur à cet instant, le tour en cours décompté
+  const getCurrentClock = (room: Room): ClockState => getLiveTimeLeft(
+    room.gameState.timeLeft,
+    getActivePlayer(room.gameState),
+    room.turnStartedAt,
+    getTimeControl(room.settings)
+  );
+
+  const stopClock = (room: Room) => {
+    if (room.flagTimer) clearTimeout(room.flagTimer);
+    room.flagTimer = null;
+  };
+
+  // Fin de partie décidée par le serveur : temps, abandon, nulle par accord
+  const endGame = (room: Room, result: GameResult) => {
+    stopClock(room);
+    room.gameState = { ...room.gameState, timeLeft: getCurrentClock(room), gameOver: true, result };
+    broadcast(room, { type: 'gameOver', result, timeLeft: room.gameState.timeLeft });
+  };
+
+  const flag = (room: Room) => {
+    endGame(room, getTimeoutResult(room.gameState, getActivePlayer(room.gameState)));
+  };
+
+  // Comme dans l'application, c'est le chrono du joueur attendu qui tourne, y compris pendant le draft
+  const startTurn = (room: Room) => {
+    stopClock(room);
+    room.turnStartedAt = getMonotonicTime();
+    const untilFlag = getTimeUntilFlag(
+      room.gameState.timeLeft,
+      getActivePlayer(room.gameState),
+      room.turnStartedAt,
+      getTimeControl(room.settings)
+    );
+    room.flagTimer = setTimeout(() => flag(room), untilFlag);
+  };
+
+  const handleCreate = (socket: WebSocket, settings: GameSettings, color: Player) => {
+    if (seats.has(socket)) return send(socket, { type: 'error', message: 'Vous êtes déjà dans une partie' });
+    if (!isValidSettings(settings) || (color !== 'white' && color !== 'black')) {
+      return send(socket, { type: 'error', message: 'Paramètres de partie invalides' });
+    }
+
+    let gameState: GameState;
+    try {
+      gameState = createStartGameState(settings);
+    } catch (error) {
+      return send(socket, { type: 'error', message: error instanceof Error ? error.message : String(error) });
+    }
+
+    // Une partie en ligne se joue toujours entre deux humains
+    const room: Room = {
+      id: createGameId(),
+      settings: { ...settings, opponent: 'human' },
+      gameState,
+      players: { [color]: socket },
+      turnStartedAt: 0,
+      flagTimer: null,
+      drawOfferedBy: null,
+    };
+    rooms.set(room.id, room);
+    seats.set(socket, { room, color });
+    send(socket, { type: 'created', gameId: room.id, color });
+  };
+
+  const handleJoin = (socket: WebSocket, gameId: string) => {
+    if (seats.has(socket)) return send(socket, { type: 'error', message: 'Vous êtes déjà dans une partie' });
+    const room = rooms.get(String(gameId).trim().toUpperCase());
+    if (!room) return send(socket, { type: 'error', message: 'Partie introuvable' });
+
+    const color: Player | null = !room.players.white ? 'white' : !room.players.black ? 'black' : null;
+    if (!color) return send(socket, { type: 'error', message: 'La partie est complète' });
+
+    room.players[color] = socket;
+    seats.set(socket, { room, color });
+    startTurn(room);
+
+    const gameState = serializeGameState(room.gameState);
+    for (const player of ['white', 'black'] as Player[]) {
+      send(room.players[player], { type: 'started', gameId: room.id, color: player, settings: room.settings, gameState });
+    }
+  };
+
+  const handleAction = (seat: Seat, ply: number, action: OnlineAction) => {
+    const { room, color } = seat;
+    const socket = room.players[color];
+    if (!room.players.white || !room.players.black) {
+      return send(socket, { type: 'error', message: 'En attente de l\'adversaire' });
+    }
+    if (room.gameState.gameOver) return send(socket, { type: 'error', message: 'La partie est terminée' });
+    // Une reprise de placement vient de son auteur, même quand la main est déjà à l'adversaire
+    const activePlayer = getActivePlayer(room.gameState);
+    const isUndo = action?.type === 'undoDraft';
+    if (isUndo && getUndoableDraftPlayer(room.gameState) !== color) {
+      return send(socket, { type: 'error', message: 'Aucun placement à reprendre' });
+    }
+    if (!isUndo && activePlayer !== color) return send(socket, { type: 'error', message: 'Ce n\'est pas votre tour' });
+    if (ply !== room.gameState.history.length) return send(socket, { type: 'error', message: 'Action périmée' });
+
+    // Une action arrivée après la chute du drapeau, avant que la minuterie ne se déclenche
+    const now = getMonotonicTime();
+    const timeControl = getTimeControl(room.settings);
+    if (getTimeUntilFlag(room.gameState.timeLeft, activePlayer, room.turnStartedAt, timeControl, now) <= 0) {
+      return flag(room);
+    }
+    // Comme hors ligne, le temps pris par l'adversaire avant la reprise lui est décompté, sans incrément
+    const timeLeft = isUndo
+      ? getLiveTimeLeft(room.gameState.timeLeft, activePlayer, room.turnStartedAt, timeControl, now)
+      : endTurn(room.gameState.timeLeft, color, room.turnStartedAt, timeControl, now);
+
+    try {
+      room.gameState = applyOnlineAction({ ...room.gameState, timeLeft }, action, room.settings);
+    } catch (error) {
+      // Une action malformée ne doit pas faire tomber le serveur
+      return send(socket, { type: 'error', message: error instanceof OnlineActionError ? error.message : 'Action invalide' });
+    }
+
+    room.drawOfferedBy = null;
+    broadcast(room, { type: 'action', ply, action, timeLeft });
+
+    // Mat, pat ou nulle : chaque client le constate en appliquant l'action
+    if (room.gameState.gameOver) {
+      stopClock(room);
+    } else {
+      startTurn(room);
+    }
+  };
+
+  const handleMessage = (socket: WebSocket, data: RawData) => {
+    let message: ClientMessage;
+    try {
+      message = JSON.parse(data.toString());
+    } catch {
+      return send(socket, { type: 'error', message: 'Message illisible' });
+    }
+    if (!message || typeof message !== 'object') return send(socket, { type: 'error', message: 'Message illisible' });
+
+    if (message.type === 'create') return handleCreate(socket, message.settings, message.color);
+    if (message.type === 'join') return handleJoin(socket, message.gameId);
+
+    const seat = seats.get(socket);
+    if (!seat) return send(socket, { type: 'error', message: 'Aucune partie en cours' });
+    const { room, color } = seat;
+    const started = !!room.players.white && !!room.players.black;
+
+    switch (message.type) {
+      case 'action':
+        return handleAction(seat, message.ply, message.action);
+      case 'clockSync':
+        return send(socket, { type: 'clock', timeLeft: started ? getCurrentClock(room) : room.gameState.timeLeft });
+      case 'resign':
+        if (!started || room.gameState.gameOver) return;
+        return endGame(room, { outcome: 'win', winner: getOpponent(color), reason: 'resignation' });
+      case 'drawOffer':
+        if (!started || room.gameState.gameOver) return;
+        room.drawOfferedBy = color;
+        return send(room.players[getOpponent(color)], { type: 'drawOffered', by: color });
+      case 'drawResponse':
+        if (room.drawOfferedBy !== getOpponent(color) || room.gameState.gameOver) return;
+        room.drawOfferedBy = null;
+        if (message.accept) return endGame(room, { outcome: 'draw', winner: null, reason: 'agreement' });
+        return send(room.players[getOpponent(color)], { type: 'drawDeclined', by: color });
+      default:
+        return send(socket, { type: 'error', message: 'Message inconnu' });
+    }
+  };
+
+  // Un joueur qui quitte une partie en cours l'abandonne
+  const handleClose = (socket: WebSocket) => {
+    const seat = seats.get(socket);
+    if (!seat) return;
+    seats.delete(socket);
+
+    const { room, color } = seat;
+    delete room.players[color];
+    const opponent = room.players[getOpponent(color)];
+    if (opponent && !room.gameState.gameOver) {
+      send(opponent, { type: 'opponentLeft' });
+      endGame(room, { outcome: 'win', winner: getOpponent(color), reason: 'resignation' });
+    }
+    if (!opponent) {
+      stopClock(room);
+      rooms.delete(room.id);
+    }
+  };
+
+  server.on('connection', socket => {
+    socket.on('message', data => handleMessage(socket, data));
+    socket.on('close', () => handleClose(socket));
+  });
+
+  server.on('close', () => {
+    rooms.forEach(room => room.flagTimer && clearTimeout(room.flagTimer));
+    rooms.clear();
+    seats.clear();
+  });
+
+  return server;
+}
@@ -0,0 +1,9 @@
+import { createGameServer } from './gameServer';
+
+// Usage : npm run server [-- port], ou PORT=9000 npm run server
+const port = Number(process.argv[2] ?? process.env.PORT) || 8080;
+
+const server = createGameServer({ port });
+server.on('listening', () => {
+  console.log(`Serveur de jeu en ligne à l'écoute sur ws://localhost:${port}`);
+});
@@ -9,6 +9,104 @@ export interface Piece {
 export type Position = [number, number];
 export type Board = (Piece | null)[][];
 
+export type PromotionPieceType = 'queen' | 'rook' | 'bishop' | 'knight';
+
+export interface Move {
+  from: Position;
+  to: Position;
+  promotion?: PromotionPieceType;
+}
+
+export interface MoveResult {
+  board: Board;
+  isCastling: boolean;
+  rookMove?: { from: Position; to: Position };
+  isEnPassant: boolean;
+  enPassantTarget: Position | null;
+  promotion?: PromotionPieceType;
+}
+
+export interface PieceMoveRecord {
+  type: 'move';
+  player: Player;
+  piece: PieceType;
+  from: Position;
+  to: Position;
+  captured?: PieceType;
+  promotion?: PromotionPieceType;
+  castling?: CastlingSide;
+  isEnPassant?: boolean;
+  notation: string;
+  timeLeft: { white: number; black: number }; // chronos au moment de l'action
+}
+
+export interface RemovalRecord {
+  type: 'removal';
+  player: Player;
+  square: Position;
+  notation: string;
+  timeLeft: { white: number; black: number }; // chronos au moment de l'action
+}
+
+export interface PlacementRecord {
+  type: 'placement';
+  player: Player;
+  piece: PieceType;
+  square: Position;
+  notation: string;
+  timeLeft: { white: number; black: number }; // chronos au moment de l'action
+}
+
+// Armée achetée d'un coup sur le budget de points, avant tout placement
+export interface PurchaseRecord {
+  type: 'purchase';
+  player: Player;
+  pieces: PieceType[];
+  notation: string;
+  timeLeft: { white: number; black: number }; // chronos au moment de l'action
+}
+
+// Validation de la position draftée par un joueur, lors de la vérification finale
+export interface ConfirmationRecord {
+  type: 'confirmation';
+  player: Player;
+  notation: string;
+  timeLeft: { white: number; black: number }; // chronos au moment de l'action
+}
+
+// Case supprimée rouverte par un joueur, sur un budget distinct des suppressions
+export interface RestoreRecord {
+  type: 'restore';
+  player: Player;
+  square: Position;
+  notation: string;
+  timeLeft: { white: number; black: number }; // chronos au moment de l'action
+}
+
+export type MoveRecord =
+  | PieceMoveRecord
+  | RemovalRecord
+  | RestoreRecord
+  | PlacementRecord
+  | PurchaseRecord
+  | ConfirmationRecord;
+
+export type GameEndReason =
+  | 'checkmate'
+  | 'timeout'
+  | 'stalemate'
+  | 'insufficientMaterial'
+  | 'threefoldRepetition'
+  | 'fiftyMoveRule'
+  | 'agreement'
+  | 'resignation';
+
+export interface GameResult {
+  outcome: 'win' | 'draw';
+  winner: Player | null; // null en cas de nulle
+  reason: GameEndReason;
+}
+
 export interface CastlingRights {
   whiteKingside: boolean;
   whiteQueenside: boolean;
@@ -16,22 +114,34 @@ export interface CastlingRights {
   blackQueenside: boolean;
 }
 
+export type CastlingSide = 'kingside' | 'queenside';
+
+// Colonne de départ de la tour associée à chaque droit de roque (h et a dans la position classique)
+export type CastlingRookColumns = Record<keyof CastlingRights, number>;
+
 export interface GameState {
   board: Board;
   currentPlayer: Player;
   selectedSquare: Position | null;
   removedSquares: Set<string>;
   gameOver: boolean;
-  winner: Player | null;
+  result: GameResult | null;
   removalsUsed: {
     white: number;
     black: number;
   };
+  restoresUsed: {
+    white: number;
+    black: number;
+  };
+  // Cases supprimées temporairement : longueur de l'historique à laquelle chacune revient
+  removalExpiry: Record<string, number>;
   timeLeft: {
-    white: number; // en secondes
-    black: number; // en secondes
+    white: number; // en millisecondes
+    black: number; // en millisecondes
   };
   castlingRights: CastlingRights;
+  castlingRooks: CastlingRookColumns;
   kingMoved: {
     white: boolean;
     black: boolean;
@@ -42,13 +152,102 @@ export interface GameState {
     blackKingside: boolean;
     blackQueenside: boolean;
   };
+  enPassantTarget: Position | null; // case sautée par le dernier double pas d'un pion
+  halfmoveClock: number; // demi-coups depuis la dernière capture, poussée de pion ou suppression
+  fullmoveNumber: number; // numéro du coup, incrémenté après chaque action des noirs
+  positionHistory: string[]; // clés des positions atteintes, pour la triple répétition
+  history: MoveRecord[];
+  draftState?: DraftState;
+  removedSquareRules: RemovedSquareRules;
+}
+
+// Effet des cases supprimées sur les déplacements ; le cavalier les saute toujours
+export interface RemovedSquareRules {
+  blockSliders: boolean; // tours, fous et dames s'arrêtent devant une case supprimée
+  pawnDoublePushOver: boolean; // double pas permis au-dessus d'une case supprimée
+  castleThrough: boolean; // roque permis à travers une case supprimée où ni le roi ni la tour ne s'arrêtent
+  lifetime: number; // demi-coups avant le retour automatique d'une case supprimée, 0 : suppression définitive
+}
+
+// Forme JSON d'un GameState : le Set des cases supprimées devient un tableau
+export type SerializedGameState = Omit<GameState, 'removedSquares'> & { removedSquares: string[] };
+
+export interface DraftState {
+  availablePieces: {
+    white: PieceType[];
+    black: PieceType[];
+  };
+  selectedPiece: PieceType | null;
+  currentDraftPlayer: Player;
+  format: DraftFormat;
+  placementsLeftInTurn: number; // placements du joueur avant de passer la main
+  hiddenPlacement: PlacementRecord | null; // draft à l'aveugle : premier choix de la manche, révélé avec le second
+  armyBudget: number | null; // points de chaque joueur en mode achat, null pour la réserve classique
+  phase: DraftPhase;
+  zone: DraftZone; // zone effective : au moins deux rangées dès que les pions sont draftés
+  constraints: DraftConstraint[];
+  review: boolean; // les deux joueurs valident la position avant le début de la partie
+  gameTimeLeft: { white: number; black: number } | null; // chronos de partie mis de côté, null si le draft les partage
 }
 
+// shop : chaque joueur achète son armée, les Blancs d'abord ; placement : les pièces sont posées ;
+// review : les Blancs puis les Noirs valident la position draftée
+export type DraftPhase = 'shop' | 'placement' | 'review';
+
+// Zone de placement : dernière rangée, deux dernières rangées ou toute sa moitié de l'échiquier
+export type DraftZone = 'backRank' | 'backTwoRanks' | 'half';
+
+// oppositeBishops : fous sur les deux couleurs ; kingOnBackRank : roi sur la dernière rangée
+export type DraftConstraint = 'oppositeBishops' | 'kingOnBackRank';
+
+// Nombre de pièces de chaque type dans la réserve ; sans pion, la rangée de pions est posée d'avance
+export type DraftReserve = Record<PieceType, number>;
+
+export interface DraftSetup {
+  reserve: DraftReserve; // ignorée en mode budget, où chaque joueur achète son armée
+  zone: DraftZone;
+  constraints: DraftConstraint[];
+}
+
+// fixed : réserve choisie avant la partie ; budget : armée achetée à la boutique, pions compris
+export type ArmyMode = 'fixed' | 'budget';
+
+// alternate : un placement chacun son tour ; random : dernières rangées tirées au sort façon Chess960 ;
+// blind : choix simultanés, révélés ensemble ; snake : ordre serpent 1-2-2-…
+export type DraftFormat = 'alternate' | 'random' | 'blind' | 'snake';
+
+export type DraftStyle = 'random' | 'balanced' | 'aggressive';
+
+// standard : Blancs en bas ; autoFlip : le joueur au trait en bas ; faceToFace : table entre deux joueurs
+export type BoardLayout = 'standard' | 'autoFlip' | 'faceToFace';
+
+// fischer : incrément après chaque tour ; bronstein : rend le temps pris, au plus le délai ;
+// delay : le chrono ne tourne qu'après le délai ; hourglass : le temps dépensé passe à l'adversaire
+export type ClockMode = 'fischer' | 'bronstein' | 'delay' | 'hourglass';
+
 export interface GameSettings {
   timeLimit: number; // en minutes
+  clockMode: ClockMode;
+  clockIncrement: number; // incrément ou délai, en secondes
   removalsPerPlayer: number; // nombre de suppressions par joueur
+  restoresPerPlayer: number; // nombre de cases qu'un joueur peut rouvrir, 0 : action désactivée
+  draftMode: boolean;
+  draftFormat: DraftFormat;
+  draftSeed: number; // graine du tirage des dernières rangées en format random
+  armyMode: ArmyMode;
+  armyBudget: number; // points de chaque joueur en mode budget
+  draftSetup: DraftSetup;
+  draftTimeLimit: number; // chrono propre au draft, en minutes ; 0 : le draft entame le chrono de partie
+  draftReview: boolean; // vérification finale de la position avant les chronos de partie
+  opponent: 'human' | 'computer';
+  humanColor: Player; // couleur du joueur humain face à l'ordinateur
+  computerDraftStyle: DraftStyle;
+  boardLayout: BoardLayout;
+  removedSquareRules: RemovedSquareRules;
+  startFen?: string; // position de départ personnalisée (FEN étendue)
 }
 
 export interface GameConfig extends GameSettings {
   gameStarted: boolean;
+  draftPhase: boolean;
 }
\ No newline at end of file
@@ -0,0 +1,49 @@
+import {
+  GameResult,
+  GameSettings,
+  PieceType,
+  Player,
+  Position,
+  PromotionPieceType,
+  SerializedGameState,
+} from '@/types/chess';
+
+// Protocole du jeu en ligne : messages JSON échangés sur une WebSocket.
+// Le serveur fait autorité : une action n'est appliquée par les clients
+// qu'une fois validée et renvoyée par le serveur aux deux joueurs.
+
+export type OnlineAction =
+  | { type: 'purchase'; pieces: PieceType[] }
+  | { type: 'placement'; piece: PieceType; square: Position }
+  | { type: 'confirmDraft' }
+  // Reprise de son dernier placement, tant que l'adversaire n'a pas répondu : seul son auteur peut l'envoyer
+  | { type: 'undoDraft' }
+  | { type: 'move'; from: Position; to: Position; promotion?: PromotionPieceType }
+  | { type: 'removal'; square: Position }
+  | { type: 'restore'; square: Position };
+
+export interface ClockState {
+  white: number; // en millisecondes
+  black: number; // en millisecondes
+}
+
+export type ClientMessage =
+  | { type: 'create'; settings: GameSettings; color: Player }
+  | { type: 'join'; gameId: string }
+  // ply : longueur de l'historique sur laquelle l'action a été jouée, pour écarter les actions périmées
+  | { type: 'action'; ply: number; action: OnlineAction }
+  | { type: 'clockSync' }
+  | { type: 'resign' }
+  | { type: 'drawOffer' }
+  | { type: 'drawResponse'; accept: boolean };
+
+export type ServerMessage =
+  | { type: 'created'; gameId: string; color: Player }
+  | { type: 'started'; gameId: string; color: Player; settings: GameSettings; gameState: SerializedGameState }
+  | { type: 'action'; ply: number; action: OnlineAction; timeLeft: ClockState }
+  | { type: 'clock'; timeLeft: ClockState }
+  | { type: 'drawOffered'; by: Player }
+  | { type: 'drawDeclined'; by: Player }
+  | { type: 'gameOver'; result: GameResult; timeLeft: ClockState }
+  | { type: 'opponentLeft' }
+  | { type: 'error'; message: string };
@@ -0,0 +1,950 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { GameState, PieceType, Position, RemovedSquareRules } from '@/types/chess';
+import {
+  PROMOTION_PIECES,
+  applyArmyPurchase,
+  applyDraftPlacement,
+  applyMove,
+  applyRemoval,
+  applyRestore,
+  canCompleteDraftZone,
+  confirmDraft,
+  createDraftGameState,
+  createInitialGameState,
+  findKing,
+  getAllValidMoves,
+  getAvailableDraftPieces,
+  getGameResult,
+  getPositionKey,
+  getPossibleMoves,
+  getRemovalCountdowns,
+  getTimeoutResult,
+  getUndoableDraftPlayer,
+  hasMatingMaterial,
+  initializeBoard,
+  initializeDraftBoard,
+  isCheckmate,
+  isInCheck,
+  isInCheckAfterPly,
+  isInsufficientMaterial,
+  isPromotionMove,
+  isStalemate,
+  isValidArmyPurchase,
+  isValidDraftPlacement,
+  isBlindDraftRepick,
+  isValidMove,
+  isValidRemoval,
+  isValidRestore,
+  makeMove,
+  undoDraftPlacement,
+  updateCastlingRights,
+} from '@/utils/chessLogic';
+import { getArmyError } from '@/utils/army';
+import { DEFAULT_DRAFT_RESERVE, getDraftSetupError } from '@/utils/draftSetup';
+import { FENParseError, parseFEN, toFEN } from '@/utils/fen';
+import { algebraicToSquare, squareToAlgebraic } from '@/utils/notation';
+
+function sq(square: string): Position {
+  const position = algebraicToSquare(square);
+  if (!position) throw new Error(`Case invalide : ${square}`);
+  return position;
+}
+
+// Les positions de test s'écrivent en FEN standard ; les cases supprimées et les suppressions restantes en plus
+function position(fen: string, removed: string = '-', removalsLeft: string = '3/3'): GameState {
+  return parseFEN(`${fen} ${removed} ${removalsLeft} -`, 3);
+}
+
+function play(gameState: GameState, ...moves: string[]): GameState {
+  return moves.reduce((state, move) => applyMove(state, sq(move.slice(0, 2)), sq(move.slice(2, 4))).gameState, gameState);
+}
+
+function targets(moves: Position[]): string[] {
+  return moves.map(squareToAlgebraic).sort();
+}
+
+function isValid(gameState: GameState, from: string, to: string): boolean {
+  return isValidMove(gameState.board, sq(from), sq(to), gameState.removedSquares, gameState);
+}
+
+function withRules(gameState: GameState, rules: Partial<RemovedSquareRules>): GameState {
+  return { ...gameState, removedSquareRules: { ...gameState.removedSquareRules, ...rules } };
+}
+
+describe('mise en place', () => {
+  it('place les pièces de la position initiale', () => {
+    const board = initializeBoard();
+    assert.deepEqual(board[7][4], { type: 'king', color: 'white' });
+    assert.deepEqual(board[0][3], { type: 'queen', color: 'black' });
+    assert.equal(board.flat().filter(piece => piece?.type === 'pawn').length, 16);
+    assert.equal(board.flat().filter(piece => piece === null).length, 32);
+  });
+
+  it('ne place que les pions pour le draft', () => {
+    const board = initializeDraftBoard();
+    assert.ok(board[0].every(piece => piece === null));
+    assert.ok(board[7].every(piece => piece === null));
+    assert.ok(board[1].every(piece => piece?.type === 'pawn' && piece.color === 'black'));
+    assert.ok(board[6].every(piece => piece?.type === 'pawn' && piece.color === 'white'));
+  });
+
+  it('propose les huit pièces de la dernière rangée au draft', () => {
+    assert.deepEqual(
+      [...getAvailableDraftPieces()].sort(),
+      ['bishop', 'bishop', 'king', 'knight', 'knight', 'queen', 'rook', 'rook']
+    );
+  });
+
+  it('crée une partie classique avec les chronos et la position de départ', () => {
+    const gameState = createInitialGameState(3);
+    assert.equal(gameState.currentPlayer, 'white');
+    assert.deepEqual(gameState.timeLeft, { white: 3 * 60 * 1000, black: 3 * 60 * 1000 });
+    assert.equal(gameState.removedSquares.size, 0);
+    assert.deepEqual(gameState.positionHistory, [getPositionKey(gameState)]);
+    assert.deepEqual(gameState.history, []);
+  });
+
+  it('crée une partie draft où les blancs placent en premier', () => {
+    const gameState = createDraftGameState(10);
+    assert.equal(gameState.draftState?.currentDraftPlayer, 'white');
+    assert.equal(gameState.draftState?.availablePieces.black.length, 8);
+    assert.deepEqual(gameState.positionHistory, []);
+    assert.deepEqual(gameState.timeLeft, { white: 10 * 60 * 1000, black: 10 * 60 * 1000 });
+  });
+
+  it('liste les pièces de promotion, la dame en premier', () => {
+    assert.deepEqual(PROMOTION_PIECES, ['queen', 'rook', 'bishop', 'knight']);
+  });
+});
+
+describe('isValidMove', () => {
+  it('refuse une case d\'arrivée supprimée', () => {
+    const gameState = position('4k3/8/8/8/8/8/8/R3K3 w - - 0 1', 'a4');
+    assert.equal(isValid(gameState, 'a1', 'a4'), false);
+    assert.equal(isValid(gameState, 'a1', 'a3'), true);
+  });
+
+  it('laisse les pièces longues survoler les cases supprimées', () => {
+    const gameState = position('4k3/8/8/8/8/8/8/R2BK3 w - - 0 1', 'a3,a4');
+    assert.equal(isValid(gameState, 'a1', 'a8'), true);
+    assert.equal(isValid(gameState, 'd1', 'a4'), false);
+    assert.equal(isValid(gameState, 'd1', 'b3'), true);
+  });
+
+  it('bloque les pièces longues sur une pièce', () => {
+    const gameState = position('4k3/8/8/8/P7/8/8/R3K3 w - - 0 1');
+    assert.equal(isValid(gameState, 'a1', 'a3'), true);
+    assert.equal(isValid(gameState, 'a1', 'a5'), false);
+  });
+
+  it('laisse le cavalier sauter par-dessus les pièces', () => {
+    const gameState = createInitialGameState();
+    assert.equal(isValid(gameState, 'g1', 'f3'), true);
+    assert.equal(isValid(gameState, 'g1', 'g3'), false);
+  });
+
+  it('interdit de prendre ses propres pièces', () => {
+    assert.equal(isValid(createInitialGameState(), 'd1', 'd2'), false);
+  });
+
+  it('refuse le double pas d\'un pion vers une case supprimée', () => {
+    const gameState = position('4k3/8/8/8/8/8/4P3/4K3 w - - 0 1', 'e4');
+    assert.equal(isValid(gameState, 'e2', 'e4'), false);
+    assert.equal(isValid(gameState, 'e2', 'e3'), true);
+  });
+
+  it('autorise le double pas au-dessus d\'une case supprimée', () => {
+    const gameState = position('4k3/8/8/8/8/8/4P3/4K3 w - - 0 1', 'e3');
+    assert.equal(isValid(gameState, 'e2', 'e4'), true);
+    assert.equal(isValid(gameState, 'e2', 'e3'), false);
+  });
+
+  it('refuse le double pas au-dessus d\'une pièce', () => {
+    const gameState = position('4k3/8/8/8/8/4n3/4P3/4K3 w - - 0 1');
+    assert.equal(isValid(gameState, 'e2', 'e4'), false);
+    assert.deepEqual(targets(getPossibleMoves(gameState.board, sq('e2'), gameState.removedSquares, gameState)), []);
+  });
+
+  it('autorise la prise en passant juste après le double pas', () => {
+    const gameState = play(position('4k3/3p4/8/4P3/8/8/8/4K3 b - - 0 1'), 'd7d5');
+    assert.equal(isValid(gameState, 'e5', 'd6'), true);
+    assert.equal(isValid(play(gameState, 'e1e2', 'e8e7'), 'e5', 'd6'), false);
+  });
+
+  it('refuse la prise en passant vers une case supprimée', () => {
+    const gameState = play(position('4k3/3p4/8/4P3/8/8/8/4K3 b - - 0 1', 'd6'), 'd7d5');
+    assert.equal(isValid(gameState, 'e5', 'd6'), false);
+  });
+
+  it('autorise le roque quand le chemin est libre', () => {
+    const gameState = position('r3k2r/8/8/8/8/8/8/R3K2R w KQkq - 0 1');
+    assert.equal(isValid(gameState, 'e1', 'g1'), true);
+    assert.equal(isValid(gameState, 'e1', 'c1'), true);
+  });
+
+  it('refuse le roque si une case entre le roi et la tour est supprimée', () => {
+    const gameState = position('r3k2r/8/8/8/8/8/8/R3K2R w KQkq - 0 1', 'b1,f1');
+    assert.equal(isValid(gameState, 'e1', 'g1'), false);
+    assert.equal(isValid(gameState, 'e1', 'c1'), false);
+  });
+
+  it('refuse le roque en échec, à travers une case attaquée ou sans le droit', () => {
+    assert.equal(isValid(position('4k3/8/8/8/8/8/8/R3K2R w KQ - 0 1'), 'e1', 'g1'), true);
+    assert.equal(isValid(position('4r1k1/8/8/8/8/8/8/R3K2R w KQ - 0 1'), 'e1', 'g1'), false);
+    assert.equal(isValid(position('5rk1/8/8/8/8/8/8/R3K2R w KQ - 0 1'), 'e1', 'g1'), false);
+    assert.equal(isValid(position('4k3/8/8/8/8/8/8/R3K2R w Q - 0 1'), 'e1', 'g1'), false);
+  });
+});
+
+describe('getPossibleMoves', () => {
+  it('liste les cases atteignables par une pièce', () => {
+    const gameState = createInitialGameState();
+    assert.deepEqual(targets(getPossibleMoves(gameState.board, sq('b1'), gameState.removedSquares, gameState)), ['a3', 'c3']);
+    assert.deepEqual(targets(getPossibleMoves(gameState.board, sq('e4'), gameState.removedSquares, gameState)), []);
+  });
+
+  it('exclut les cases supprimées et survole celles du chemin', () => {
+    const gameState = position('4k3/8/8/8/8/8/8/R3K3 w - - 0 1', 'a3,b1');
+    assert.deepEqual(
+      targets(getPossibleMoves(gameState.board, sq('a1'), gameState.removedSquares, gameState)),
+      ['a2', 'a4', 'a5', 'a6', 'a7', 'a8', 'c1', 'd1']
+    );
+  });
+
+  it('ne laisse pas une pièce clouée quitter la ligne du clouage', () => {
+    const gameState = position('4r1k1/8/8/8/8/8/4N3/4K3 w - - 0 1');
+    assert.deepEqual(targets(getPossibleMoves(gameState.board, sq('e2'), gameState.removedSquares, gameState)), []);
+  });
+
+  it('ne propose qu\'une case par promotion', () => {
+    const gameState = position('4k3/P7/8/8/8/8/8/4K3 w - - 0 1');
+    assert.deepEqual(targets(getPossibleMoves(gameState.board, sq('a7'), gameState.removedSquares, gameState)), ['a8']);
+  });
+});
+
+describe('makeMove', () => {
+  it('ouvre la prise en passant après un double pas', () => {
+    const gameState = createInitialGameState();
+    const result = makeMove(gameState.board, sq('e2'), sq('e4'), gameState);
+    assert.deepEqual(result.enPassantTarget, sq('e3'));
+    assert.equal(result.board[6][4], null);
+    assert.deepEqual(result.board[4][4], { type: 'pawn', color: 'white' });
+  });
+
+  it('retire le pion pris en passant', () => {
+    const gameState = play(position('4k3/3p4/8/4P3/8/8/8/4K3 b - - 0 1'), 'd7d5');
+    const result = makeMove(gameState.board, sq('e5'), sq('d6'), gameState);
+    assert.equal(result.isEnPassant, true);
+    assert.equal(result.board[3][3], null);
+  });
+
+  it('déplace la tour lors du roque', () => {
+    const gameState = position('4k3/8/8/8/8/8/8/R3K2R w KQ - 0 1');
+    const result = makeMove(gameState.board, sq('e1'), sq('c1'), gameState);
+    assert.equal(result.isCastling, true);
+    assert.deepEqual(result.rookMove, { from: sq('a1'), to: sq('d1') });
+    assert.deepEqual(result.board[7][3], { type: 'rook', color: 'white' });
+  });
+
+  it('promeut en dame par défaut, ou en la pièce choisie', () => {
+    const gameState = position('4k3/P7/8/8/8/8/8/4K3 w - - 0 1');
+    assert.ok(isPromotionMove(gameState.board, sq('a7'), sq('a8')));
+    assert.equal(isPromotionMove(gameState.board, sq('e1'), sq('e2')), false);
+    assert.deepEqual(makeMove(gameState.board, sq('a7'), sq('a8'), gameState).board[0][0], { type: 'queen', color: 'white' });
+    const result = makeMove(gameState.board, sq('a7'), sq('a8'), gameState, 'knight');
+    assert.equal(result.promotion, 'knight');
+    assert.deepEqual(result.board[0][0], { type: 'knight', color: 'white' });
+  });
+
+  it('ne modifie pas le plateau d\'origine', () => {
+    const gameState = createInitialGameState();
+    makeMove(gameState.board, sq('e2'), sq('e4'), gameState);
+    assert.deepEqual(gameState.board, initializeBoard());
+  });
+});
+
+describe('updateCastlingRights', () => {
+  const gameState = position('r3k2r/8/8/8/8/8/8/R3K2R w KQkq - 0 1');
+
+  it('retire les deux roques quand le roi bouge', () => {
+    const next = updateCastlingRights(gameState, sq('e1'), sq('e2'));
+    assert.equal(next.kingMoved.white, true);
+    assert.equal(next.castlingRights.whiteKingside, false);
+    assert.equal(next.castlingRights.whiteQueenside, false);
+    assert.equal(next.castlingRights.blackKingside, true);
+  });
+
+  it('retire le roque du côté de la tour qui bouge ou qui est prise', () => {
+    const rookMove = updateCastlingRights(gameState, sq('h1'), sq('h5'));
+    assert.equal(rookMove.castlingRights.whiteKingside, false);
+    assert.equal(rookMove.castlingRights.whiteQueenside, true);
+
+    const capture = updateCastlingRights(gameState, sq('a1'), sq('a8'));
+    assert.equal(capture.castlingRights.whiteQueenside, false);
+    assert.equal(capture.castlingRights.blackQueenside, false);
+    assert.equal(capture.castlingRights.blackKingside, true);
+  });
+});
+
+describe('roque en rangées draftées', () => {
+  it('se joue vers la tour quand le roi ne bouge que d\'une colonne, vers c ou g sinon', () => {
+    const gameState = position('1r2k2r/8/8/8/8/8/8/1R3K1R w KQkq - 0 1');
+    const moves = targets(getPossibleMoves(gameState.board, sq('f1'), gameState.removedSquares, gameState));
+    assert.ok(moves.includes('h1'));
+    assert.ok(moves.includes('c1'));
+    assert.ok(isValid(gameState, 'f1', 'g1'));
+
+    const { gameState: next } = applyMove(gameState, sq('f1'), sq('h1'));
+    assert.deepEqual(next.board[7][6], { type: 'king', color: 'white' });
+    assert.deepEqual(next.board[7][5], { type: 'rook', color: 'white' });
+    assert.equal(next.board[7][7], null);
+    const record = next.history[0];
+    assert.equal(record.type === 'move' && record.castling, 'kingside');
+    assert.equal(record.type === 'move' && record.captured, undefined);
+    assert.equal(record.notation, 'O-O');
+    assert.equal(next.castlingRights.whiteQueenside, false);
+  });
+
+  it('pose le roi sur la case de départ de la tour', () => {
+    const gameState = position('4k3/8/8/8/8/8/8/RK6 w Q - 0 1');
+    const result = makeMove(gameState.board, sq('b1'), sq('a1'), gameState);
+    assert.equal(result.isCastling, true);
+    assert.deepEqual(result.board[7][2], { type: 'king', color: 'white' });
+    assert.deepEqual(result.board[7][3], { type: 'rook', color: 'white' });
+    assert.equal(result.board[7][0], null);
+    assert.equal(result.board[7][1], null);
+  });
+
+  it('refuse le roque si le roi traverse une case attaquée', () => {
+    const gameState = position('4r1k1/8/8/8/8/8/8/1K5R w K - 0 1');
+    assert.equal(isValid(gameState, 'b1', 'h1'), false);
+    assert.equal(isValid(gameState, 'b1', 'g1'), false);
+    assert.ok(isValid(position('6k1/8/8/8/8/8/8/1K5R w K - 0 1'), 'b1', 'g1'));
+  });
+
+  it('lit et écrit une tour de roque intérieure en notation X-FEN', () => {
+    const gameState = position('4k3/8/8/8/8/8/8/RKR4R w CQ - 0 1');
+    assert.equal(gameState.castlingRooks.whiteKingside, 2);
+    assert.equal(gameState.castlingRooks.whiteQueenside, 0);
+    assert.equal(toFEN(gameState, 3).split(' ')[2], 'CQ');
+    assert.equal(position('4k3/8/8/8/8/8/8/RKR4R w KQ - 0 1').castlingRooks.whiteKingside, 7);
+  });
+});
+
+describe('échec, mat et pat', () => {
+  it('trouve le roi', () => {
+    assert.deepEqual(findKing(initializeBoard(), 'black'), sq('e8'));
+    assert.equal(findKing(initializeDraftBoard(), 'white'), null);
+  });
+
+  it('voit l\'échec d\'une pièce longue à travers les cases supprimées', () => {
+    const gameState = position('R3k3/8/8/8/8/8/8/4K3 b - - 0 1', 'b8,c8,d8');
+    const blocked = position('Rn2k3/8/8/8/8/8/8/4K3 b - - 0 1', 'c8,d8');
+    assert.ok(isInCheck(gameState.board, 'black', gameState.removedSquares));
+    assert.equal(isInCheck(gameState.board, 'white', gameState.removedSquares), false);
+    assert.equal(isInCheck(blocked.board, 'black', blocked.removedSquares), false);
+  });
+
+  it('détecte le mat du berger', () => {
+    const gameState = play(createInitialGameState(), 'e2e4', 'e7e5', 'f1c4', 'b8c6', 'd1h5', 'g8f6', 'h5f7');
+    assert.ok(isCheckmate(gameState.board, 'black', gameState.removedSquares, gameState));
+    assert.equal(isCheckmate(gameState.board, 'white', gameState.removedSquares, gameState), false);
+  });
+
+  it('détecte un mat dû aux cases supprimées autour du roi', () => {
+    const open = position('4k3/8/4K3/8/8/8/8/R7 w - - 0 1');
+    const mated = play(position('4k3/8/8/8/8/8/8/R3K3 w - - 0 1', 'd7,e7,f7'), 'a1a8');
+    assert.ok(isCheckmate(mated.board, 'black', mated.removedSquares, mated));
+    const escape = play(open, 'a1a7');
+    assert.equal(isCheckmate(escape.board, 'black', escape.removedSquares, escape), false);
+  });
+
+  it('détecte le pat, sauf s\'il reste une suppression à jouer', () => {
+    const gameState = position('k7/8/1QK5/8/8/8/8/8 b - - 0 1');
+    assert.ok(isStalemate(gameState.board, 'black', gameState.removedSquares, gameState));
+    assert.equal(isStalemate(gameState.board, 'black', gameState.removedSquares, gameState, 1), false);
+    assert.equal(isStalemate(gameState.board, 'white', gameState.removedSquares, gameState), false);
+  });
+
+  it('compte les coups légaux et détaille chaque promotion', () => {
+    const gameState = createInitialGameState();
+    assert.equal(getAllValidMoves(gameState.board, 'white', gameState.removedSquares, gameState).length, 20);
+
+    const promotion = position('4k3/P7/8/8/8/8/8/4K3 w - - 0 1');
+    const promotions = getAllValidMoves(promotion.board, 'white', promotion.removedSquares, promotion)
+      .filter(move => move.promotion);
+    assert.deepEqual(promotions.map(move => move.promotion).sort(), [...PROMOTION_PIECES].sort());
+  });
+});
+
+describe('matériel', () => {
+  it('sait qui peut encore mater', () => {
+    assert.ok(hasMatingMaterial(position('4k3/8/8/8/8/8/4P3/4K3 w - - 0 1').board, 'white'));
+    assert.equal(hasMatingMaterial(position('4k3/8/8/8/8/8/4N3/4K3 w - - 0 1').board, 'white'), false);
+    assert.ok(hasMatingMaterial(position('4k3/8/8/8/8/8/3BN3/4K3 w - - 0 1').board, 'white'));
+  });
+
+  it('reconnaît le matériel insuffisant', () => {
+    assert.ok(isInsufficientMaterial(position('4k3/8/8/8/8/8/8/4K3 w - - 0 1').board));
+    assert.ok(isInsufficientMaterial(position('4k3/8/8/8/8/8/4B3/4K3 w - - 0 1').board));
+    assert.ok(isInsufficientMaterial(position('2b1k3/8/8/8/8/8/4B3/4K3 w - - 0 1').board));
+    assert.equal(isInsufficientMaterial(position('3bk3/8/8/8/8/8/4B3/4K3 w - - 0 1').board), false);
+    assert.equal(isInsufficientMaterial(position('4k3/8/8/8/8/8/3NN3/4K3 w - - 0 1').board), false);
+  });
+});
+
+describe('getPositionKey', () => {
+  it('ne tient compte de la prise en passant que si elle est jouable', () => {
+    const withoutCapture = play(createInitialGameState(), 'e2e4');
+    const sameBoard = { ...withoutCapture, enPassantTarget: null };
+    assert.equal(getPositionKey(withoutCapture), getPositionKey(sameBoard));
+
+    const withCapture = play(position('4k3/3p4/8/4P3/8/8/8/4K3 b - - 0 1'), 'd7d5');
+    assert.notEqual(getPositionKey(withCapture), getPositionKey({ ...withCapture, enPassantTarget: null }));
+  });
+
+  it('distingue les cases supprimées et le trait', () => {
+    const gameState = createInitialGameState();
+    assert.notEqual(getPositionKey(gameState), getPositionKey({ ...gameState, removedSquares: new Set(['4-4']) }));
+    assert.notEqual(getPositionKey(gameState), getPositionKey({ ...gameState, currentPlayer: 'black' }));
+  });
+});
+
+describe('applyMove', () => {
+  it('passe le trait et met à jour les compteurs', () => {
+    const afterPawn = play(createInitialGameState(), 'e2e4');
+    assert.equal(afterPawn.currentPlayer, 'black');
+    assert.equal(afterPawn.halfmoveClock, 0);
+    assert.equal(afterPawn.fullmoveNumber, 1);
+
+    const afterKnights = play(afterPawn, 'g8f6', 'g1f3');
+    assert.equal(afterKnights.halfmoveClock, 2);
+    assert.equal(afterKnights.fullmoveNumber, 2);
+    assert.equal(afterKnights.positionHistory.length, 4);
+  });
+
+  it('note les coups en notation algébrique', () => {
+    const gameState = play(createInitialGameState(), 'e2e4', 'e7e5', 'f1c4', 'b8c6', 'd1h5', 'g8f6', 'h5f7');
+    assert.deepEqual(
+      gameState.history.map(record => record.notation),
+      ['e4', 'e5', 'Bc4', 'Nc6', 'Qh5', 'Nf6', 'Qxf7#']
+    );
+  });
+
+  it('lève l\'ambiguïté entre deux pièces identiques', () => {
+    const gameState = play(position('4k3/8/8/8/8/8/4K3/R6R w - - 0 1'), 'a1d1');
+    assert.equal(gameState.history[0].notation, 'Rad1');
+  });
+
+  it('note le roque et l\'échec', () => {
+    const castled = play(position('4k3/8/8/8/8/8/8/R3K2R w KQ - 0 1'), 'e1g1');
+    assert.equal(castled.history[0].notation, 'O-O');
+    assert.equal(castled.castlingRights.whiteQueenside, false);
+
+    const check = play(position('4k3/8/8/8/8/8/8/R3K3 w - - 0 1'), 'a1a8');
+    assert.equal(check.history[0].notation, 'Ra8+');
+  });
+
+  it('refuse de jouer depuis une case vide', () => {
+    assert.throws(() => applyMove(createInitialGameState(), sq('e4'), sq('e5')), /Aucune pièce en e4/);
+  });
+});
+
+describe('suppressions de cases', () => {
+  it('supprime la case et passe le trait', () => {
+    const gameState = applyRemoval(createInitialGameState(), sq('e4'));
+    assert.ok(gameState.removedSquares.has('4-4'));
+    assert.deepEqual(gameState.removalsUsed, { white: 1, black: 0 });
+    assert.equal(gameState.currentPlayer, 'black');
+    assert.equal(gameState.history[0].notation, '@e4');
+    assert.equal(gameState.positionHistory.length, 2);
+  });
+
+  it('remet à zéro la règle des 50 coups et efface la prise en passant', () => {
+    const gameState = applyRemoval({ ...play(createInitialGameState(), 'e2e4'), halfmoveClock: 12 }, sq('d5'));
+    assert.equal(gameState.halfmoveClock, 0);
+    assert.equal(gameState.enPassantTarget, null);
+    assert.equal(gameState.fullmoveNumber, 2);
+  });
+
+  it('n\'autorise que les cases vides, non supprimées, dans la limite du budget et hors échec', () => {
+    const gameState = position('4k3/8/8/8/8/8/8/R3K3 b - - 0 1', 'd4');
+    assert.ok(isValidRemoval(gameState, sq('e4'), 3));
+    assert.equal(isValidRemoval(gameState, sq('d4'), 3), false);
+    assert.equal(isValidRemoval(gameState, sq('a1'), 3), false);
+    assert.equal(isValidRemoval({ ...gameState, removalsUsed: { white: 0, black: 3 } }, sq('e4'), 3), false);
+
+    const inCheck = position('R3k3/8/8/8/8/8/8/4K3 b - - 0 1');
+    assert.equal(isValidRemoval(inCheck, sq('e4'), 3), false);
+  });
+});
+
+describe('réouverture et cases temporaires', () => {
+  it('rouvre une case supprimée sur un budget distinct', () => {
+    const gameState = applyRestore(position('4k3/8/8/8/8/8/8/4K3 w - - 0 1', 'd4'), sq('d4'));
+    assert.equal(gameState.removedSquares.has('4-3'), false);
+    assert.deepEqual(gameState.restoresUsed, { white: 1, black: 0 });
+    assert.deepEqual(gameState.removalsUsed, { white: 0, black: 0 });
+    assert.equal(gameState.currentPlayer, 'black');
+    assert.equal(gameState.history[0].notation, '=@d4');
+  });
+
+  it('n\'autorise que les cases supprimées, dans la limite du budget, sans exposer son roi', () => {
+    const gameState = position('4k3/8/8/8/8/8/8/4K3 w - - 0 1', 'd4');
+    assert.ok(isValidRestore(gameState, sq('d4'), 1));
+    assert.equal(isValidRestore(gameState, sq('e4'), 1), false);
+    assert.equal(isValidRestore(gameState, sq('d4'), 0), false);
+
+    const shielded = withRules(position('R3k3/8/8/8/8/8/8/4K3 b - - 0 1', 'c8'), { blockSliders: true });
+    assert.equal(isValidRestore(shielded, sq('c8'), 1), false);
+  });
+
+  it('fait revenir une case temporaire après le nombre de demi-coups choisi', () => {
+    let gameState = applyRemoval(withRules(createInitialGameState(), { lifetime: 3 }), sq('e4'));
+    assert.deepEqual(getRemovalCountdowns(gameState), { '4-4': 3 });
+
+    gameState = play(gameState, 'e7e6', 'g1f3');
+    assert.deepEqual(getRemovalCountdowns(gameState), { '4-4': 1 });
+    assert.ok(gameState.removedSquares.has('4-4'));
+
+    gameState = play(gameState, 'b8c6');
+    assert.equal(gameState.removedSquares.has('4-4'), false);
+    assert.deepEqual(gameState.removalExpiry, {});
+    assert.equal(gameState.halfmoveClock, 0);
+  });
+
+  it('vérifie l\'échec après le retour des cases qui expirent à ce demi-coup', () => {
+    const start = withRules(position('k3r3/8/8/8/8/8/7P/4K3 w - - 0 1'), { blockSliders: true, lifetime: 2 });
+    const gameState = play(applyRemoval(start, sq('e4')), 'a8a7');
+    assert.ok(gameState.removedSquares.has('4-4'));
+
+    const moves = getAllValidMoves(gameState.board, 'white', gameState.removedSquares, gameState)
+      .map(move => squareToAlgebraic(move.from) + squareToAlgebraic(move.to))
+      .sort();
+    assert.deepEqual(moves, ['e1d1', 'e1d2', 'e1f1', 'e1f2']);
+    assert.ok(isInCheckAfterPly(gameState, makeMove(gameState.board, sq('h2'), sq('h3'), gameState).board));
+    assert.equal(isValidRemoval(gameState, sq('a1'), 3), false);
+  });
+
+  it('conserve en FEN les réouvertures restantes et le délai des cases temporaires', () => {
+    let gameState = applyRemoval(withRules(createInitialGameState(), { lifetime: 3 }), sq('e4'));
+    gameState = applyRestore(applyRemoval(gameState, sq('d5')), sq('d5'));
+    const fen = toFEN(gameState, 3, 2);
+    assert.equal(fen, 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR b KQkq - 0 2 e4:1 2/2,1/2 -');
+
+    const parsed = parseFEN(fen, 3, 5, gameState.removedSquareRules, 2);
+    assert.deepEqual(parsed.restoresUsed, gameState.restoresUsed);
+    assert.deepEqual(getRemovalCountdowns(parsed), getRemovalCountdowns(gameState));
+    assert.equal(toFEN(parsed, 3, 2), fen);
+    assert.equal(play(parsed, 'e7e6').removedSquares.has('4-4'), false);
+  });
+
+  it('ne tient pas pour pat un joueur qui peut encore rouvrir une case', () => {
+    const gameState = position('k7/2Q5/8/8/8/8/8/4K3 b - - 0 1', 'h1');
+    assert.ok(isStalemate(gameState.board, 'black', gameState.removedSquares, gameState));
+    assert.equal(isStalemate(gameState.board, 'black', gameState.removedSquares, gameState, 0, 1), false);
+    assert.equal(getGameResult(gameState, 0, 1), null);
+  });
+});
+
+describe('règles des cases supprimées', () => {
+  it('arrête les pièces longues devant une case supprimée si la règle le demande', () => {
+    const gameState = withRules(position('4k3/8/8/8/8/8/8/R2BK3 w - - 0 1', 'a3,c2'), { blockSliders: true });
+    assert.equal(isValid(gameState, 'a1', 'a8'), false);
+    assert.equal(isValid(gameState, 'a1', 'a2'), true);
+    assert.deepEqual(targets(getPossibleMoves(gameState.board, sq('d1'), gameState.removedSquares, gameState)), [
+      'e2', 'f3', 'g4', 'h5',
+    ]);
+  });
+
+  it('ne voit plus l\'échec à travers une case supprimée qui bloque', () => {
+    const gameState = position('R3k3/8/8/8/8/8/8/4K3 b - - 0 1', 'c8');
+    assert.ok(isInCheck(gameState.board, 'black', gameState.removedSquares, gameState.removedSquareRules));
+    assert.equal(isInCheck(gameState.board, 'black', gameState.removedSquares, { ...gameState.removedSquareRules, blockSliders: true }), false);
+  });
+
+  it('laisse une suppression parer l\'échec d\'une pièce longue, mat compris', () => {
+    const inCheck = withRules(position('R3k3/8/8/8/8/8/8/4K3 b - - 0 1'), { blockSliders: true });
+    assert.ok(isValidRemoval(inCheck, sq('c8'), 3));
+    assert.equal(isValidRemoval(inCheck, sq('e4'), 3), false);
+
+    const mated = withRules(play(position('4k3/8/8/8/8/8/8/R3K3 w - - 0 1', 'd7,e7,f7'), 'a1a8'), { blockSliders: true });
+    assert.equal(isCheckmate(mated.board, 'black', mated.removedSquares, mated, 1), false);
+    assert.ok(isCheckmate(mated.board, 'black', mated.removedSquares, mated, 0));
+  });
+
+  it('n\'annonce le mat qu\'une fois les suppressions épuisées, et l\'échec découvert par une case', () => {
+    const gameState = withRules(position('4k3/8/8/8/8/8/8/R3K3 w - - 0 1', 'd7,e7,f7'), { blockSliders: true });
+    assert.equal(applyMove(gameState, sq('a1'), sq('a8'), undefined, 3).gameState.history[0].notation, 'Ra8+');
+    assert.equal(applyMove(gameState, sq('a1'), sq('a8'), undefined, 0).gameState.history[0].notation, 'Ra8#');
+
+    const shielded = withRules(position('R3k3/8/8/8/8/8/8/4K3 w - - 0 1', 'c8'), { blockSliders: true });
+    assert.equal(applyRestore(shielded, sq('c8'), 3).history[0].notation, '=@c8+');
+  });
+
+  it('interdit le double pas au-dessus d\'une case supprimée si la règle le demande', () => {
+    const gameState = withRules(position('4k3/8/8/8/8/8/4P3/4K3 w - - 0 1', 'e3'), { pawnDoublePushOver: false });
+    assert.equal(isValid(gameState, 'e2', 'e4'), false);
+    assert.deepEqual(getAllValidMoves(gameState.board, 'white', gameState.removedSquares, gameState)
+      .filter(move => squareToAlgebraic(move.from) === 'e2'), []);
+  });
+
+  it('permet de roquer à travers une case où ni le roi ni la tour ne s\'arrêtent', () => {
+    const through = withRules(position('4k3/8/8/8/8/8/8/R3K3 w Q - 0 1', 'b1'), { castleThrough: true });
+    assert.equal(isValid(through, 'e1', 'c1'), true);
+    assert.ok(getAllValidMoves(through.board, 'white', through.removedSquares, through)
+      .some(move => squareToAlgebraic(move.to) === 'c1' && squareToAlgebraic(move.from) === 'e1'));
+
+    const landing = withRules(position('4k3/8/8/8/8/8/8/R3K3 w Q - 0 1', 'd1'), { castleThrough: true });
+    assert.equal(isValid(landing, 'e1', 'c1'), false);
+  });
+});
+
+describe('draft', () => {
+  it('n\'autorise le placement que sur sa dernière rangée, sur une case libre', () => {
+    const gameState = createDraftGameState();
+    assert.ok(isValidDraftPlacement(gameState, 'king', sq('e1')));
+    assert.equal(isValidDraftPlacement(gameState, 'king', sq('e8')), false);
+    assert.equal(isValidDraftPlacement(gameState, 'king', sq('e2')), false);
+
+    const afterPlacement = applyDraftPlacement(gameState, 'king', sq('e1'));
+    assert.equal(isValidDraftPlacement(afterPlacement, 'king', sq('e8')), true);
+    assert.equal(isValidDraftPlacement(afterPlacement, 'king', sq('e1')), false);
+  });
+
+  it('refuse une pièce absente de la réserve', () => {
+    const gameState = applyDraftPlacement(applyDraftPlacement(createDraftGameState(), 'king', sq('e1')), 'king', sq('e8'));
+    assert.equal(isValidDraftPlacement(gameState, 'king', sq('d1')), false);
+  });
+
+  it('alterne les joueurs puis lance la partie avec les blancs au trait', () => {
+    let gameState = createDraftGameState();
+    const order = getAvailableDraftPieces();
+    order.forEach((piece, col) => {
+      gameState = applyDraftPlacement(gameState, piece, [7, col]);
+      assert.equal(gameState.draftState?.currentDraftPlayer, 'black');
+      gameState = applyDraftPlacement(gameState, piece, [0, col]);
+    });
+
+    assert.equal(gameState.draftState, undefined);
+    assert.equal(gameState.currentPlayer, 'white');
+    assert.equal(gameState.history.length, 16);
+    assert.equal(gameState.history[0].notation, 'K@a1');
+    assert.deepEqual(gameState.positionHistory, [getPositionKey(gameState)]);
+  });
+
+  it('déduit les droits de roque des tours réellement placées', () => {
+    let gameState = createDraftGameState();
+    getAvailableDraftPieces().forEach((piece, col) => {
+      gameState = applyDraftPlacement(applyDraftPlacement(gameState, piece, [7, col]), piece, [0, col]);
+    });
+
+    // Roi en a1, tours en c1 et d1 : seul le roque côté roi, avec la tour la plus extérieure
+    assert.equal(gameState.castlingRights.whiteKingside, true);
+    assert.equal(gameState.castlingRights.whiteQueenside, false);
+    assert.equal(gameState.castlingRooks.whiteKingside, 3);
+    assert.equal(gameState.castlingRooks.blackKingside, 3);
+  });
+
+  it('suit l\'ordre serpent 1-2-2 jusqu\'à la fin du draft', () => {
+    let gameState = createDraftGameState(5, undefined, 'snake');
+    const pieces = getAvailableDraftPieces();
+    const placed = { white: 0, black: 0 };
+    const order: string[] = [];
+    while (gameState.draftState) {
+      const player = gameState.draftState.currentDraftPlayer;
+      order.push(player[0]);
+      const col = placed[player]++;
+      gameState = applyDraftPlacement(gameState, pieces[col], [player === 'white' ? 7 : 0, col]);
+    }
+    assert.equal(order.join(''), 'wbbwwbbwwbbwwbbw');
+    assert.equal(gameState.currentPlayer, 'white');
+  });
+
+  it('cache le premier choix de la manche à l\'aveugle puis révèle les deux ensemble', () => {
+    const committed = applyDraftPlacement(createDraftGameState(5, undefined, 'blind'), 'king', sq('e1'));
+    assert.equal(committed.board[7][4], null);
+    assert.equal(committed.history.length, 0);
+    assert.equal(committed.draftState?.currentDraftPlayer, 'black');
+    assert.equal(committed.draftState?.hiddenPlacement?.notation, 'K@e1');
+
+    const revealed = applyDraftPlacement(committed, 'queen', sq('d8'));
+    assert.equal(revealed.board[7][4]?.type, 'king');
+    assert.equal(revealed.board[0][3]?.type, 'queen');
+    assert.deepEqual(revealed.history.map(record => record.notation), ['K@e1', 'Q@d8']);
+    assert.equal(revealed.draftState?.hiddenPlacement, null);
+    assert.equal(revealed.draftState?.currentDraftPlayer, 'white');
+  });
+
+  it('ignore le choix caché dans le test d\'échec et fait choisir à nouveau après une paire incompatible', () => {
+    const setup = { reserve: DEFAULT_DRAFT_RESERVE, zone: 'half' as const, constraints: [] };
+    const committed = applyDraftPlacement(createDraftGameState(5, undefined, 'blind', 0, null, setup), 'rook', sq('e4'));
+    // La tour cachée au contact ne doit pas se deviner
+    assert.ok(isValidDraftPlacement(committed, 'king', sq('e5')));
+
+    const conflict = applyDraftPlacement(committed, 'king', sq('e5'));
+    assert.equal(conflict.board[4][4]?.type, 'rook');
+    assert.equal(conflict.board[3][4], null);
+    assert.deepEqual(conflict.history.map(record => record.notation), ['R@e4']);
+    assert.ok(conflict.draftState?.availablePieces.black.includes('king'));
+    assert.equal(conflict.draftState?.currentDraftPlayer, 'black');
+    assert.ok(isBlindDraftRepick(conflict));
+    assert.ok(!isValidDraftPlacement(conflict, 'king', sq('e5')));
+
+    // Le nouveau choix est posé aussitôt et la manche suivante s'ouvre sur un choix caché des Blancs
+    const repicked = applyDraftPlacement(conflict, 'king', sq('d8'));
+    assert.deepEqual(repicked.history.map(record => record.notation), ['R@e4', 'K@d8']);
+    assert.equal(repicked.draftState?.hiddenPlacement, null);
+    assert.equal(repicked.draftState?.currentDraftPlayer, 'white');
+    assert.ok(!isBlindDraftRepick(repicked));
+    assert.ok(applyDraftPlacement(repicked, 'king', sq('g1')).draftState?.hiddenPlacement);
+  });
+
+  it('tire au sort une dernière rangée Chess960 reproductible à partir de la graine', () => {
+    const gameState = createDraftGameState(5, undefined, 'random', 42);
+    assert.equal(gameState.draftState, undefined);
+    assert.deepEqual(createDraftGameState(5, undefined, 'random', 42).board, gameState.board);
+
+    const rank = gameState.board[7].map(piece => piece?.type);
+    const bishops = rank.flatMap((type, col) => (type === 'bishop' ? [col % 2] : []));
+    const rooks = rank.flatMap((type, col) => (type === 'rook' ? [col] : []));
+    const king = rank.indexOf('king');
+    assert.deepEqual([...bishops].sort(), [0, 1]);
+    assert.ok(rooks[0] < king && king < rooks[1]);
+    assert.deepEqual(gameState.board[0].map(piece => piece?.type), rank);
+    assert.deepEqual(gameState.castlingRooks, {
+      whiteKingside: rooks[1],
+      whiteQueenside: rooks[0],
+      blackKingside: rooks[1],
+      blackQueenside: rooks[0],
+    });
+  });
+});
+
+describe('reprise, vérification et chrono du draft', () => {
+  it('reprend un placement tant que l\'adversaire n\'a pas joué', () => {
+    const placed = applyDraftPlacement(createDraftGameState(), 'queen', sq('d1'));
+    assert.equal(getUndoableDraftPlayer(placed), 'white');
+
+    const undone = undoDraftPlacement(placed);
+    assert.equal(undone.board[7][3], null);
+    assert.equal(undone.history.length, 0);
+    assert.equal(undone.draftState?.currentDraftPlayer, 'white');
+    assert.deepEqual(undone.draftState?.availablePieces.white, getAvailableDraftPieces());
+
+    const answered = applyDraftPlacement(placed, 'king', sq('e8'));
+    assert.equal(getUndoableDraftPlayer(answered), 'black');
+    assert.equal(undoDraftPlacement(answered).board[7][3]?.type, 'queen');
+  });
+
+  it('rend la paire du serpent et le choix caché de l\'aveugle', () => {
+    let snake = createDraftGameState(5, undefined, 'snake');
+    snake = applyDraftPlacement(snake, 'king', sq('e1'));
+    snake = applyDraftPlacement(snake, 'king', sq('e8'));
+    const undone = undoDraftPlacement(snake);
+    assert.equal(undone.draftState?.currentDraftPlayer, 'black');
+    assert.equal(undone.draftState?.placementsLeftInTurn, 2);
+
+    const blind = applyDraftPlacement(createDraftGameState(5, undefined, 'blind'), 'king', sq('e1'));
+    assert.equal(getUndoableDraftPlayer(blind), 'white');
+    assert.equal(undoDraftPlacement(blind).draftState?.hiddenPlacement, null);
+    assert.equal(getUndoableDraftPlayer(applyDraftPlacement(blind, 'king', sq('e8'))), null);
+  });
+
+  it('attend la validation des deux joueurs puis lance le chrono de partie', () => {
+    let gameState = createDraftGameState(5, undefined, 'alternate', 0, null, undefined, 1, true);
+    assert.deepEqual(gameState.timeLeft, { white: 60000, black: 60000 });
+    getAvailableDraftPieces().forEach((piece, col) => {
+      gameState = applyDraftPlacement(applyDraftPlacement(gameState, piece, [7, col]), piece, [0, col]);
+    });
+
+    assert.equal(gameState.draftState?.phase, 'review');
+    assert.equal(getUndoableDraftPlayer(gameState), 'black');
+    gameState = confirmDraft(gameState);
+    assert.equal(gameState.draftState?.currentDraftPlayer, 'black');
+    assert.equal(getUndoableDraftPlayer(gameState), null);
+
+    gameState = confirmDraft(gameState);
+    assert.equal(gameState.draftState, undefined);
+    assert.equal(gameState.currentPlayer, 'white');
+    assert.deepEqual(gameState.timeLeft, { white: 300000, black: 300000 });
+    assert.deepEqual(gameState.positionHistory, [getPositionKey(gameState)]);
+  });
+});
+
+describe('réserve et zone de draft', () => {
+  it('refuse une réserve sans roi unique ou trop grande pour la zone', () => {
+    const reserve = { ...DEFAULT_DRAFT_RESERVE, queen: 2 };
+    assert.ok(getDraftSetupError({ reserve, zone: 'backRank', constraints: [] }));
+    assert.equal(getDraftSetupError({ reserve, zone: 'half', constraints: [] }), null);
+    assert.ok(getDraftSetupError({ reserve: { ...DEFAULT_DRAFT_RESERVE, king: 0 }, zone: 'half', constraints: [] }));
+    assert.equal(getDraftSetupError({ reserve: { ...DEFAULT_DRAFT_RESERVE, pawn: 8 }, zone: 'backRank', constraints: [] }), null);
+  });
+
+  it('draft aussi les pions, jamais sur la dernière rangée, dans toute sa moitié', () => {
+    const reserve = { ...DEFAULT_DRAFT_RESERVE, pawn: 8 };
+    const gameState = createDraftGameState(5, undefined, 'alternate', 0, null, { reserve, zone: 'half', constraints: [] });
+    assert.equal(gameState.board[6][0], null);
+    assert.equal(gameState.draftState?.availablePieces.white.length, 16);
+    assert.equal(isValidDraftPlacement(gameState, 'pawn', sq('e1')), false);
+    assert.ok(isValidDraftPlacement(gameState, 'pawn', sq('e4')));
+    assert.ok(isValidDraftPlacement(gameState, 'queen', sq('d4')));
+    assert.equal(isValidDraftPlacement(gameState, 'queen', sq('d5')), false);
+  });
+
+  it('interdit un placement qui met un roi en échec', () => {
+    let gameState = createDraftGameState(5, undefined, 'alternate', 0, null, {
+      reserve: DEFAULT_DRAFT_RESERVE,
+      zone: 'half',
+      constraints: [],
+    });
+    gameState = applyDraftPlacement(gameState, 'king', sq('e1'));
+    gameState = applyDraftPlacement(gameState, 'king', sq('e6'));
+    assert.equal(isValidDraftPlacement(gameState, 'knight', sq('d4')), false);
+    assert.ok(isValidDraftPlacement(gameState, 'knight', sq('c3')));
+  });
+
+  it('applique les contraintes des fous et du roi', () => {
+    let gameState = createDraftGameState(5, undefined, 'alternate', 0, null, {
+      reserve: DEFAULT_DRAFT_RESERVE,
+      zone: 'backTwoRanks',
+      constraints: ['oppositeBishops', 'kingOnBackRank'],
+    });
+    assert.equal(isValidDraftPlacement(gameState, 'king', sq('e2')), false);
+    gameState = applyDraftPlacement(gameState, 'bishop', sq('c1'));
+    gameState = applyDraftPlacement(gameState, 'bishop', sq('c8'));
+    assert.equal(isValidDraftPlacement(gameState, 'bishop', sq('e1')), false);
+    assert.ok(isValidDraftPlacement(gameState, 'bishop', sq('f1')));
+  });
+
+  it('refuse un placement qui ne laisse plus de case à la réserve restante', () => {
+    let gameState = createDraftGameState(5, undefined, 'snake', 0, null, {
+      reserve: { ...DEFAULT_DRAFT_RESERVE, pawn: 8 },
+      zone: 'backTwoRanks',
+      constraints: ['oppositeBishops'],
+    });
+    // Les pions prennent toute la deuxième rangée : le second fou doit trouver une case claire en première
+    for (const [piece, square] of [['bishop', 'c1'], ['pawn', 'a7'], ['pawn', 'b7'], ['queen', 'd1'], ['rook', 'b1'],
+      ['pawn', 'c7'], ['pawn', 'd7'], ['knight', 'f1']] as [PieceType, string][]) {
+      gameState = applyDraftPlacement(gameState, piece, sq(square));
+    }
+    assert.equal(gameState.draftState?.currentDraftPlayer, 'white');
+    assert.equal(isValidDraftPlacement(gameState, 'rook', sq('h1')), false);
+    assert.ok(isValidDraftPlacement(gameState, 'rook', sq('a1')));
+  });
+
+  it('tient la réserve pour impossible à placer quand la recherche dépasse son budget', () => {
+    const { board, draftState } = createDraftGameState(5, undefined, 'alternate', 0, null, {
+      reserve: { king: 1, queen: 2, rook: 2, bishop: 4, knight: 2, pawn: 8 },
+      zone: 'half',
+      constraints: ['oppositeBishops', 'kingOnBackRank'],
+    });
+    assert.ok(draftState);
+    const reserve = draftState.availablePieces.white;
+    assert.ok(canCompleteDraftZone(board, draftState, 'white', reserve));
+    assert.equal(canCompleteDraftZone(board, draftState, 'white', reserve, 5), false);
+    // Le plateau de recherche est rendu intact
+    assert.ok(board.flat().every(piece => piece === null));
+  });
+
+  it('conserve en FEN la zone, les contraintes et l\'ordre d\'un draft en cours', () => {
+    let gameState = createDraftGameState(5, undefined, 'snake', 0, null, {
+      reserve: DEFAULT_DRAFT_RESERVE,
+      zone: 'half',
+      constraints: ['kingOnBackRank'],
+    }, 0, true);
+    gameState = applyDraftPlacement(applyDraftPlacement(gameState, 'king', sq('e1')), 'king', sq('e8'));
+    const fen = toFEN(gameState, 3);
+    assert.equal(fen.split(' ')[8], 'QRRBBNNqrrbbnn:half:kingOnBackRank:snake1:review');
+
+    const { draftState } = parseFEN(fen, 3);
+    assert.equal(draftState?.zone, 'half');
+    assert.deepEqual(draftState?.constraints, ['kingOnBackRank']);
+    assert.equal(draftState?.format, 'snake');
+    assert.equal(draftState?.placementsLeftInTurn, 1);
+    assert.equal(draftState?.review, true);
+    assert.throws(() => parseFEN(fen.replace(':half', ':center'), 3), FENParseError);
+  });
+});
+
+describe('armée à budget', () => {
+  it('refuse une armée sans roi unique, hors plafonds ou trop chère', () => {
+    assert.equal(getArmyError(['king', 'queen', 'rook', 'pawn'], 15), null);
+    assert.ok(getArmyError(['queen', 'rook'], 39));
+    assert.ok(getArmyError(['king', 'king'], 39));
+    assert.ok(getArmyError(['king', 'queen', 'queen', 'queen'], 39));
+    assert.ok(getArmyError(['king', 'queen', 'rook', 'pawn'], 14));
+  });
+
+  it('fait acheter les Blancs puis les Noirs avant d\'ouvrir le placement', () => {
+    const gameState = createDraftGameState(5, undefined, 'alternate', 0, 20);
+    assert.equal(isValidDraftPlacement(gameState, 'king', sq('e1')), false);
+    assert.equal(isValidArmyPurchase(gameState, ['king', 'queen', 'queen', 'pawn', 'pawn', 'pawn']), false);
+
+    const afterWhite = applyArmyPurchase(gameState, ['pawn', 'queen', 'king']);
+    assert.equal(afterWhite.draftState?.phase, 'shop');
+    assert.equal(afterWhite.draftState?.currentDraftPlayer, 'black');
+    assert.deepEqual(afterWhite.draftState?.availablePieces.white, ['king', 'queen', 'pawn']);
+
+    const afterBlack = applyArmyPurchase(afterWhite, ['king', 'rook', 'rook', 'pawn', 'pawn']);
+    assert.equal(afterBlack.draftState?.phase, 'placement');
+    assert.equal(afterBlack.draftState?.currentDraftPlayer, 'white');
+    assert.deepEqual(afterBlack.history.map(record => record.notation), ['K Q P', 'K 2R 2P']);
+    assert.ok(isValidDraftPlacement(afterBlack, 'king', sq('e1')));
+  });
+
+  it('garde les pions sur la deuxième rangée et leur laisse la place', () => {
+    let gameState = createDraftGameState(5, undefined, 'alternate', 0, 39);
+    const pawns = Array<'pawn'>(8).fill('pawn');
+    gameState = applyArmyPurchase(gameState, ['king', 'knight', ...pawns]);
+    gameState = applyArmyPurchase(gameState, ['king', 'knight', 'pawn']);
+
+    assert.equal(isValidDraftPlacement(gameState, 'pawn', sq('e1')), false);
+    assert.ok(isValidDraftPlacement(gameState, 'pawn', sq('e2')));
+    // Huit pions à poser : aucune pièce ne peut occuper la deuxième rangée
+    assert.equal(isValidDraftPlacement(gameState, 'knight', sq('e2')), false);
+    assert.ok(isValidDraftPlacement(gameState, 'knight', sq('g1')));
+
+    gameState = applyDraftPlacement(gameState, 'king', sq('e1'));
+    assert.ok(isValidDraftPlacement(gameState, 'knight', sq('f7')));
+  });
+});
+
+describe('fin de partie', () => {
+  it('déclare le mat, le pat et le matériel insuffisant', () => {
+    const mate = play(createInitialGameState(), 'f2f3', 'e7e5', 'g2g4', 'd8h4');
+    assert.deepEqual(getGameResult(mate, 3), { outcome: 'win', winner: 'black', reason: 'checkmate' });
+
+    const stalemate = position('k7/8/1QK5/8/8/8/8/8 b - - 0 1', '-', '3/0');
+    assert.deepEqual(getGameResult(stalemate, 3), { outcome: 'draw', winner: null, reason: 'stalemate' });
+    assert.equal(getGameResult(position('k7/8/1QK5/8/8/8/8/8 b - - 0 1'), 3), null);
+
+    const bare = position('4k3/8/8/8/8/8/8/4K3 w - - 0 1');
+    assert.deepEqual(getGameResult(bare, 3), { outcome: 'draw', winner: null, reason: 'insufficientMaterial' });
+  });
+
+  it('déclare la triple répétition', () => {
+    const start = createInitialGameState();
+    const repeated = play(start, 'g1f3', 'g8f6', 'f3g1', 'f6g8', 'g1f3', 'g8f6', 'f3g1', 'f6g8');
+    assert.equal(getGameResult(play(start, 'g1f3', 'g8f6', 'f3g1', 'f6g8'), 3), null);
+    assert.deepEqual(getGameResult(repeated, 3), { outcome: 'draw', winner: null, reason: 'threefoldRepetition' });
+  });
+
+  it('déclare la règle des 50 coups', () => {
+    const gameState = position('4k3/8/8/8/8/8/8/R3K3 w - - 99 80');
+    assert.equal(getGameResult(gameState, 3), null);
+    assert.deepEqual(getGameResult(play(gameState, 'a1a2'), 3), { outcome: 'draw', winner: null, reason: 'fiftyMoveRule' });
+  });
+
+  it('donne la nulle au temps si l\'adversaire ne peut plus mater', () => {
+    const gameState = position('4k3/8/8/8/8/8/4R3/4K3 w - - 0 1');
+    assert.deepEqual(getTimeoutResult(gameState, 'black'), { outcome: 'win', winner: 'white', reason: 'timeout' });
+    assert.deepEqual(getTimeoutResult(gameState, 'white'), { outcome: 'draw', winner: null, reason: 'timeout' });
+  });
+
+  it('fait perdre au temps pendant le draft, avant que l\'adversaire ait posé ses pièces', () => {
+    const drafting = applyDraftPlacement(createDraftGameState(5), 'king', sq('e1'));
+    assert.deepEqual(getTimeoutResult(drafting, 'black'), { outcome: 'win', winner: 'white', reason: 'timeout' });
+  });
+});
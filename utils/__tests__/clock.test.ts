@@ -0,0 +1,42 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { endTurn, formatTimeControl, getLiveTimeLeft, getTimeUntilFlag, TimeControl } from '@/utils/clock';
+
+const start = { white: 60000, black: 60000 };
+
+function control(mode: TimeControl['mode'], incrementMs: number = 2000): TimeControl {
+  return { mode, incrementMs };
+}
+
+describe('chronos', () => {
+  it('décompte le tour en cours sans toucher au chrono adverse', () => {
+    assert.deepEqual(getLiveTimeLeft(start, 'white', 1000, control('fischer'), 1750), { white: 59250, black: 60000 });
+    assert.deepEqual(getLiveTimeLeft(start, null, 1000, control('fischer'), 1750), start);
+    assert.deepEqual(getLiveTimeLeft(start, 'black', 0, control('fischer'), 90000), { white: 60000, black: 0 });
+  });
+
+  it('accorde l\'incrément Fischer après chaque tour', () => {
+    assert.deepEqual(endTurn(start, 'white', 0, control('fischer'), 5000), { white: 57000, black: 60000 });
+  });
+
+  it('rend au plus le délai en Bronstein', () => {
+    assert.deepEqual(endTurn(start, 'white', 0, control('bronstein'), 1500), start);
+    assert.deepEqual(endTurn(start, 'white', 0, control('bronstein'), 5000), { white: 57000, black: 60000 });
+  });
+
+  it('ne fait tourner le chrono qu\'après le délai simple', () => {
+    assert.deepEqual(getLiveTimeLeft(start, 'white', 0, control('delay'), 1500), start);
+    assert.deepEqual(endTurn(start, 'white', 0, control('delay'), 5000), { white: 57000, black: 60000 });
+    assert.equal(getTimeUntilFlag(start, 'white', 0, control('delay'), 1000), 61000);
+  });
+
+  it('transfère le temps dépensé à l\'adversaire en sablier', () => {
+    assert.deepEqual(endTurn(start, 'black', 0, control('hourglass'), 4000), { white: 64000, black: 56000 });
+  });
+
+  it('décrit la cadence choisie', () => {
+    assert.equal(formatTimeControl({ timeLimit: 5, clockMode: 'fischer', clockIncrement: 0 }), '5 min');
+    assert.equal(formatTimeControl({ timeLimit: 3, clockMode: 'fischer', clockIncrement: 2 }), '3+2');
+    assert.equal(formatTimeControl({ timeLimit: 5, clockMode: 'bronstein', clockIncrement: 3 }), '5+3 Bronstein');
+  });
+});
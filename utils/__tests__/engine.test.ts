@@ -0,0 +1,51 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { GameState, Position } from '@/types/chess';
+import { createInitialGameState } from '@/utils/chessLogic';
+import { evaluate, findBestAction } from '@/utils/engine';
+import { parseFEN } from '@/utils/fen';
+import { algebraicToSquare } from '@/utils/notation';
+
+function sq(square: string): Position {
+  const position = algebraicToSquare(square);
+  if (!position) throw new Error(`Case invalide : ${square}`);
+  return position;
+}
+
+function position(fen: string, removalsPerPlayer: number): GameState {
+  return parseFEN(`${fen} - ${removalsPerPlayer}/${removalsPerPlayer} -`, removalsPerPlayer);
+}
+
+describe('moteur', () => {
+  it('évalue la position du point de vue du joueur au trait', () => {
+    assert.equal(evaluate(createInitialGameState()), 0);
+    const gameState = position('4k3/8/8/3q4/8/8/3R4/4K3 w - - 0 1', 0);
+    assert.ok(evaluate(gameState) < 0);
+    assert.equal(evaluate({ ...gameState, currentPlayer: 'black' }), -evaluate(gameState));
+  });
+
+  it('prend la dame en prise d\'après la seule évaluation statique des feuilles', async () => {
+    const gameState = position('4k3/8/8/3q4/8/8/3R4/4K3 w - - 0 1', 0);
+    const action = await findBestAction(gameState, { removalsPerPlayer: 0, timeLimitMs: 5000, maxDepth: 1 });
+    assert.deepEqual(action, { type: 'move', from: sq('d2'), to: sq('d5') });
+  });
+
+  it('trouve le mat en un', async () => {
+    const gameState = position('6k1/5ppp/8/8/8/8/8/R5K1 w - - 0 1', 0);
+    const action = await findBestAction(gameState, { removalsPerPlayer: 0, timeLimitMs: 5000, maxDepth: 2 });
+    assert.deepEqual(action, { type: 'move', from: sq('a1'), to: sq('a8') });
+  });
+
+  it('supprime une case quand le roi pat n\'a plus de coup', async () => {
+    const stalemate = position('7k/8/8/8/8/8/2q5/K7 w - - 0 1', 1);
+    const action = await findBestAction(stalemate, { removalsPerPlayer: 1, timeLimitMs: 5000, maxDepth: 2 });
+    assert.equal(action?.type, 'removal');
+    assert.equal(await findBestAction(stalemate, { removalsPerPlayer: 0, timeLimitMs: 5000, maxDepth: 2 }), null);
+  });
+
+  it('rend null quand la recherche est annulée', async () => {
+    const cancelToken = { cancelled: true };
+    const action = await findBestAction(createInitialGameState(), { removalsPerPlayer: 0, timeLimitMs: 5000, cancelToken });
+    assert.equal(action, null);
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { GameSettings, GameState, Position } from '@/types/chess';
+import {
+  applyDraftPlacement,
+  applyMove,
+  applyRemoval,
+  applyRestore,
+  createDraftGameState,
+  createInitialGameState,
+  getAvailableDraftPieces,
+} from '@/utils/chessLogic';
+import { DEFAULT_DRAFT_SETUP } from '@/utils/draftSetup';
+import { DEFAULT_REMOVED_SQUARE_RULES } from '@/utils/moveGenerator';
+import { algebraicToSquare } from '@/utils/notation';
+import { exportPGN, parsePGN, PGNParseError } from '@/utils/pgn';
+
+const settings: GameSettings = {
+  timeLimit: 5,
+  clockMode: 'fischer',
+  clockIncrement: 0,
+  removalsPerPlayer: 3,
+  restoresPerPlayer: 1,
+  draftMode: false,
+  draftFormat: 'alternate',
+  draftSeed: 0,
+  armyMode: 'fixed',
+  armyBudget: 39,
+  draftSetup: DEFAULT_DRAFT_SETUP,
+  draftTimeLimit: 0,
+  draftReview: false,
+  opponent: 'human',
+  humanColor: 'white',
+  computerDraftStyle: 'balanced',
+  boardLayout: 'standard',
+  removedSquareRules: DEFAULT_REMOVED_SQUARE_RULES,
+};
+
+function sq(square: string): Position {
+  const position = algebraicToSquare(square);
+  if (!position) throw new Error(`Case invalide : ${square}`);
+  return position;
+}
+
+function play(gameState: GameState, ...moves: string[]): GameState {
+  return moves.reduce((state, move) => applyMove(state, sq(move.slice(0, 2)), sq(move.slice(2, 4)), undefined, 3).gameState, gameState);
+}
+
+// Ce qui doit survivre à l'aller-retour : la position, les compteurs et la notation de chaque action
+function assertSameGame(parsed: GameState, original: GameState) {
+  assert.deepEqual(parsed.board, original.board);
+  assert.deepEqual([...parsed.removedSquares].sort(), [...original.removedSquares].sort());
+  assert.equal(parsed.currentPlayer, original.currentPlayer);
+  assert.deepEqual(parsed.removalsUsed, original.removalsUsed);
+  assert.deepEqual(parsed.restoresUsed, original.restoresUsed);
+  assert.deepEqual(parsed.history.map(record => record.notation), original.history.map(record => record.notation));
+}
+
+describe('PGN', () => {
+  it('relit une partie exportée', () => {
+    const gameState = play(createInitialGameState(), 'e2e4', 'e7e5', 'g1f3', 'b8c6', 'f1b5');
+    const parsed = parsePGN(exportPGN(gameState, settings));
+    assertSameGame(parsed.gameState, gameState);
+    assert.equal(parsed.settings.removalsPerPlayer, 3);
+    assert.equal(parsed.startGameState.history.length, 0);
+  });
+
+  it('relit les suppressions et les réouvertures', () => {
+    let gameState = play(createInitialGameState(), 'e2e4');
+    gameState = applyRemoval(gameState, sq('d5'), 3);
+    gameState = applyRestore(gameState, sq('d5'), 3);
+    gameState = applyRemoval(gameState, sq('f5'), 3);
+    gameState = play(gameState, 'g1f3');
+    const pgn = exportPGN(gameState, settings);
+    assert.match(pgn, /1\. e4 @d5 2\. =@d5 @f5 3\. Nf3/);
+    assertSameGame(parsePGN(pgn).gameState, gameState);
+  });
+
+  it('relit un draft en serpent puis les coups de la partie', () => {
+    let gameState = createDraftGameState(5, undefined, 'snake');
+    const pieces = getAvailableDraftPieces();
+    const placed = { white: 0, black: 0 };
+    while (gameState.draftState) {
+      const player = gameState.draftState.currentDraftPlayer;
+      const col = placed[player]++;
+      gameState = applyDraftPlacement(gameState, pieces[col], [player === 'white' ? 7 : 0, col]);
+    }
+    gameState = play(gameState, 'e2e4', 'e7e5');
+
+    const parsed = parsePGN(exportPGN(gameState, { ...settings, draftMode: true, draftFormat: 'snake' }));
+    assert.equal(parsed.settings.draftFormat, 'snake');
+    assert.ok(parsed.startGameState.draftState);
+    assert.equal(parsed.gameState.draftState, undefined);
+    assertSameGame(parsed.gameState, gameState);
+  });
+
+  it('situe les erreurs à la ligne et à la colonne', () => {
+    const illegal = '[Variant "Chess Variant 64"]\n\n1. e4 e5 2. Ke3';
+    assert.throws(() => parsePGN(illegal), (error: unknown) => {
+      assert.ok(error instanceof PGNParseError);
+      assert.equal(error.line, 3);
+      assert.equal(error.column, 13);
+      assert.match(error.message, /Ke3.*ligne 3, colonne 13/);
+      return true;
+    });
+
+    const badTag = '[Variant "Chess Variant 64"]\n[DraftMode "peut-être"]\n\n*';
+    assert.throws(() => parsePGN(badTag), (error: unknown) => error instanceof PGNParseError && error.line === 2);
+    assert.throws(() => parsePGN('[Variant "Autre"]\n\n*'), PGNParseError);
+  });
+});
@@ -0,0 +1,182 @@
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { GameConfig, GameSettings, GameState } from '@/types/chess';
+import { applyMove, createDraftGameState, createInitialGameState } from '@/utils/chessLogic';
+import { DEFAULT_DRAFT_SETUP } from '@/utils/draftSetup';
+import { DEFAULT_CASTLING_ROOKS, DEFAULT_REMOVED_SQUARE_RULES } from '@/utils/moveGenerator';
+import { serializeGameState } from '@/utils/serialization';
+import { addGameToLibrary, deleteGameFromLibrary, loadLibrary, loadSavedGame, saveGame } from '@/utils/storage';
+
+const SAVED_GAME_KEY = 'chess-variant-64/partie-en-cours';
+const LIBRARY_KEY = 'chess-variant-64/bibliotheque';
+
+// Sous Node, AsyncStorage retombe sur le localStorage du navigateur : on lui en fournit un en mémoire
+const items = new Map<string, string>();
+(globalThis as { window?: unknown }).window = {
+  localStorage: {
+    get length() { return items.size; },
+    key: (index: number) => [...items.keys()][index] ?? null,
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => { items.set(key, value); },
+    removeItem: (key: string) => { items.delete(key); },
+    clear: () => items.clear(),
+  },
+};
+
+const settings: GameSettings = {
+  timeLimit: 5,
+  clockMode: 'fischer',
+  clockIncrement: 0,
+  removalsPerPlayer: 3,
+  restoresPerPlayer: 0,
+  draftMode: false,
+  draftFormat: 'alternate',
+  draftSeed: 0,
+  armyMode: 'fixed',
+  armyBudget: 39,
+  draftSetup: DEFAULT_DRAFT_SETUP,
+  draftTimeLimit: 0,
+  draftReview: false,
+  opponent: 'human',
+  humanColor: 'white',
+  computerDraftStyle: 'balanced',
+  boardLayout: 'standard',
+  removedSquareRules: DEFAULT_REMOVED_SQUARE_RULES,
+};
+
+// Réglages et partie tels que les écrivait la première version : chronos en secondes,
+// sans aucun des champs ajoutés depuis
+const legacySettings = {
+  timeLimit: 5,
+  removalsPerPlayer: 3,
+  draftMode: false,
+  opponent: 'human',
+  humanColor: 'white',
+  computerDraftStyle: 'balanced',
+};
+
+function legacyGameState(gameState: GameState) {
+  const {
+    removedSquareRules: _rules,
+    restoresUsed: _restores,
+    removalExpiry: _expiry,
+    castlingRooks: _rooks,
+    ...serialized
+  } = serializeGameState(gameState);
+  const toSeconds = ({ white, black }: GameState['timeLeft']) => ({ white: white / 1000, black: black / 1000 });
+  return {
+    ...serialized,
+    timeLeft: toSeconds(serialized.timeLeft),
+    history: serialized.history.map(record => ({ ...record, timeLeft: toSeconds(record.timeLeft) })),
+  };
+}
+
+function playedGame(): GameState {
+  return applyMove(createInitialGameState(), [6, 4], [4, 4], undefined, 3).gameState;
+}
+
+describe('stockage', () => {
+  beforeEach(() => items.clear());
+
+  it('relit la partie qu\'il vient d\'enregistrer', async () => {
+    const config: GameConfig = { ...settings, gameStarted: true, draftPhase: false };
+    const gameState = playedGame();
+    await saveGame({ config, gameState, startGameState: createInitialGameState(), savedAt: 42 });
+
+    const savedGame = await loadSavedGame();
+    assert.ok(savedGame);
+    assert.deepEqual(savedGame.config, config);
+    assert.deepEqual(savedGame.gameState.board, gameState.board);
+    assert.deepEqual(savedGame.gameState.timeLeft, gameState.timeLeft);
+    assert.equal(savedGame.savedAt, 42);
+  });
+
+  it('migre une sauvegarde de la première version', async () => {
+    const gameState = playedGame();
+    items.set(SAVED_GAME_KEY, JSON.stringify({
+      version: 1,
+      config: { ...legacySettings, gameStarted: true, draftPhase: false },
+      gameState: legacyGameState(gameState),
+      startGameState: legacyGameState(createInitialGameState()),
+      savedAt: 42,
+    }));
+
+    const savedGame = await loadSavedGame();
+    assert.ok(savedGame);
+    assert.deepEqual(savedGame.gameState.timeLeft, gameState.timeLeft);
+    assert.deepEqual(savedGame.gameState.history[0].timeLeft, gameState.history[0].timeLeft);
+    assert.deepEqual(savedGame.gameState.restoresUsed, { white: 0, black: 0 });
+    assert.deepEqual(savedGame.gameState.removalExpiry, {});
+    assert.deepEqual(savedGame.gameState.castlingRooks, DEFAULT_CASTLING_ROOKS);
+    assert.deepEqual(savedGame.gameState.removedSquareRules, DEFAULT_REMOVED_SQUARE_RULES);
+    assert.equal(savedGame.config.clockMode, 'fischer');
+    assert.equal(savedGame.config.restoresPerPlayer, 0);
+    assert.equal(savedGame.config.boardLayout, 'standard');
+    assert.deepEqual(savedGame.config.draftSetup, DEFAULT_DRAFT_SETUP);
+  });
+
+  it('complète l\'état d\'un draft enregistré avant les formats de draft', async () => {
+    const { format: _format, placementsLeftInTurn: _left, hiddenPlacement: _hidden, armyBudget: _budget,
+      phase: _phase, zone: _zone, constraints: _constraints, review: _review, gameTimeLeft: _time,
+      ...draftState } = createDraftGameState(5).draftState!;
+    const gameState = { ...legacyGameState(createDraftGameState(5)), draftState };
+    items.set(SAVED_GAME_KEY, JSON.stringify({
+      version: 1,
+      config: { ...legacySettings, draftMode: true, gameStarted: true, draftPhase: true },
+      gameState,
+      startGameState: gameState,
+      savedAt: 42,
+    }));
+
+    const savedGame = await loadSavedGame();
+    assert.ok(savedGame?.gameState.draftState);
+    assert.equal(savedGame.gameState.draftState.format, 'alternate');
+    assert.equal(savedGame.gameState.draftState.zone, 'backRank');
+    assert.equal(savedGame.gameState.draftState.phase, 'placement');
+    assert.equal(savedGame.gameState.draftState.hiddenPlacement, null);
+    assert.deepEqual(savedGame.gameState.draftState.constraints, []);
+  });
+
+  it('ignore une sauvegarde d\'une version plus récente', async () => {
+    const raw = JSON.stringify({ version: 99, config: {}, gameState: { removedSquares: [] }, savedAt: 42 });
+    items.set(SAVED_GAME_KEY, raw);
+    assert.equal(await loadSavedGame(), null);
+    assert.equal(items.get(SAVED_GAME_KEY), raw);
+  });
+
+  it('migre la bibliothèque de la première version', async () => {
+    const gameState = playedGame();
+    items.set(LIBRARY_KEY, JSON.stringify({
+      version: 1,
+      games: [{
+        id: 'ancienne',
+        settings: legacySettings,
+        startGameState: legacyGameState(createInitialGameState()),
+        gameState: legacyGameState(gameState),
+        finishedAt: 1,
+      }],
+    }));
+
+    const [game] = await loadLibrary();
+    assert.equal(game.id, 'ancienne');
+    assert.deepEqual(game.gameState.timeLeft, gameState.timeLeft);
+    assert.deepEqual(game.startGameState.castlingRooks, DEFAULT_CASTLING_ROOKS);
+    assert.equal(game.settings.draftFormat, 'alternate');
+
+    // Un ajout réécrit la bibliothèque au format courant, l'ancienne partie comprise
+    await addGameToLibrary({ settings, startGameState: createInitialGameState(), gameState, finishedAt: 2 });
+    assert.deepEqual(JSON.parse(items.get(LIBRARY_KEY)!).games[1].gameState.timeLeft, gameState.timeLeft);
+    assert.deepEqual((await loadLibrary()).map(libraryGame => libraryGame.finishedAt), [2, 1]);
+  });
+
+  it('ne réécrit jamais une bibliothèque illisible', async () => {
+    const gameState = playedGame();
+    for (const raw of ['{"version": 1, "games": [', JSON.stringify({ version: 99, games: [] }), JSON.stringify({ version: 1 })]) {
+      items.set(LIBRARY_KEY, raw);
+      assert.deepEqual(await loadLibrary(), []);
+      await addGameToLibrary({ settings, startGameState: createInitialGameState(), gameState, finishedAt: 2 });
+      assert.deepEqual(await deleteGameFromLibrary('ancienne'), []);
+      assert.equal(items.get(LIBRARY_KEY), raw);
+    }
+  });
+});
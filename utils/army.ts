@@ -0,0 +1,83 @@
+import { ArmyMode, GameSettings, PieceType } from '@/types/chess';
+
+export const ARMY_MODES: ArmyMode[] = ['fixed', 'budget'];
+
+// Valeurs classiques des pièces, en points ; le roi est gratuit mais obligatoire
+export const ARMY_PIECE_COSTS: Record<PieceType, number> = {
+  king: 0,
+  queen: 9,
+  rook: 5,
+  bishop: 3,
+  knight: 3,
+  pawn: 1,
+};
+
+// Plafond par type de pièce, et au plus seize pièces pour tenir sur les deux premières rangées
+export const ARMY_PIECE_LIMITS: Record<PieceType, number> = {
+  king: 1,
+  queen: 2,
+  rook: 3,
+  bishop: 3,
+  knight: 3,
+  pawn: 8,
+};
+export const MAX_ARMY_SIZE = 16;
+
+// Ordre d'affichage de la boutique, repris pour ranger la réserve achetée
+export const SHOP_PIECES: PieceType[] = ['king', 'queen', 'rook', 'bishop', 'knight', 'pawn'];
+
+// 39 points : la valeur de l'armée classique
+export const DEFAULT_ARMY_BUDGET = 39;
+export const ARMY_BUDGETS = [25, 31, 39, 45, 55];
+export const MAX_ARMY_BUDGET = 100;
+
+const pluralNames: Record<PieceType, string> = {
+  king: 'rois',
+  queen: 'dames',
+  rook: 'tours',
+  bishop: 'fous',
+  knight: 'cavaliers',
+  pawn: 'pions',
+};
+
+// Budget passé à createDraftGameState : null pour la réserve classique
+export function getSettingsArmyBudget({ armyMode, armyBudget }: Pick<GameSettings, 'armyMode' | 'armyBudget'>): number | null {
+  return armyMode === 'budget' ? armyBudget : null;
+}
+
+export function isValidArmyBudget(budget: unknown): budget is number {
+  return Number.isInteger(budget) && (budget as number) >= 0 && (budget as number) <= MAX_ARMY_BUDGET;
+}
+
+export function getArmyCost(pieces: PieceType[]): number {
+  return pieces.reduce((total, piece) => total + ARMY_PIECE_COSTS[piece], 0);
+}
+
+export function countArmyPieces(pieces: PieceType[]): Record<PieceType, number> {
+  const counts = Object.fromEntries(SHOP_PIECES.map(piece => [piece, 0])) as Record<PieceType, number>;
+  for (const piece of pieces) counts[piece]++;
+  return counts;
+}
+
+export function sortArmy(pieces: PieceType[]): PieceType[] {
+  return [...pieces].sort((a, b) => SHOP_PIECES.indexOf(a) - SHOP_PIECES.indexOf(b));
+}
+
+// Motif du refus d'une armée, null si elle est légale
+export function getArmyError(pieces: PieceType[], budget: number): string | null {
+  if (!Array.isArray(pieces) || pieces.some(piece => !SHOP_PIECES.includes(piece))) return 'Pièce inconnue';
+
+  const counts = countArmyPieces(pieces);
+  if (counts.king !== 1) return 'L\'armée doit compter exactement un roi';
+  const overLimit = SHOP_PIECES.find(piece => counts[piece] > ARMY_PIECE_LIMITS[piece]);
+  if (overLimit) return `Pas plus de ${ARMY_PIECE_LIMITS[overLimit]} ${pluralNames[overLimit]}`;
+  if (pieces.length > MAX_ARMY_SIZE) return `Pas plus de ${MAX_ARMY_SIZE} pièces`;
+
+  const cost = getArmyCost(pieces);
+  if (cost > budget) return `Budget dépassé : ${cost} points pour ${budget}`;
+  return null;
+}
+
+export function isValidArmy(pieces: PieceType[], budget: number): boolean {
+  return getArmyError(pieces, budget) === null;
+}
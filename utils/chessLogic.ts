@@ -1,4 +1,65 @@
-import { Board, Piece, Position, Player, PieceType, GameState } from '@/types/chess';
+import {
+  Board,
+  CastlingRights,
+  CastlingSide,
+  ConfirmationRecord,
+  DraftFormat,
+  DraftReserve,
+  DraftSetup,
+  DraftState,
+  Piece,
+  Position,
+  Player,
+  PieceType,
+  GameState,
+  GameResult,
+  Move,
+  MoveResult,
+  PieceMoveRecord,
+  PlacementRecord,
+  PromotionPieceType,
+  PurchaseRecord,
+  RemovalRecord,
+  RemovedSquareRules,
+  RestoreRecord,
+} from '@/types/chess';
+import {
+  FILES,
+  formatMoveNotation,
+  getPlacementNotation,
+  getPurchaseNotation,
+  getRemovalNotation,
+  getRestoreNotation,
+  squareToAlgebraic,
+} from '@/utils/notation';
+import {
+  createSearchPosition,
+  DEFAULT_CASTLING_ROOKS,
+  DEFAULT_REMOVED_SQUARE_RULES,
+  generateLegalMoves,
+  generatePseudoLegalMoves,
+  getMoveTargetSquare,
+  getPromotionPieceType,
+  hasLegalMove,
+  isCastlingMove,
+  isSideInCheck,
+  isSideInCheckAfterPly,
+  moveFrom,
+  movePromotion,
+  moveTo,
+  SearchPosition,
+  squareToPosition,
+} from '@/utils/moveGenerator';
+import { getRandomBackRank } from '@/utils/draftFormats';
+import { isValidArmy, SHOP_PIECES, sortArmy } from '@/utils/army';
+import {
+  DEFAULT_DRAFT_RESERVE,
+  DEFAULT_DRAFT_SETUP,
+  DRAFT_ZONE_DEPTHS,
+  getEffectiveDraftZone,
+} from '@/utils/draftSetup';
+
+export const PROMOTION_PIECES: PromotionPieceType[] = ['queen', 'rook', 'bishop', 'knight'];
 
 export function getPossibleMoves(
   board: Board,
@@ -6,24 +67,18 @@ export function getPossibleMoves(
   removedSquares: Set<string>,
   gameState?: GameState
 ): Position[] {
-  const moves: Position[] = [];
-  
-  for (let toRow = 0; toRow < 8; toRow++) {
-    for (let toCol = 0; toCol < 8; toCol++) {
-      if (isValidMove(board, from, [toRow, toCol], removedSquares, gameState)) {
-        const moveResult = makeMove(board, from, [toRow, toCol], gameState);
-        const piece = board[from[0]][from[1]];
-        if (piece && !isInCheck(moveResult.board, piece.color, removedSquares)) {
-          moves.push([toRow, toCol]);
-        }
-      }
-    }
-  }
+  const piece = board[from[0]][from[1]];
+  if (!piece) return [];
   
-  return moves;
+  const position = createSearchPosition(board, removedSquares, piece.color, gameState);
+  // Les quatre promotions d'un même pion mènent à la même case
+  const targets = new Set(generateLegalMoves(position, from[0] * 8 + from[1]).map(move => getMoveTargetSquare(position, move)));
+  return [...targets].map(squareToPosition);
 }
 
-export function initializeBoard(): Board {
+const STANDARD_BACK_RANK: PieceType[] = ['rook', 'knight', 'bishop', 'queen', 'king', 'bishop', 'knight', 'rook'];
+
+export function initializeBoard(pieceOrder: PieceType[] = STANDARD_BACK_RANK): Board {
   const board: Board = Array(8).fill(null).map(() => Array(8).fill(null));
   
   // Pions noirs
@@ -37,7 +92,6 @@ export function initializeBoard(): Board {
   }
   
   // Pièces noires (rangée du haut)
-  const pieceOrder: PieceType[] = ['rook', 'knight', 'bishop', 'queen', 'king', 'bishop', 'knight', 'rook'];
   for (let col = 0; col < 8; col++) {
     board[0][col] = { type: pieceOrder[col], color: 'black' };
   }
@@ -62,14 +116,102 @@ export function initializeDraftBoard(): Board {
   return board;
 }
 
-export function getAvailableDraftPieces(): PieceType[] {
-  return [
-    'king',
-    'queen',
-    'rook', 'rook',
-    'bishop', 'bishop',
-    'knight', 'knight'
-  ];
+export function getAvailableDraftPieces(reserve: DraftReserve = DEFAULT_DRAFT_RESERVE): PieceType[] {
+  return SHOP_PIECES.flatMap(piece => Array<PieceType>(reserve[piece]).fill(piece));
+}
+
+export function createInitialGameState(
+  timeLimitMinutes: number = 5,
+  removedSquareRules: RemovedSquareRules = DEFAULT_REMOVED_SQUARE_RULES
+): GameState {
+  const gameState: GameState = {
+    board: initializeBoard(),
+    currentPlayer: 'white',
+    selectedSquare: null,
+    removedSquares: new Set(),
+    gameOver: false,
+    result: null,
+    removalsUsed: { white: 0, black: 0 },
+    restoresUsed: { white: 0, black: 0 },
+    removalExpiry: {},
+    timeLeft: { white: timeLimitMinutes * 60 * 1000, black: timeLimitMinutes * 60 * 1000 },
+    castlingRights: {
+      whiteKingside: true,
+      whiteQueenside: true,
+      blackKingside: true,
+      blackQueenside: true,
+    },
+    castlingRooks: { ...DEFAULT_CASTLING_ROOKS },
+    kingMoved: {
+      white: false,
+      black: false,
+    },
+    rookMoved: {
+      whiteKingside: false,
+      whiteQueenside: false,
+      blackKingside: false,
+      blackQueenside: false,
+    },
+    enPassantTarget: null,
+    halfmoveClock: 0,
+    fullmoveNumber: 1,
+    positionHistory: [],
+    history: [],
+    removedSquareRules,
+  };
+  gameState.positionHistory = [getPositionKey(gameState)];
+  
+  return gameState;
+}
+
+export function createDraftGameState(
+  timeLimitMinutes: number = 5,
+  removedSquareRules: RemovedSquareRules = DEFAULT_REMOVED_SQUARE_RULES,
+  format: DraftFormat = 'alternate',
+  seed: number = 0,
+  armyBudget: number | null = null,
+  setup: DraftSetup = DEFAULT_DRAFT_SETUP,
+  draftTimeLimitMinutes: number = 0,
+  review: boolean = false
+): GameState {
+  // Tirage au sort : pas de phase de placement, la partie commence directement
+  if (format === 'random') {
+    const board = initializeBoard(getRandomBackRank(seed));
+    const gameState = { ...createInitialGameState(timeLimitMinutes, removedSquareRules), board, ...getCastlingSetup(board) };
+    return { ...gameState, positionHistory: [getPositionKey(gameState)] };
+  }
+  
+  // Mode draft : initialiser avec seulement les pions ; si les pions sont draftés, le plateau est vide.
+  // En mode achat, les réserves se remplissent à la boutique
+  const isBudget = armyBudget !== null;
+  const draftsPawns = isBudget || setup.reserve.pawn > 0;
+  const initialGameState = createInitialGameState(timeLimitMinutes, removedSquareRules);
+  const draftTimeLeft = draftTimeLimitMinutes * 60 * 1000;
+  return {
+    ...initialGameState,
+    // Chrono propre au draft : celui de la partie attend la fin des placements
+    timeLeft: draftTimeLimitMinutes > 0 ? { white: draftTimeLeft, black: draftTimeLeft } : initialGameState.timeLeft,
+    board: draftsPawns ? Array(8).fill(null).map(() => Array(8).fill(null)) : initializeDraftBoard(),
+    draftState: {
+      availablePieces: {
+        white: isBudget ? [] : getAvailableDraftPieces(setup.reserve),
+        black: isBudget ? [] : getAvailableDraftPieces(setup.reserve),
+      },
+      selectedPiece: null,
+      currentDraftPlayer: 'white',
+      format,
+      placementsLeftInTurn: 1,
+      hiddenPlacement: null,
+      armyBudget,
+      phase: isBudget ? 'shop' : 'placement',
+      zone: getEffectiveDraftZone(setup.zone, draftsPawns),
+      constraints: setup.constraints,
+      review,
+      gameTimeLeft: draftTimeLimitMinutes > 0 ? initialGameState.timeLeft : null,
+    },
+    currentPlayer: 'white', // Le chrono des blancs commence immédiatement
+    positionHistory: [],
+  };
 }
 
 export function isValidMove(
@@ -93,20 +235,21 @@ export function isValidMove(
   
   const targetPiece = board[toRow][toCol];
   
-  // Ne peut pas capturer ses propres pièces
-  if (targetPiece && targetPiece.color === piece.color) return false;
+  // Ne peut pas capturer ses propres pièces ; le roi qui rejoint sa tour annonce un roque
+  if (targetPiece && targetPiece.color === piece.color && !(piece.type === 'king' && targetPiece.type === 'rook')) return false;
   
+  const rules = gameState?.removedSquareRules ?? DEFAULT_REMOVED_SQUARE_RULES;
   switch (piece.type) {
     case 'pawn':
-      return isValidPawnMove(board, from, to, piece.color, removedSquares);
+      return isValidPawnMove(board, from, to, piece.color, removedSquares, rules, gameState?.enPassantTarget);
     case 'rook':
-      return isValidRookMove(board, from, to, removedSquares);
+      return isValidRookMove(board, from, to, removedSquares, rules);
     case 'knight':
       return isValidKnightMove(from, to);
     case 'bishop':
-      return isValidBishopMove(board, from, to, removedSquares);
+      return isValidBishopMove(board, from, to, removedSquares, rules);
     case 'queen':
-      return isValidQueenMove(board, from, to, removedSquares);
+      return isValidQueenMove(board, from, to, removedSquares, rules);
     case 'king':
       return isValidKingMove(from, to, board, gameState, removedSquares);
     default:
@@ -119,7 +262,9 @@ function isValidPawnMove(
   from: Position,
   to: Position,
   color: Player,
-  removedSquares: Set<string>
+  removedSquares: Set<string>,
+  rules: RemovedSquareRules,
+  enPassantTarget?: Position | null
 ): boolean {
   const [fromRow, fromCol] = from;
   const [toRow, toCol] = to;
@@ -132,26 +277,52 @@ function isValidPawnMove(
     if (toRow === fromRow + direction && !board[toRow][toCol]) {
       return true;
     }
-    // Deux pas depuis la position de départ
+    // Deux pas depuis la position de départ, sans sauter de pièce
+    const middleRow = fromRow + direction;
     if (fromRow === startRow && toRow === fromRow + 2 * direction && 
-        !board[toRow][toCol] && !removedSquares.has(`${toRow}-${toCol}`)) {
+        !board[middleRow][toCol] && !board[toRow][toCol] &&
+        (rules.pawnDoublePushOver || !removedSquares.has(`${middleRow}-${toCol}`))) {
       return true;
     }
   }
   
   // Capture en diagonale
   if (Math.abs(fromCol - toCol) === 1 && toRow === fromRow + direction) {
-    return board[toRow][toCol] !== null;
+    if (board[toRow][toCol] !== null) return true;
+    return isValidEnPassant(board, from, to, color, removedSquares, enPassantTarget);
   }
   
   return false;
 }
 
+function isValidEnPassant(
+  board: Board,
+  from: Position,
+  to: Position,
+  color: Player,
+  removedSquares: Set<string>,
+  enPassantTarget?: Position | null
+): boolean {
+  if (!enPassantTarget) return false;
+  
+  const [fromRow] = from;
+  const [toRow, toCol] = to;
+  if (enPassantTarget[0] !== toRow || enPassantTarget[1] !== toCol) return false;
+  
+  // La case cible et la case du pion capturé doivent toutes deux exister
+  if (removedSquares.has(`${toRow}-${toCol}`)) return false;
+  if (removedSquares.has(`${fromRow}-${toCol}`)) return false;
+  
+  const capturedPawn = board[fromRow][toCol];
+  return !!capturedPawn && capturedPawn.type === 'pawn' && capturedPawn.color !== color;
+}
+
 function isValidRookMove(
   board: Board,
   from: Position,
   to: Position,
-  removedSquares: Set<string>
+  removedSquares: Set<string>,
+  rules: RemovedSquareRules
 ): boolean {
   const [fromRow, fromCol] = from;
   const [toRow, toCol] = to;
@@ -159,7 +330,7 @@ function isValidRookMove(
   // Mouvement horizontal ou vertical uniquement
   if (fromRow !== toRow && fromCol !== toCol) return false;
   
-  return isPathClear(board, from, to, removedSquares);
+  return isPathClear(board, from, to, removedSquares, rules);
 }
 
 function isValidKnightMove(from: Position, to: Position): boolean {
@@ -176,7 +347,8 @@ function isValidBishopMove(
   board: Board,
   from: Position,
   to: Position,
-  removedSquares: Set<string>
+  removedSquares: Set<string>,
+  rules: RemovedSquareRules
 ): boolean {
   const [fromRow, fromCol] = from;
   const [toRow, toCol] = to;
@@ -184,17 +356,18 @@ function isValidBishopMove(
   // Mouvement diagonal uniquement
   if (Math.abs(fromRow - toRow) !== Math.abs(fromCol - toCol)) return false;
   
-  return isPathClear(board, from, to, removedSquares);
+  return isPathClear(board, from, to, removedSquares, rules);
 }
 
 function isValidQueenMove(
   board: Board,
   from: Position,
   to: Position,
-  removedSquares: Set<string>
+  removedSquares: Set<string>,
+  rules: RemovedSquareRules
 ): boolean {
-  return isValidRookMove(board, from, to, removedSquares) || 
-         isValidBishopMove(board, from, to, removedSquares);
+  return isValidRookMove(board, from, to, removedSquares, rules) || 
+         isValidBishopMove(board, from, to, removedSquares, rules);
 }
 
 function isValidKingMove(
@@ -210,17 +383,79 @@ function isValidKingMove(
   const rowDiff = Math.abs(fromRow - toRow);
   const colDiff = Math.abs(fromCol - toCol);
   
+  // Le roque se vérifie à part : il peut ne déplacer le roi que d'une case, voire pas du tout
+  if (getCastlingSide(board, from, to)) {
+    return !!gameState && !!removedSquares && isValidCastling(from, to, board, gameState, removedSquares);
+  }
+  
   // Mouvement normal du roi (une case)
-  if (rowDiff <= 1 && colDiff <= 1) {
-    return true;
+  return rowDiff <= 1 && colDiff <= 1;
+}
+
+// Côté du roque annoncé par un déplacement du roi : vers sa propre tour, ou de deux colonnes au moins vers g ou c
+export function getCastlingSide(board: Board, from: Position, to: Position): CastlingSide | null {
+  const piece = board[from[0]][from[1]];
+  if (!piece || piece.type !== 'king' || from[0] !== to[0]) return null;
+  
+  const target = board[to[0]][to[1]];
+  if (target && target.type === 'rook' && target.color === piece.color) {
+    return to[1] > from[1] ? 'kingside' : 'queenside';
+  }
+  if (Math.abs(to[1] - from[1]) >= 2 && (to[1] === 6 || to[1] === 2)) {
+    return to[1] === 6 ? 'kingside' : 'queenside';
   }
+  return null;
+}
+
+// Forme retenue pour l'historique et le jeu en ligne : la case d'arrivée du roi s'il bouge
+// de deux colonnes au moins, celle de sa tour sinon
+export function normalizeCastlingTarget(gameState: GameState, from: Position, to: Position): Position {
+  const side = getCastlingSide(gameState.board, from, to);
+  if (!side) return to;
   
-  // Vérifier le roque
-  if (rowDiff === 0 && colDiff === 2 && gameState && removedSquares) {
-    return isValidCastling(from, to, board, gameState, removedSquares);
+  const kingTargetCol = side === 'kingside' ? 6 : 2;
+  if (Math.abs(kingTargetCol - from[1]) >= 2) return [from[0], kingTargetCol];
+  const color = gameState.board[from[0]][from[1]]!.color;
+  return [from[0], gameState.castlingRooks[`${color}${side === 'kingside' ? 'Kingside' : 'Queenside'}`]];
+}
+
+// Tour la plus extérieure de chaque côté du roi sur sa rangée de départ, -1 s'il n'y en a pas
+export function findCastlingRookColumn(board: Board, color: Player, side: CastlingSide): number {
+  const homeRow = color === 'white' ? 7 : 0;
+  const kingCol = board[homeRow].findIndex(piece => piece?.type === 'king' && piece.color === color);
+  if (kingCol === -1) return -1;
+  
+  const columns = side === 'kingside' ? [7, 6, 5, 4, 3, 2, 1] : [0, 1, 2, 3, 4, 5, 6];
+  return columns.find(col => {
+    const piece = board[homeRow][col];
+    return (side === 'kingside' ? col > kingCol : col < kingCol) && piece?.type === 'rook' && piece.color === color;
+  }) ?? -1;
+}
+
+// Droits de roque d'une rangée tirée ou draftée : un roque par côté où le roi a une tour
+export function getCastlingSetup(board: Board): Pick<GameState, 'castlingRights' | 'castlingRooks' | 'kingMoved' | 'rookMoved'> {
+  const castlingRights = {} as CastlingRights;
+  const castlingRooks = { ...DEFAULT_CASTLING_ROOKS };
+  for (const color of ['white', 'black'] as Player[]) {
+    for (const side of ['kingside', 'queenside'] as CastlingSide[]) {
+      const right = `${color}${side === 'kingside' ? 'Kingside' : 'Queenside'}` as const;
+      const rookCol = findCastlingRookColumn(board, color, side);
+      castlingRights[right] = rookCol !== -1;
+      if (rookCol !== -1) castlingRooks[right] = rookCol;
+    }
   }
   
-  return false;
+  return {
+    castlingRights,
+    castlingRooks,
+    kingMoved: { white: false, black: false },
+    rookMoved: {
+      whiteKingside: !castlingRights.whiteKingside,
+      whiteQueenside: !castlingRights.whiteQueenside,
+      blackKingside: !castlingRights.blackKingside,
+      blackQueenside: !castlingRights.blackQueenside,
+    },
+  };
 }
 
 function isValidCastling(
@@ -230,65 +465,28 @@ function isValidCastling(
   gameState: GameState,
   removedSquares: Set<string>
 ): boolean {
-  const [fromRow, fromCol] = from;
-  const [toRow, toCol] = to;
+  const piece = board[from[0]][from[1]];
+  const side = getCastlingSide(board, from, to);
+  if (!piece || !side) return false;
   
-  const piece = board[fromRow][fromCol];
-  if (!piece || piece.type !== 'king') return false;
-  
-  const color = piece.color;
-  const isKingside = toCol > fromCol;
-  
-  // Vérifier si le roi est sur sa position initiale
-  const expectedRow = color === 'white' ? 7 : 0;
-  const expectedCol = 4;
-  if (fromRow !== expectedRow || fromCol !== expectedCol) return false;
-  
-  // Vérifier si le roi a déjà bougé
-  if (gameState.kingMoved[color]) return false;
-  
-  // Vérifier les droits de roque
-  if (isKingside && !gameState.castlingRights[`${color}Kingside`]) return false;
-  if (!isKingside && !gameState.castlingRights[`${color}Queenside`]) return false;
+  // Désigner une tour n'annonce un roque qu'avec la tour de ce côté
+  const target = board[to[0]][to[1]];
+  const rookCol = gameState.castlingRooks[`${piece.color}${side === 'kingside' ? 'Kingside' : 'Queenside'}`];
+  if (target && to[1] !== rookCol) return false;
   
-  // Vérifier si la tour est présente et n'a pas bougé
-  const rookCol = isKingside ? 7 : 0;
-  const rook = board[expectedRow][rookCol];
-  if (!rook || rook.type !== 'rook' || rook.color !== color) return false;
-  
-  const rookMovedKey = `${color}${isKingside ? 'Kingside' : 'Queenside'}` as keyof typeof gameState.rookMoved;
-  if (gameState.rookMoved[rookMovedKey]) return false;
-  
-  // Vérifier que les cases entre le roi et la tour sont libres
-  const startCol = Math.min(fromCol, rookCol);
-  const endCol = Math.max(fromCol, rookCol);
-  
-  for (let col = startCol + 1; col < endCol; col++) {
-    if (board[expectedRow][col] !== null) return false;
-    if (removedSquares.has(`${expectedRow}-${col}`)) return false;
-  }
-  
-  // Vérifier que le roi n'est pas en échec
-  if (isInCheck(board, color, removedSquares)) return false;
-  
-  // Vérifier que le roi ne passe pas par une case attaquée
-  const kingPath = isKingside ? [fromCol + 1, fromCol + 2] : [fromCol - 1, fromCol - 2];
-  for (const col of kingPath) {
-    const testBoard = board.map(row => [...row]);
-    testBoard[expectedRow][col] = piece;
-    testBoard[fromRow][fromCol] = null;
-    
-    if (isInCheck(testBoard, color, removedSquares)) return false;
-  }
-  
-  return true;
+  // Droits, tour en place, cases libres et non attaquées : mêmes règles que le générateur de coups
+  const position = createSearchPosition(board, removedSquares, piece.color, gameState);
+  const kingTarget = from[0] * 8 + (side === 'kingside' ? 6 : 2);
+  return generatePseudoLegalMoves(position, from[0] * 8 + from[1])
+    .some(move => isCastlingMove(move) && moveTo(move) === kingTarget);
 }
 
 function isPathClear(
   board: Board,
   from: Position,
   to: Position,
-  removedSquares: Set<string>
+  removedSquares: Set<string>,
+  rules: RemovedSquareRules
 ): boolean {
   const [fromRow, fromCol] = from;
   const [toRow, toCol] = to;
@@ -300,10 +498,13 @@ function isPathClear(
   let currentCol = fromCol + colDirection;
   
   while (currentRow !== toRow || currentCol !== toCol) {
-    // Les cases supprimées ne bloquent pas le chemin, elles sont juste ignorées
+    // Selon les règles, les cases supprimées bloquent le chemin ou sont simplement survolées
     if (board[currentRow][currentCol] !== null) {
       return false;
     }
+    if (rules.blockSliders && removedSquares.has(`${currentRow}-${currentCol}`)) {
+      return false;
+    }
     currentRow += rowDirection;
     currentCol += colDirection;
   }
@@ -311,42 +512,79 @@ function isPathClear(
   return true;
 }
 
+export function isPromotionMove(board: Board, from: Position, to: Position): boolean {
+  const piece = board[from[0]][from[1]];
+  if (!piece || piece.type !== 'pawn') return false;
+  
+  const lastRow = piece.color === 'white' ? 0 : 7;
+  return to[0] === lastRow;
+}
+
 export function makeMove(
   board: Board, 
   from: Position, 
   to: Position, 
-  gameState?: GameState
-): { board: Board; isCastling: boolean; rookMove?: { from: Position; to: Position } } {
+  gameState?: GameState,
+  promotion?: PromotionPieceType
+): MoveResult {
   const newBoard = board.map(row => [...row]);
   const [fromRow, fromCol] = from;
   const [toRow, toCol] = to;
   
   const piece = newBoard[fromRow][fromCol];
-  let isCastling = false;
   let rookMove;
+  let isEnPassant = false;
+  let enPassantTarget: Position | null = null;
+  let promotedTo: PromotionPieceType | undefined;
+  
+  if (piece && piece.type === 'pawn') {
+    // Un pion qui se déplace en diagonale vers une case vide capture en passant
+    if (fromCol !== toCol && newBoard[toRow][toCol] === null) {
+      isEnPassant = true;
+      newBoard[fromRow][toCol] = null;
+    }
+    
+    // Un double pas ouvre la prise en passant sur la case sautée
+    if (Math.abs(toRow - fromRow) === 2) {
+      enPassantTarget = [(fromRow + toRow) / 2, fromCol];
+    }
+  }
   
-  // Vérifier si c'est un roque
-  if (piece && piece.type === 'king' && Math.abs(fromCol - toCol) === 2) {
-    isCastling = true;
-    const isKingside = toCol > fromCol;
-    const rookFromCol = isKingside ? 7 : 0;
+  // Vérifier si c'est un roque : le roi finit en g ou c, la tour en f ou d
+  const castlingSide = getCastlingSide(board, from, to);
+  if (piece && castlingSide) {
+    const isKingside = castlingSide === 'kingside';
+    const target = board[toRow][toCol];
+    const rookFromCol = target?.type === 'rook'
+      ? toCol
+      : (gameState?.castlingRooks ?? DEFAULT_CASTLING_ROOKS)[`${piece.color}${isKingside ? 'Kingside' : 'Queenside'}`];
     const rookToCol = isKingside ? 5 : 3;
+    const rook = newBoard[fromRow][rookFromCol];
     
-    // Déplacer la tour
-    newBoard[toRow][rookToCol] = newBoard[fromRow][rookFromCol];
+    // Le roi ou la tour peut arriver sur la case de départ de l'autre : on vide les deux avant de poser
+    newBoard[fromRow][fromCol] = null;
     newBoard[fromRow][rookFromCol] = null;
+    newBoard[fromRow][isKingside ? 6 : 2] = piece;
+    newBoard[fromRow][rookToCol] = rook;
     
     rookMove = {
       from: [fromRow, rookFromCol] as Position,
-      to: [toRow, rookToCol] as Position
+      to: [fromRow, rookToCol] as Position
     };
+    return { board: newBoard, isCastling: true, rookMove, isEnPassant, enPassantTarget, promotion: promotedTo };
   }
   
   // Déplacer la pièce principale
   newBoard[toRow][toCol] = newBoard[fromRow][fromCol];
   newBoard[fromRow][fromCol] = null;
   
-  return { board: newBoard, isCastling, rookMove };
+  // Promotion : la dame par défaut si aucune pièce n'est précisée
+  if (piece && isPromotionMove(board, from, to)) {
+    promotedTo = promotion ?? 'queen';
+    newBoard[toRow][toCol] = { type: promotedTo, color: piece.color };
+  }
+  
+  return { board: newBoard, isCastling: false, rookMove, isEnPassant, enPassantTarget, promotion: promotedTo };
 }
 
 export function updateCastlingRights(gameState: GameState, from: Position, to: Position): GameState {
@@ -364,43 +602,21 @@ export function updateCastlingRights(gameState: GameState, from: Position, to: P
     newGameState.castlingRights[`${piece.color}Queenside`] = false;
   }
   
-  // Si une tour bouge, perdre le droit de roque correspondant
-  if (piece && piece.type === 'rook') {
-    const color = piece.color;
-    const expectedRow = color === 'white' ? 7 : 0;
-    
-    if (fromRow === expectedRow) {
-      newGameState.rookMoved = { ...newGameState.rookMoved };
-      newGameState.castlingRights = { ...newGameState.castlingRights };
-      
-      if (fromCol === 0) { // Tour dame
-        newGameState.rookMoved[`${color}Queenside`] = true;
-        newGameState.castlingRights[`${color}Queenside`] = false;
-      } else if (fromCol === 7) { // Tour roi
-        newGameState.rookMoved[`${color}Kingside`] = true;
-        newGameState.castlingRights[`${color}Kingside`] = false;
-      }
-    }
-  }
-  
-  // Si une tour est capturée, perdre le droit de roque correspondant
+  // Si une tour de roque bouge ou est capturée, perdre le droit correspondant
   const [toRow, toCol] = to;
   const capturedPiece = gameState.board[toRow][toCol];
-  if (capturedPiece && capturedPiece.type === 'rook') {
-    const color = capturedPiece.color;
-    const expectedRow = color === 'white' ? 7 : 0;
+  const rookSquares: [Piece | null, number, number][] = [
+    [piece, fromRow, fromCol],
+    [capturedPiece, toRow, toCol],
+  ];
+  for (const [rook, row, col] of rookSquares) {
+    if (!rook || rook.type !== 'rook' || row !== (rook.color === 'white' ? 7 : 0)) continue;
     
-    if (toRow === expectedRow) {
-      newGameState.rookMoved = { ...newGameState.rookMoved };
-      newGameState.castlingRights = { ...newGameState.castlingRights };
-      
-      if (toCol === 0) {
-        newGameState.rookMoved[`${color}Queenside`] = true;
-        newGameState.castlingRights[`${color}Queenside`] = false;
-      } else if (toCol === 7) {
-        newGameState.rookMoved[`${color}Kingside`] = true;
-        newGameState.castlingRights[`${color}Kingside`] = false;
-      }
+    for (const side of ['Kingside', 'Queenside'] as const) {
+      const right = `${rook.color}${side}` as const;
+      if (gameState.castlingRooks[right] !== col) continue;
+      newGameState.rookMoved = { ...newGameState.rookMoved, [right]: true };
+      newGameState.castlingRights = { ...newGameState.castlingRights, [right]: false };
     }
   }
   
@@ -419,55 +635,799 @@ export function findKing(board: Board, color: Player): Position | null {
   return null;
 }
 
-export function isInCheck(board: Board, color: Player, removedSquares: Set<string>): boolean {
-  const kingPosition = findKing(board, color);
-  if (!kingPosition) return false;
+export function isInCheck(
+  board: Board,
+  color: Player,
+  removedSquares: Set<string>,
+  rules: RemovedSquareRules = DEFAULT_REMOVED_SQUARE_RULES
+): boolean {
+  const position = createSearchPosition(board, removedSquares, color, undefined, rules);
+  return isSideInCheck(position, position.side);
+}
+
+// Le joueur au trait est-il en échec une fois son demi-coup joué, cases arrivées à expiration rouvertes ?
+export function isInCheckAfterPly(gameState: GameState, board: Board, removedSquares: Set<string> = gameState.removedSquares): boolean {
+  const ply = gameState.history.length + 1;
+  const remaining = new Set([...removedSquares].filter(key => !(gameState.removalExpiry[key] <= ply)));
+  return isInCheck(board, gameState.currentPlayer, remaining, gameState.removedSquareRules);
+}
+
+export function getAllValidMoves(board: Board, color: Player, removedSquares: Set<string>, gameState?: GameState): Move[] {
+  const position = createSearchPosition(board, removedSquares, color, gameState);
   
-  const opponentColor = color === 'white' ? 'black' : 'white';
+  // Chaque choix de promotion est un coup distinct ; un roque prend sa forme normalisée
+  return generateLegalMoves(position).map(move => {
+    const promotion = movePromotion(move);
+    const from = squareToPosition(moveFrom(move));
+    const to = squareToPosition(getMoveTargetSquare(position, move));
+    return promotion ? { from, to, promotion: getPromotionPieceType(promotion) } : { from, to };
+  });
+}
+
+export function isCheckmate(
+  board: Board,
+  color: Player,
+  removedSquares: Set<string>,
+  gameState?: GameState,
+  removalsLeft: number = 0
+): boolean {
+  const position = createSearchPosition(board, removedSquares, color, gameState);
+  if (!isSideInCheck(position, position.side) || hasLegalMove(position)) return false;
+  
+  // Quand les cases supprimées arrêtent les pièces longues, une suppression peut parer l'échec
+  return !(removalsLeft > 0 && position.rules.blockSliders && canParryCheckByRemoval(position));
+}
+
+function canParryCheckByRemoval(position: SearchPosition): boolean {
+  const { squares, removed, side } = position;
+  for (let square = 0; square < 64; square++) {
+    if (squares[square] !== 0 || removed[square]) continue;
+    removed[square] = 1;
+    const stillInCheck = isSideInCheckAfterPly(position, side);
+    removed[square] = 0;
+    if (!stillInCheck) return true;
+  }
+  return false;
+}
+
+export function isStalemate(
+  board: Board,
+  color: Player,
+  removedSquares: Set<string>,
+  gameState?: GameState,
+  removalsLeft: number = 0,
+  restoresLeft: number = 0
+): boolean {
+  const position = createSearchPosition(board, removedSquares, color, gameState);
+  if (isSideInCheck(position, position.side)) return false;
+  
+  // Une suppression ou une réouverture de case reste un coup légal tant qu'il en reste
+  if (removalsLeft > 0 && hasRemovableSquare(board, removedSquares)) return false;
+  if (restoresLeft > 0 && hasRestorableSquare(position)) return false;
+  
+  return !hasLegalMove(position);
+}
+
+function hasRestorableSquare(position: SearchPosition): boolean {
+  const { removed, side } = position;
+  for (let square = 0; square < 64; square++) {
+    if (!removed[square]) continue;
+    removed[square] = 0;
+    const inCheck = isSideInCheckAfterPly(position, side);
+    removed[square] = 1;
+    if (!inCheck) return true;
+  }
+  return false;
+}
+
+function hasRemovableSquare(board: Board, removedSquares: Set<string>): boolean {
+  for (let row = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++) {
+      if (!board[row][col] && !removedSquares.has(`${row}-${col}`)) return true;
+    }
+  }
+  return false;
+}
+
+export function hasMatingMaterial(board: Board, color: Player): boolean {
+  let minorPieces = 0;
+  
+  for (const row of board) {
+    for (const piece of row) {
+      if (!piece || piece.color !== color) continue;
+      if (piece.type === 'pawn' || piece.type === 'rook' || piece.type === 'queen') return true;
+      if (piece.type === 'bishop' || piece.type === 'knight') minorPieces++;
+    }
+  }
+  
+  return minorPieces > 1;
+}
+
+export function isInsufficientMaterial(board: Board): boolean {
+  const minorPieces: { piece: Piece; squareColor: number }[] = [];
   
-  // Vérifier si une pièce adverse peut attaquer le roi
   for (let row = 0; row < 8; row++) {
     for (let col = 0; col < 8; col++) {
       const piece = board[row][col];
-      if (piece && piece.color === opponentColor) {
-        if (isValidMove(board, [row, col], kingPosition, removedSquares)) {
-          return true;
-        }
-      }
+      if (!piece || piece.type === 'king') continue;
+      if (piece.type !== 'bishop' && piece.type !== 'knight') return false;
+      minorPieces.push({ piece, squareColor: (row + col) % 2 });
     }
   }
   
-  return false;
+  // Roi contre roi, ou roi et pièce mineure contre roi
+  if (minorPieces.length <= 1) return true;
+  
+  // Uniquement des fous, tous sur des cases de la même couleur
+  return minorPieces.every(({ piece, squareColor }) =>
+    piece.type === 'bishop' && squareColor === minorPieces[0].squareColor
+  );
 }
 
-export function getAllValidMoves(board: Board, color: Player, removedSquares: Set<string>, gameState?: GameState): Position[][] {
-  const validMoves: Position[][] = [];
-  
-  for (let fromRow = 0; fromRow < 8; fromRow++) {
-    for (let fromCol = 0; fromCol < 8; fromCol++) {
-      const piece = board[fromRow][fromCol];
-      if (piece && piece.color === color) {
-        for (let toRow = 0; toRow < 8; toRow++) {
-          for (let toCol = 0; toCol < 8; toCol++) {
-            if (isValidMove(board, [fromRow, fromCol], [toRow, toCol], removedSquares, gameState)) {
-              const moveResult = makeMove(board, [fromRow, fromCol], [toRow, toCol], gameState);
-              if (!isInCheck(moveResult.board, color, removedSquares)) {
-                validMoves.push([[fromRow, fromCol], [toRow, toCol]]);
-              }
-            }
-          }
-        }
+export function getPositionKey(gameState: GameState): string {
+  const { board, currentPlayer, removedSquares, removalExpiry, history, castlingRights, enPassantTarget } = gameState;
+  
+  const boardKey = board
+    .map(row => row.map(piece => piece ? `${piece.color[0]}${piece.type}` : '-').join(','))
+    .join('/');
+  // Une case temporaire garde son compte à rebours : la même case à un autre stade n'est pas la même position
+  const removedKey = [...removedSquares]
+    .sort()
+    .map(key => key in removalExpiry ? `${key}:${removalExpiry[key] - history.length}` : key)
+    .join(',');
+  const castlingKey = Object.entries(castlingRights)
+    .filter(([, allowed]) => allowed)
+    .map(([side]) => side)
+    .join(',');
+  
+  // La case de prise en passant ne compte que si la prise est réellement jouable
+  let enPassantKey = '';
+  if (enPassantTarget) {
+    const captureRow = enPassantTarget[0] + (currentPlayer === 'white' ? 1 : -1);
+    for (const captureCol of [enPassantTarget[1] - 1, enPassantTarget[1] + 1]) {
+      if (captureCol < 0 || captureCol >= 8) continue;
+      if (isValidMove(board, [captureRow, captureCol], enPassantTarget, removedSquares, gameState)) {
+        enPassantKey = `${enPassantTarget[0]}-${enPassantTarget[1]}`;
       }
     }
   }
   
-  return validMoves;
+  return [boardKey, currentPlayer, removedKey, castlingKey, enPassantKey].join('|');
+}
+
+export function applyMove(
+  gameState: GameState,
+  from: Position,
+  to: Position,
+  promotion?: PromotionPieceType,
+  removalsPerPlayer: number = 0
+): { gameState: GameState; moveResult: MoveResult } {
+  const piece = gameState.board[from[0]][from[1]];
+  if (!piece) throw new Error(`Aucune pièce en ${squareToAlgebraic(from)}`);
+  
+  const moveResult = makeMove(gameState.board, from, to, gameState, promotion);
+  const castling = moveResult.isCastling ? getCastlingSide(gameState.board, from, to) ?? undefined : undefined;
+  const captured = moveResult.isEnPassant ? 'pawn' : castling ? undefined : gameState.board[to[0]][to[1]]?.type;
+  const opponent = gameState.currentPlayer === 'white' ? 'black' : 'white';
+  
+  const newGameState: GameState = expireRemovals({
+    ...updateCastlingRights(gameState, from, to),
+    board: moveResult.board,
+    currentPlayer: opponent,
+    selectedSquare: null,
+    enPassantTarget: moveResult.enPassantTarget,
+    halfmoveClock: captured || piece.type === 'pawn' ? 0 : gameState.halfmoveClock + 1,
+    fullmoveNumber: gameState.fullmoveNumber + (gameState.currentPlayer === 'black' ? 1 : 0),
+  }, gameState.history.length + 1);
+  
+  const record: PieceMoveRecord = {
+    type: 'move',
+    player: gameState.currentPlayer,
+    piece: piece.type,
+    from,
+    to,
+    captured,
+    promotion: moveResult.promotion,
+    castling,
+    isEnPassant: moveResult.isEnPassant || undefined,
+    notation: '',
+    timeLeft: { ...gameState.timeLeft },
+  };
+  // L'historique est à jour avant l'analyse du mat : les expirations du demi-coup suivant en dépendent
+  newGameState.history = [...gameState.history, record];
+  record.notation = formatMoveNotation({
+    piece: piece.type,
+    from,
+    to,
+    isCapture: !!captured,
+    promotion: moveResult.promotion,
+    castling,
+    disambiguation: getDisambiguation(gameState, from, to),
+    ...getCheckStatus(newGameState, removalsPerPlayer),
+  });
+  newGameState.positionHistory = [...gameState.positionHistory, getPositionKey(newGameState)];
+  
+  return { gameState: newGameState, moveResult };
 }
 
-export function isCheckmate(board: Board, color: Player, removedSquares: Set<string>, gameState?: GameState): boolean {
-  if (!isInCheck(board, color, removedSquares)) return false;
+// Échec du joueur au trait après une action ; tant qu'il lui reste une suppression, elle peut encore parer l'échec
+function getCheckStatus(gameState: GameState, removalsPerPlayer: number): { isCheck: boolean; isCheckmate: boolean } {
+  const { board, currentPlayer, removedSquares, removedSquareRules } = gameState;
+  const isCheck = isInCheck(board, currentPlayer, removedSquares, removedSquareRules);
+  const removalsLeft = removalsPerPlayer - gameState.removalsUsed[currentPlayer];
+  return { isCheck, isCheckmate: isCheck && isCheckmate(board, currentPlayer, removedSquares, gameState, removalsLeft) };
+}
+
+// Précise la colonne, la rangée ou la case de départ quand plusieurs pièces identiques peuvent jouer
+function getDisambiguation(gameState: GameState, from: Position, to: Position): string {
+  const piece = gameState.board[from[0]][from[1]];
+  if (!piece || piece.type === 'pawn' || piece.type === 'king') return '';
+  
+  const rivals = getAllValidMoves(gameState.board, piece.color, gameState.removedSquares, gameState)
+    .filter(move =>
+      move.to[0] === to[0] && move.to[1] === to[1] &&
+      (move.from[0] !== from[0] || move.from[1] !== from[1]) &&
+      gameState.board[move.from[0]][move.from[1]]?.type === piece.type
+    );
   
-  // Vérifier s'il existe des mouvements valides
-  const validMoves = getAllValidMoves(board, color, removedSquares, gameState);
-  return validMoves.length === 0;
-}
\ No newline at end of file
+  if (rivals.length === 0) return '';
+  if (!rivals.some(move => move.from[1] === from[1])) return FILES[from[1]];
+  if (!rivals.some(move => move.from[0] === from[0])) return `${8 - from[0]}`;
+  return squareToAlgebraic(from);
+}
+
+// Les cases temporaires dont le délai est écoulé reviennent, vides, au demi-coup ply
+function expireRemovals(gameState: GameState, ply: number): GameState {
+  const expired = Object.keys(gameState.removalExpiry).filter(key => gameState.removalExpiry[key] <= ply);
+  if (expired.length === 0) return gameState;
+  
+  const removedSquares = new Set(gameState.removedSquares);
+  const removalExpiry = { ...gameState.removalExpiry };
+  for (const key of expired) {
+    removedSquares.delete(key);
+    delete removalExpiry[key];
+  }
+  // Le retour d'une case est irréversible, comme une suppression
+  return { ...gameState, removedSquares, removalExpiry, halfmoveClock: 0 };
+}
+
+export function applyRemoval(gameState: GameState, square: Position, removalsPerPlayer: number = 0): GameState {
+  const key = `${square[0]}-${square[1]}`;
+  const removedSquares = new Set(gameState.removedSquares);
+  removedSquares.add(key);
+  const ply = gameState.history.length + 1;
+  const { lifetime } = gameState.removedSquareRules;
+  const record: RemovalRecord = {
+    type: 'removal',
+    player: gameState.currentPlayer,
+    square,
+    notation: '',
+    timeLeft: { ...gameState.timeLeft },
+  };
+  
+  const newGameState: GameState = expireRemovals({
+    ...gameState,
+    removedSquares,
+    removalExpiry: lifetime > 0 ? { ...gameState.removalExpiry, [key]: ply + lifetime } : gameState.removalExpiry,
+    removalsUsed: {
+      ...gameState.removalsUsed,
+      [gameState.currentPlayer]: gameState.removalsUsed[gameState.currentPlayer] + 1,
+    },
+    currentPlayer: gameState.currentPlayer === 'white' ? 'black' : 'white',
+    selectedSquare: null,
+    enPassantTarget: null, // La prise en passant n'est possible qu'au coup suivant
+    halfmoveClock: 0, // Une suppression est irréversible, comme une poussée de pion
+    fullmoveNumber: gameState.fullmoveNumber + (gameState.currentPlayer === 'black' ? 1 : 0),
+    history: [...gameState.history, record],
+  }, ply);
+  // Sous blockSliders, le retour d'une case temporaire peut découvrir un échec
+  record.notation = getRemovalNotation(square, getCheckStatus(newGameState, removalsPerPlayer));
+  newGameState.positionHistory = [...gameState.positionHistory, getPositionKey(newGameState)];
+  
+  return newGameState;
+}
+
+// Demi-coups restants avant le retour de chaque case supprimée temporairement
+export function getRemovalCountdowns(gameState: GameState): Record<string, number> {
+  const countdowns: Record<string, number> = {};
+  for (const [key, expiresAt] of Object.entries(gameState.removalExpiry)) {
+    countdowns[key] = expiresAt - gameState.history.length;
+  }
+  return countdowns;
+}
+
+export function applyRestore(gameState: GameState, square: Position, removalsPerPlayer: number = 0): GameState {
+  const key = `${square[0]}-${square[1]}`;
+  const removedSquares = new Set(gameState.removedSquares);
+  removedSquares.delete(key);
+  const removalExpiry = { ...gameState.removalExpiry };
+  delete removalExpiry[key];
+  const ply = gameState.history.length + 1;
+  const record: RestoreRecord = {
+    type: 'restore',
+    player: gameState.currentPlayer,
+    square,
+    notation: '',
+    timeLeft: { ...gameState.timeLeft },
+  };
+  
+  const newGameState: GameState = expireRemovals({
+    ...gameState,
+    removedSquares,
+    removalExpiry,
+    restoresUsed: {
+      ...gameState.restoresUsed,
+      [gameState.currentPlayer]: gameState.restoresUsed[gameState.currentPlayer] + 1,
+    },
+    currentPlayer: gameState.currentPlayer === 'white' ? 'black' : 'white',
+    selectedSquare: null,
+    enPassantTarget: null,
+    halfmoveClock: 0,
+    fullmoveNumber: gameState.fullmoveNumber + (gameState.currentPlayer === 'black' ? 1 : 0),
+    history: [...gameState.history, record],
+  }, ply);
+  // Rouvrir une case peut dégager la ligne d'une pièce longue vers le roi adverse
+  record.notation = getRestoreNotation(square, getCheckStatus(newGameState, removalsPerPlayer));
+  newGameState.positionHistory = [...gameState.positionHistory, getPositionKey(newGameState)];
+  
+  return newGameState;
+}
+
+// Joueur attendu : celui qui place pendant le draft, celui qui a le trait ensuite
+export function getActivePlayer(gameState: GameState): Player {
+  return gameState.draftState ? gameState.draftState.currentDraftPlayer : gameState.currentPlayer;
+}
+
+export function isValidRemoval(gameState: GameState, square: Position, removalsPerPlayer: number): boolean {
+  const [row, col] = square;
+  if (gameState.removalsUsed[gameState.currentPlayer] >= removalsPerPlayer) return false;
+  if (gameState.removedSquares.has(`${row}-${col}`)) return false;
+  if (gameState.board[row][col] !== null) return false;
+  
+  // Le roi ne doit pas rester en échec : une suppression ne pare un échec que si les cases
+  // supprimées arrêtent les pièces longues
+  const removedSquares = new Set(gameState.removedSquares).add(`${row}-${col}`);
+  return !isInCheckAfterPly(gameState, gameState.board, removedSquares);
+}
+
+export function isValidRestore(gameState: GameState, square: Position, restoresPerPlayer: number): boolean {
+  const key = `${square[0]}-${square[1]}`;
+  if (gameState.restoresUsed[gameState.currentPlayer] >= restoresPerPlayer) return false;
+  if (!gameState.removedSquares.has(key)) return false;
+  
+  // Rouvrir une case peut dégager une ligne vers son propre roi si les cases supprimées arrêtent les pièces longues
+  const removedSquares = new Set(gameState.removedSquares);
+  removedSquares.delete(key);
+  return !isInCheckAfterPly(gameState, gameState.board, removedSquares);
+}
+
+// Rangées où un joueur pose ses pièces, de sa dernière rangée vers le centre
+export function getDraftZoneRows(draftState: DraftState, player: Player): number[] {
+  return Array.from({ length: DRAFT_ZONE_DEPTHS[draftState.zone] }, (_, index) => (player === 'white' ? 7 - index : index));
+}
+
+// Les pièces les plus contraintes sont cherchées d'abord ; au-delà du budget de nœuds, la réserve est
+// tenue pour impossible à placer : mieux vaut refuser une case jouable que laisser le draft sans issue
+const DRAFT_SEARCH_ORDER: PieceType[] = ['king', 'bishop', 'pawn', 'queen', 'rook', 'knight'];
+export const DRAFT_SEARCH_NODES = 400;
+
+// La réserve restante tient-elle encore dans la zone ? On cherche un placement complet : pions hors de la
+// dernière rangée, roi sur celle-ci si la contrainte l'exige, fous sur les deux couleurs si demandé, aucun
+// roi en échec. Les pièces que l'adversaire posera plus tard ne sont pas anticipées
+export function canCompleteDraftZone(
+  board: Board,
+  draftState: DraftState,
+  player: Player,
+  reserve: PieceType[],
+  maxNodes: number = DRAFT_SEARCH_NODES
+): boolean {
+  const zoneRows = getDraftZoneRows(draftState, player);
+  const backRow = zoneRows[0];
+  const squares = zoneRows.flatMap(row => Array.from({ length: 8 }, (_, col): Position => [row, col]));
+  const kingOnBackRank = draftState.constraints.includes('kingOnBackRank');
+  const checkBishops = draftState.constraints.includes('oppositeBishops');
+  const isLight = ([row, col]: Position) => (row + col) % 2 === 0;
+  
+  // Bornes immédiates : les pions restants tiennent devant, le roi derrière, les fous trouvent encore
+  // la couleur qui leur manque (un fou seul n'en a pas à compléter), et le tout tient dans la zone
+  const fits = (pieces: PieceType[]) => {
+    const free = squares.filter(([row, col]) => !board[row][col]);
+    const freeBack = free.filter(([row]) => row === backRow).length;
+    const count = (type: PieceType) => pieces.filter(piece => piece === type).length;
+    if (count('pawn') > free.length - freeBack || (kingOnBackRank && count('king') > freeBack)) return false;
+    if (pieces.length > free.length) return false;
+    if (!checkBishops) return true;
+    
+    const placedColors = squares.flatMap(([row, col]) => {
+      const piece = board[row][col];
+      return piece?.color === player && piece.type === 'bishop' ? [isLight([row, col])] : [];
+    });
+    const bishops = count('bishop');
+    if (placedColors.length + bishops < 2) return true;
+    const missingColors = [true, false].filter(light => !placedColors.includes(light));
+    return missingColors.length <= bishops && missingColors.every(light => free.some(square => isLight(square) === light));
+  };
+  
+  const pieces = [...reserve].sort((a, b) => DRAFT_SEARCH_ORDER.indexOf(a) - DRAFT_SEARCH_ORDER.indexOf(b));
+  const noRemovedSquares = new Set<string>();
+  let nodes = 0;
+  
+  // Les pièces identiques sont interchangeables : chacune prend une case après celle de la précédente
+  const place = (index: number, firstSquare: number): boolean => {
+    if (!fits(pieces.slice(index))) return false;
+    if (index === pieces.length) return true;
+    if (++nodes > maxNodes) return false;
+    
+    const piece = pieces[index];
+    const start = index > 0 && pieces[index - 1] === piece ? firstSquare : 0;
+    for (let squareIndex = start; squareIndex < squares.length && nodes <= maxNodes; squareIndex++) {
+      const [row, col] = squares[squareIndex];
+      if (board[row][col]) continue;
+      if (piece === 'pawn' && row === backRow) continue;
+      if (piece === 'king' && kingOnBackRank && row !== backRow) continue;
+      
+      board[row][col] = { type: piece, color: player };
+      const found = !isInCheck(board, 'white', noRemovedSquares) && !isInCheck(board, 'black', noRemovedSquares)
+        && place(index + 1, squareIndex + 1);
+      board[row][col] = null;
+      if (found) return true;
+    }
+    return false;
+  };
+  return place(0, 0);
+}
+
+export function isValidDraftPlacement(gameState: GameState, piece: PieceType, square: Position): boolean {
+  const { draftState } = gameState;
+  if (!draftState || draftState.phase !== 'placement') return false;
+  const player = draftState.currentDraftPlayer;
+  const reserve = draftState.availablePieces[player];
+  if (!reserve.includes(piece)) return false;
+  
+  const [row, col] = square;
+  const zoneRows = getDraftZoneRows(draftState, player);
+  if (!zoneRows.includes(row)) return false;
+  
+  // Vérifier que la case est libre
+  if (gameState.board[row][col] !== null) return false;
+  
+  // Comme aux échecs classiques, jamais de pion sur sa dernière rangée
+  if (piece === 'pawn' && row === zoneRows[0]) return false;
+  if (piece === 'king' && draftState.constraints.includes('kingOnBackRank') && row !== zoneRows[0]) return false;
+  
+  // Aucun roi ne doit commencer la partie en échec. Le choix caché du draft à l'aveugle est ignoré pour ne
+  // rien en laisser deviner : un conflit avec lui se règle à la révélation
+  const board = gameState.board.map(boardRow => [...boardRow]);
+  board[row][col] = { type: piece, color: player };
+  const noRemovedSquares = new Set<string>();
+  if (isInCheck(board, 'white', noRemovedSquares) || isInCheck(board, 'black', noRemovedSquares)) return false;
+  
+  // Les deux joueurs doivent encore pouvoir terminer leur placement
+  const remaining = [...reserve];
+  remaining.splice(remaining.indexOf(piece), 1);
+  const opponent = player === 'white' ? 'black' : 'white';
+  const hidden = draftState.hiddenPlacement;
+  const opponentReserve = hidden?.player === opponent
+    ? [...draftState.availablePieces[opponent], hidden.piece]
+    : draftState.availablePieces[opponent];
+  return canCompleteDraftZone(board, draftState, player, remaining)
+    && canCompleteDraftZone(board, draftState, opponent, opponentReserve);
+}
+
+// Draft à l'aveugle : les Noirs choisissent à nouveau, le choix des Blancs révélé, après une paire incompatible
+export function isBlindDraftRepick(gameState: GameState): boolean {
+  const draftState = gameState.draftState;
+  if (draftState?.format !== 'blind' || draftState.phase !== 'placement' || draftState.hiddenPlacement) return false;
+  const lastRecord = gameState.history[gameState.history.length - 1];
+  return lastRecord?.type === 'placement' && lastRecord.player === 'white' && draftState.currentDraftPlayer === 'black';
+}
+
+export function isValidArmyPurchase(gameState: GameState, pieces: PieceType[]): boolean {
+  const { draftState } = gameState;
+  return !!draftState && draftState.phase === 'shop' && draftState.armyBudget !== null
+    && isValidArmy(pieces, draftState.armyBudget);
+}
+
+// Les Blancs achètent d'abord ; une fois les deux armées connues, le placement commence par les Blancs
+export function applyArmyPurchase(gameState: GameState, pieces: PieceType[]): GameState {
+  const draftState = gameState.draftState;
+  if (!draftState) return gameState;
+  
+  const player = draftState.currentDraftPlayer;
+  const opponent = player === 'white' ? 'black' : 'white';
+  const army = sortArmy(pieces);
+  const record: PurchaseRecord = {
+    type: 'purchase',
+    player,
+    pieces: army,
+    notation: getPurchaseNotation(army),
+    timeLeft: { ...gameState.timeLeft },
+  };
+  
+  const availablePieces = { ...draftState.availablePieces, [player]: army };
+  const isShopOver = availablePieces[opponent].length > 0;
+  const currentDraftPlayer = isShopOver ? 'white' : opponent;
+  return {
+    ...gameState,
+    currentPlayer: currentDraftPlayer,
+    history: [...gameState.history, record],
+    draftState: {
+      ...draftState,
+      availablePieces,
+      selectedPiece: null,
+      currentDraftPlayer,
+      placementsLeftInTurn: 1,
+      phase: isShopOver ? 'placement' : 'shop',
+    },
+  };
+}
+
+// Joueur qui place ensuite et nombre de placements qui lui reviennent ;
+// un joueur dont la réserve est vide ne reçoit plus la main
+function getNextDraftTurn(
+  draftState: DraftState,
+  player: Player,
+  availablePieces: DraftState['availablePieces']
+): Pick<DraftState, 'currentDraftPlayer' | 'placementsLeftInTurn'> {
+  const opponent = player === 'white' ? 'black' : 'white';
+  const canPlace = (color: Player) => availablePieces[color].length > 0;
+  
+  if (draftState.format === 'snake') {
+    if (draftState.placementsLeftInTurn > 1 && canPlace(player)) {
+      return { currentDraftPlayer: player, placementsLeftInTurn: draftState.placementsLeftInTurn - 1 };
+    }
+    return canPlace(opponent)
+      ? { currentDraftPlayer: opponent, placementsLeftInTurn: 2 }
+      : { currentDraftPlayer: player, placementsLeftInTurn: 1 };
+  }
+  
+  // À l'aveugle, chaque manche s'ouvre sur le choix caché des Blancs
+  if (draftState.format === 'blind' && draftState.hiddenPlacement) {
+    return { currentDraftPlayer: canPlace('white') ? 'white' : 'black', placementsLeftInTurn: 1 };
+  }
+  
+  return { currentDraftPlayer: canPlace(opponent) ? opponent : player, placementsLeftInTurn: 1 };
+}
+
+export function applyDraftPlacement(gameState: GameState, piece: PieceType, square: Position): GameState {
+  const draftState = gameState.draftState;
+  if (!draftState) return gameState;
+  
+  const player = draftState.currentDraftPlayer;
+  const opponent = player === 'white' ? 'black' : 'white';
+  
+  // Retirer la pièce de la réserve
+  const playerPieces = [...draftState.availablePieces[player]];
+  const pieceIndex = playerPieces.indexOf(piece);
+  if (pieceIndex > -1) {
+    playerPieces.splice(pieceIndex, 1);
+  }
+  const newAvailablePieces = { ...draftState.availablePieces, [player]: playerPieces };
+  const nextTurn = getNextDraftTurn(draftState, player, newAvailablePieces);
+  
+  const record: PlacementRecord = {
+    type: 'placement',
+    player,
+    piece,
+    square,
+    notation: getPlacementNotation(piece, square),
+    timeLeft: { ...gameState.timeLeft },
+  };
+  
+  // Draft à l'aveugle : le choix des Blancs reste hors du plateau jusqu'à celui des Noirs
+  if (draftState.format === 'blind' && player === 'white' && !draftState.hiddenPlacement
+    && draftState.availablePieces[opponent].length > 0) {
+    return {
+      ...gameState,
+      currentPlayer: nextTurn.currentDraftPlayer,
+      draftState: {
+        ...draftState,
+        ...nextTurn,
+        availablePieces: newAvailablePieces,
+        selectedPiece: null,
+        hiddenPlacement: record,
+      },
+    };
+  }
+  
+  const hidden = draftState.hiddenPlacement;
+  const placements = hidden ? [hidden, record] : [record];
+  const newBoard = gameState.board.map(boardRow => [...boardRow]);
+  for (const placement of placements) {
+    newBoard[placement.square[0]][placement.square[1]] = { type: placement.piece, color: placement.player };
+  }
+  
+  // Paire incompatible (échec, réserve qui ne tient plus) : le choix caché est posé et révélé,
+  // le second choix revient en réserve et les Noirs choisissent à nouveau en le voyant
+  if (hidden) {
+    const revealedBoard = gameState.board.map(boardRow => [...boardRow]);
+    revealedBoard[hidden.square[0]][hidden.square[1]] = { type: hidden.piece, color: hidden.player };
+    const revealedGameState = { ...gameState, board: revealedBoard, draftState: { ...draftState, hiddenPlacement: null } };
+    if (!isValidDraftPlacement(revealedGameState, piece, square)) {
+      return {
+        ...revealedGameState,
+        currentPlayer: player,
+        history: [...gameState.history, hidden],
+        draftState: { ...revealedGameState.draftState, selectedPiece: null, currentDraftPlayer: player, placementsLeftInTurn: 1 },
+      };
+    }
+  }
+  const history = [...gameState.history, ...placements];
+  
+  // Vérifier si la phase de draft est terminée
+  const isDraftComplete = newAvailablePieces.white.length + newAvailablePieces.black.length === 0;
+  if (isDraftComplete && !draftState.review) {
+    return startDraftedGame({ ...gameState, board: newBoard, history });
+  }
+  if (isDraftComplete) {
+    // Vérification finale : les Blancs valident d'abord
+    return {
+      ...gameState,
+      board: newBoard,
+      currentPlayer: 'white',
+      history,
+      draftState: {
+        ...draftState,
+        availablePieces: newAvailablePieces,
+        selectedPiece: null,
+        currentDraftPlayer: 'white',
+        placementsLeftInTurn: 1,
+        hiddenPlacement: null,
+        phase: 'review',
+      },
+    };
+  }
+  
+  return {
+    ...gameState,
+    board: newBoard,
+    currentPlayer: nextTurn.currentDraftPlayer,
+    history,
+    draftState: {
+      ...draftState,
+      ...nextTurn,
+      availablePieces: newAvailablePieces,
+      selectedPiece: null,
+      hiddenPlacement: null,
+    },
+  };
+}
+
+// Fin du draft : les droits de roque suivent les tours réellement placées et le chrono de partie reprend
+function startDraftedGame(gameState: GameState): GameState {
+  const startedGameState: GameState = {
+    ...gameState,
+    ...getCastlingSetup(gameState.board),
+    timeLeft: gameState.draftState?.gameTimeLeft ?? gameState.timeLeft,
+    currentPlayer: 'white', // Les blancs commencent toujours
+    draftState: undefined,
+  };
+  return { ...startedGameState, positionHistory: [getPositionKey(startedGameState)] };
+}
+
+export function isValidDraftConfirmation(gameState: GameState): boolean {
+  return gameState.draftState?.phase === 'review';
+}
+
+// La partie commence quand les Noirs ont validé à leur tour
+export function confirmDraft(gameState: GameState): GameState {
+  const draftState = gameState.draftState;
+  if (!draftState || draftState.phase !== 'review') return gameState;
+  
+  const player = draftState.currentDraftPlayer;
+  const record: ConfirmationRecord = {
+    type: 'confirmation',
+    player,
+    notation: '✓',
+    timeLeft: { ...gameState.timeLeft },
+  };
+  const history = [...gameState.history, record];
+  if (player === 'black') return startDraftedGame({ ...gameState, history });
+  
+  return {
+    ...gameState,
+    currentPlayer: 'black',
+    history,
+    draftState: { ...draftState, currentDraftPlayer: 'black' },
+  };
+}
+
+// Joueur qui peut reprendre son dernier placement : tant que l'adversaire n'a ni placé ni validé.
+// Au draft à l'aveugle, seul le choix encore caché se reprend
+export function getUndoableDraftPlayer(gameState: GameState): Player | null {
+  const draftState = gameState.draftState;
+  if (!draftState || draftState.phase === 'shop') return null;
+  if (draftState.hiddenPlacement) return draftState.hiddenPlacement.player;
+  if (draftState.format === 'blind') return null;
+  
+  const lastRecord = gameState.history[gameState.history.length - 1];
+  return lastRecord?.type === 'placement' ? lastRecord.player : null;
+}
+
+export function undoDraftPlacement(gameState: GameState): GameState {
+  const draftState = gameState.draftState;
+  const player = getUndoableDraftPlayer(gameState);
+  if (!draftState || !player) return gameState;
+  
+  const record = draftState.hiddenPlacement ?? gameState.history[gameState.history.length - 1];
+  if (record.type !== 'placement') return gameState;
+  const availablePieces = {
+    ...draftState.availablePieces,
+    [player]: sortArmy([...draftState.availablePieces[player], record.piece]),
+  };
+  
+  if (draftState.hiddenPlacement) {
+    return {
+      ...gameState,
+      currentPlayer: player,
+      draftState: { ...draftState, availablePieces, selectedPiece: null, currentDraftPlayer: player, hiddenPlacement: null },
+    };
+  }
+  
+  const board = gameState.board.map(boardRow => [...boardRow]);
+  board[record.square[0]][record.square[1]] = null;
+  const history = gameState.history.slice(0, -1);
+  // En serpent, le joueur retrouve le placement qu'il lui restait : un seul s'il avait déjà posé une pièce de la paire
+  const previousPlacement = history.filter(previous => previous.type === 'placement').pop();
+  const placementsLeftInTurn = draftState.format === 'snake' && previousPlacement && previousPlacement.player !== player ? 2 : 1;
+  return {
+    ...gameState,
+    board,
+    currentPlayer: player,
+    history,
+    draftState: {
+      ...draftState,
+      availablePieces,
+      selectedPiece: null,
+      currentDraftPlayer: player,
+      placementsLeftInTurn,
+      phase: 'placement',
+    },
+  };
+}
+
+export function getGameResult(
+  gameState: GameState,
+  removalsPerPlayer: number,
+  restoresPerPlayer: number = 0
+): GameResult | null {
+  const { board, currentPlayer, removedSquares } = gameState;
+  const opponent = currentPlayer === 'white' ? 'black' : 'white';
+  const removalsLeft = removalsPerPlayer - gameState.removalsUsed[currentPlayer];
+  const restoresLeft = restoresPerPlayer - gameState.restoresUsed[currentPlayer];
+  
+  if (isCheckmate(board, currentPlayer, removedSquares, gameState, removalsLeft)) {
+    return { outcome: 'win', winner: opponent, reason: 'checkmate' };
+  }
+  
+  if (isStalemate(board, currentPlayer, removedSquares, gameState, removalsLeft, restoresLeft)) {
+    return { outcome: 'draw', winner: null, reason: 'stalemate' };
+  }
+  
+  if (isInsufficientMaterial(board)) {
+    return { outcome: 'draw', winner: null, reason: 'insufficientMaterial' };
+  }
+  
+  const currentKey = gameState.positionHistory[gameState.positionHistory.length - 1];
+  if (currentKey && gameState.positionHistory.filter(key => key === currentKey).length >= 3) {
+    return { outcome: 'draw', winner: null, reason: 'threefoldRepetition' };
+  }
+  
+  if (gameState.halfmoveClock >= 100) {
+    return { outcome: 'draw', winner: null, reason: 'fiftyMoveRule' };
+  }
+  
+  return null;
+}
+
+export function getTimeoutResult(gameState: GameState, flaggedPlayer: Player): GameResult {
+  const opponent = flaggedPlayer === 'white' ? 'black' : 'white';
+  
+  // Le temps écoulé ne fait pas perdre si l'adversaire ne peut plus mater. Pendant le draft,
+  // ses pièces ne sont pas encore toutes posées : la chute du drapeau fait toujours perdre
+  if (!gameState.draftState && !hasMatingMaterial(gameState.board, opponent)) {
+    return { outcome: 'draw', winner: null, reason: 'timeout' };
+  }
+  
+  return { outcome: 'win', winner: opponent, reason: 'timeout' };
+}
@@ -0,0 +1,95 @@
+import { ClockMode, GameSettings, Player } from '@/types/chess';
+
+// Chronos en millisecondes, calculés à partir d'horodatages monotones :
+// le temps restant n'est figé qu'en fin de tour et ne dépend pas de la régularité des minuteries.
+// Chaque action qui passe la main compte comme un tour : coup, suppression ou placement du draft.
+
+export type Clocks = { white: number; black: number };
+
+export interface TimeControl {
+  mode: ClockMode;
+  incrementMs: number; // incrément Fischer, délai Bronstein ou délai simple ; ignoré en sablier
+}
+
+export const SUDDEN_DEATH: TimeControl = { mode: 'fischer', incrementMs: 0 };
+
+const clockModeLabels: Record<ClockMode, string> = {
+  fischer: 'Fischer',
+  bronstein: 'Bronstein',
+  delay: 'délai simple',
+  hourglass: 'sablier',
+};
+
+// performance.now() ne recule jamais, contrairement à Date.now() lors d'un changement d'heure
+export function getMonotonicTime(): number {
+  return performance.now();
+}
+
+export function getTimeControl(settings: Pick<GameSettings, 'clockMode' | 'clockIncrement'>): TimeControl {
+  return { mode: settings.clockMode, incrementMs: settings.clockIncrement * 1000 };
+}
+
+// « 5 min », « 3+2 », « 5+3 Bronstein », « 10 min sablier »
+export function formatTimeControl({ timeLimit, clockMode, clockIncrement }: Pick<GameSettings, 'timeLimit' | 'clockMode' | 'clockIncrement'>): string {
+  if (clockMode === 'hourglass') return `${timeLimit} min ${clockModeLabels.hourglass}`;
+  if (!clockIncrement) return `${timeLimit} min`;
+  return clockMode === 'fischer'
+    ? `${timeLimit}+${clockIncrement}`
+    : `${timeLimit}+${clockIncrement} ${clockModeLabels[clockMode]}`;
+}
+
+// Temps restant à l'instant donné, le tour en cours décompté mais sans son incrément
+export function getLiveTimeLeft(
+  timeLeft: Clocks,
+  runningPlayer: Player | null,
+  turnStartedAt: number | null,
+  timeControl: TimeControl,
+  now: number = getMonotonicTime()
+): Clocks {
+  if (!runningPlayer || turnStartedAt === null) return timeLeft;
+
+  const elapsed = Math.max(0, now - turnStartedAt);
+  // Délai simple : le chrono ne commence à tourner qu'une fois le délai écoulé
+  const used = timeControl.mode === 'delay' ? Math.max(0, elapsed - timeControl.incrementMs) : elapsed;
+  const spent = Math.min(used, timeLeft[runningPlayer]);
+  const liveTimeLeft = { ...timeLeft, [runningPlayer]: timeLeft[runningPlayer] - spent };
+
+  // Sablier : ce que l'un dépense, l'autre le gagne
+  if (timeControl.mode === 'hourglass') {
+    const opponent = runningPlayer === 'white' ? 'black' : 'white';
+    liveTimeLeft[opponent] = timeLeft[opponent] + spent;
+  }
+  return liveTimeLeft;
+}
+
+// Fin de tour : le temps écoulé est décompté, puis l'incrément ou le délai Bronstein est accordé
+export function endTurn(
+  timeLeft: Clocks,
+  player: Player,
+  turnStartedAt: number | null,
+  timeControl: TimeControl,
+  now: number = getMonotonicTime()
+): Clocks {
+  const liveTimeLeft = getLiveTimeLeft(timeLeft, player, turnStartedAt, timeControl, now);
+  const elapsed = turnStartedAt === null ? 0 : Math.max(0, now - turnStartedAt);
+
+  if (timeControl.mode === 'fischer') {
+    liveTimeLeft[player] += timeControl.incrementMs;
+  } else if (timeControl.mode === 'bronstein') {
+    // Rend le temps pris, au plus le délai : le chrono ne dépasse jamais sa valeur de début de tour
+    liveTimeLeft[player] += Math.min(elapsed, timeControl.incrementMs, timeLeft[player] - liveTimeLeft[player]);
+  }
+  return liveTimeLeft;
+}
+
+// Millisecondes avant la chute du drapeau du joueur dont le chrono tourne
+export function getTimeUntilFlag(
+  timeLeft: Clocks,
+  runningPlayer: Player,
+  turnStartedAt: number,
+  timeControl: TimeControl,
+  now: number = getMonotonicTime()
+): number {
+  const delay = timeControl.mode === 'delay' ? timeControl.incrementMs : 0;
+  return Math.max(0, timeLeft[runningPlayer] + delay - (now - turnStartedAt));
+}
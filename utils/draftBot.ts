@@ -0,0 +1,186 @@
+import { Board, DraftStyle, GameState, PieceType, Player, Position } from '@/types/chess';
+import { getDraftZoneRows, isValidDraftPlacement } from '@/utils/chessLogic';
+import { isValidArmy, SHOP_PIECES } from '@/utils/army';
+
+export interface DraftPlacement {
+  piece: PieceType;
+  square: Position;
+}
+
+// Ordre de placement préféré : le style équilibré abrite d'abord son roi,
+// le style agressif garde le sien en réserve pour réagir aux pièces adverses
+const PLACEMENT_PRIORITY: Record<Exclude<DraftStyle, 'random'>, Record<PieceType, number>> = {
+  balanced: { king: 30, rook: 20, bishop: 15, queen: 10, knight: 5, pawn: 0 },
+  aggressive: { queen: 30, rook: 25, bishop: 20, knight: 15, king: 0, pawn: 0 },
+};
+
+// Achats dans l'ordre de la liste tant que le budget le permet : des pions d'abord pour ne pas en manquer,
+// puis les pièces ; le reste du budget va aux pièces les plus chères encore abordables
+const ARMY_WISHLISTS: Record<Exclude<DraftStyle, 'random'>, PieceType[]> = {
+  balanced: [
+    'pawn', 'pawn', 'pawn', 'pawn', 'rook', 'bishop', 'knight', 'queen',
+    'pawn', 'pawn', 'pawn', 'pawn', 'rook', 'bishop', 'knight',
+  ],
+  aggressive: [
+    'queen', 'pawn', 'pawn', 'pawn', 'pawn', 'queen', 'rook', 'knight', 'bishop',
+    'pawn', 'pawn', 'pawn', 'pawn', 'rook', 'bishop', 'knight',
+  ],
+};
+const ARMY_FILLERS: PieceType[] = ['queen', 'rook', 'bishop', 'knight', 'pawn'];
+
+export function getDraftArmy(budget: number, style: DraftStyle, random: () => number = Math.random): PieceType[] {
+  const army: PieceType[] = ['king'];
+  const canBuy = (piece: PieceType) => isValidArmy([...army, piece], budget);
+
+  if (style === 'random') {
+    let affordable = SHOP_PIECES.filter(canBuy);
+    while (affordable.length > 0) {
+      army.push(affordable[Math.floor(random() * affordable.length)]);
+      affordable = SHOP_PIECES.filter(canBuy);
+    }
+    return army;
+  }
+
+  for (const piece of ARMY_WISHLISTS[style]) {
+    if (canBuy(piece)) army.push(piece);
+  }
+  for (const piece of ARMY_FILLERS) {
+    while (canBuy(piece)) army.push(piece);
+  }
+  return army;
+}
+
+function getBackRow(player: Player): number {
+  return player === 'white' ? 7 : 0;
+}
+
+function isLightSquare(row: number, col: number): boolean {
+  return (row + col) % 2 === 0;
+}
+
+function findBackRankPiece(board: Board, row: number, color: Player, type: PieceType): number[] {
+  return board[row].flatMap((piece, col) => (piece && piece.color === color && piece.type === type ? [col] : []));
+}
+
+// Une pièce longue de la dernière rangée adverse vise-t-elle cette colonne de notre dernière rangée ?
+function isInOpponentLineOfFire(board: Board, opponentRow: number, opponent: Player, col: number): boolean {
+  return board[opponentRow].some((piece, opponentCol) => {
+    if (!piece || piece.color !== opponent) return false;
+    const fileAttack = opponentCol === col && (piece.type === 'rook' || piece.type === 'queen');
+    const diagonalAttack = Math.abs(opponentCol - col) === 7 && (piece.type === 'bishop' || piece.type === 'queen');
+    return fileAttack || diagonalAttack;
+  });
+}
+
+function scorePlacement(
+  gameState: GameState,
+  player: Player,
+  piece: PieceType,
+  [pieceRow, col]: Position,
+  style: Exclude<DraftStyle, 'random'>
+): number {
+  const { board, draftState } = gameState;
+  const row = getBackRow(player);
+  const opponent: Player = player === 'white' ? 'black' : 'white';
+  const opponentRow = getBackRow(opponent);
+  const opponentKingCol = findBackRankPiece(board, opponentRow, opponent, 'king')[0];
+  const ownKingCol = findBackRankPiece(board, row, player, 'king')[0];
+
+  let score = PLACEMENT_PRIORITY[style][piece];
+  // Zone de plusieurs rangées : les pièces gardent la dernière rangée, celles de devant reviennent aux pions
+  if (piece !== 'pawn' && pieceRow !== row) score -= 15;
+
+  switch (piece) {
+    case 'king':
+      // Roi abrité près d'un coin plutôt qu'au centre
+      score += [10, 25, 20, -10, -10, 20, 25, 10][col];
+      if (isInOpponentLineOfFire(board, opponentRow, opponent, col)) score -= 40;
+      break;
+    case 'rook':
+      score += col === 0 || col === 7 ? 15 : 0;
+      // Une tour à côté du roi du côté du bord sert de rempart
+      if (ownKingCol !== undefined && Math.abs(ownKingCol - col) === 1) score += 5;
+      break;
+    case 'bishop': {
+      // Deux fous de couleurs complémentaires
+      const placedBishops = findBackRankPiece(board, row, player, 'bishop');
+      if (placedBishops.some(bishopCol => isLightSquare(row, bishopCol) === isLightSquare(row, col))) {
+        score -= 100;
+      }
+      if (style === 'aggressive' && opponentKingCol !== undefined
+        && isLightSquare(row, col) === isLightSquare(opponentRow, opponentKingCol)) {
+        score += 15;
+      }
+      break;
+    }
+    case 'knight':
+      score += col === 1 || col === 6 ? 10 : col === 0 || col === 7 ? -5 : 0;
+      break;
+    case 'queen':
+      score += col === 3 || col === 4 ? 10 : 0;
+      break;
+  }
+
+  // Réaction au roi adverse : les pièces d'attaque se rapprochent de sa colonne
+  if (opponentKingCol !== undefined && piece !== 'king') {
+    const weight = style === 'aggressive' ? 6 : 2;
+    score += (7 - Math.abs(opponentKingCol - col)) * weight;
+    if ((piece === 'rook' || piece === 'queen') && col === opponentKingCol) {
+      score += style === 'aggressive' ? 25 : 10;
+    }
+  }
+
+  // Ne pas occuper la dernière case d'une couleur encore nécessaire à un fou non placé
+  if (draftState) {
+    const isBishop = piece === 'bishop';
+    const bishopsLeft = draftState.availablePieces[player].filter(type => type === 'bishop').length - (isBishop ? 1 : 0);
+    const placedBishops = [...findBackRankPiece(board, row, player, 'bishop'), ...(isBishop ? [col] : [])];
+    const freeSquares = board[row]
+      .map((square, freeCol) => (square === null && freeCol !== col ? freeCol : -1))
+      .filter(freeCol => freeCol !== -1);
+    const freeLight = freeSquares.filter(freeCol => isLightSquare(row, freeCol)).length;
+    const freeDark = freeSquares.length - freeLight;
+    const neededColors = bishopsLeft === 2
+      ? [true, false]
+      : bishopsLeft === 1 && placedBishops.length === 1
+        ? [!isLightSquare(row, placedBishops[0])]
+        : [];
+    if (neededColors.some(light => (light ? freeLight : freeDark) === 0)) score -= 100;
+  }
+
+  return score;
+}
+
+export function getDraftPlacement(
+  gameState: GameState,
+  style: DraftStyle,
+  random: () => number = Math.random
+): DraftPlacement | null {
+  const draftState = gameState.draftState;
+  if (!draftState) return null;
+
+  const player = draftState.currentDraftPlayer;
+  const rows = getDraftZoneRows(draftState, player);
+  const pieces = [...new Set(draftState.availablePieces[player])];
+  const candidates: DraftPlacement[] = pieces.flatMap(piece => rows.flatMap(row =>
+    Array.from({ length: 8 }, (_, col): DraftPlacement => ({ piece, square: [row, col] }))
+      .filter(candidate => isValidDraftPlacement(gameState, candidate.piece, candidate.square))
+  ));
+  if (candidates.length === 0) return null;
+
+  if (style === 'random') {
+    return candidates[Math.floor(random() * candidates.length)];
+  }
+
+  // Un léger bruit départage les placements équivalents d'une partie à l'autre
+  let best = candidates[0];
+  let bestScore = -Infinity;
+  for (const candidate of candidates) {
+    const score = scorePlacement(gameState, player, candidate.piece, candidate.square, style) + random() * 4;
+    if (score > bestScore) {
+      bestScore = score;
+      best = candidate;
+    }
+  }
+  return best;
+}
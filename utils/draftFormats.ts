@@ -0,0 +1,51 @@
+import { DraftFormat, PieceType } from '@/types/chess';
+
+export const DRAFT_FORMATS: DraftFormat[] = ['alternate', 'random', 'blind', 'snake'];
+
+// Le draft à l'aveugle suppose que le serveur cache le premier choix : il ne se joue que sur un même appareil
+export const ONLINE_DRAFT_FORMATS: DraftFormat[] = ['alternate', 'random', 'snake'];
+
+// Graine sur 32 bits, pour qu'un même nombre redonne le même tirage sur tous les appareils
+export const MAX_DRAFT_SEED = 0xffffffff;
+
+export function isValidDraftSeed(seed: unknown): seed is number {
+  return Number.isInteger(seed) && (seed as number) >= 0 && (seed as number) <= MAX_DRAFT_SEED;
+}
+
+export function getRandomDraftSeed(): number {
+  return Math.floor(Math.random() * (MAX_DRAFT_SEED + 1));
+}
+
+// Générateur mulberry32 : petit, rapide et reproductible d'une plateforme à l'autre
+function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Dernière rangée façon Chess960, de la colonne a à la colonne h : fous de couleurs opposées,
+// roi entre les deux tours. Les Noirs reçoivent la même rangée en miroir.
+export function getRandomBackRank(seed: number): PieceType[] {
+  const random = createSeededRandom(seed);
+  const rank: (PieceType | null)[] = Array(8).fill(null);
+  const pick = (columns: number[]) => columns[Math.floor(random() * columns.length)];
+  const emptyColumns = () => rank.flatMap((piece, col) => (piece ? [] : [col]));
+
+  rank[pick([0, 2, 4, 6])] = 'bishop';
+  rank[pick([1, 3, 5, 7])] = 'bishop';
+  rank[pick(emptyColumns())] = 'queen';
+  rank[pick(emptyColumns())] = 'knight';
+  rank[pick(emptyColumns())] = 'knight';
+
+  const [leftRook, king, rightRook] = emptyColumns();
+  rank[leftRook] = 'rook';
+  rank[king] = 'king';
+  rank[rightRook] = 'rook';
+
+  return rank as PieceType[];
+}
@@ -0,0 +1,61 @@
+import { DraftConstraint, DraftReserve, DraftSetup, DraftZone } from '@/types/chess';
+import { SHOP_PIECES } from '@/utils/army';
+
+export const DRAFT_ZONES: DraftZone[] = ['backRank', 'backTwoRanks', 'half'];
+export const DRAFT_CONSTRAINTS: DraftConstraint[] = ['oppositeBishops', 'kingOnBackRank'];
+
+// Profondeur de chaque zone, en rangées comptées depuis la sienne
+export const DRAFT_ZONE_DEPTHS: Record<DraftZone, number> = {
+  backRank: 1,
+  backTwoRanks: 2,
+  half: 4,
+};
+
+export const DEFAULT_DRAFT_RESERVE: DraftReserve = {
+  king: 1,
+  queen: 1,
+  rook: 2,
+  bishop: 2,
+  knight: 2,
+  pawn: 0,
+};
+export const MAX_RESERVE_COUNT = 8;
+
+export const DEFAULT_DRAFT_SETUP: DraftSetup = {
+  reserve: DEFAULT_DRAFT_RESERVE,
+  zone: 'backRank',
+  constraints: [],
+};
+
+export function getReserveSize(reserve: DraftReserve): number {
+  return SHOP_PIECES.reduce((total, piece) => total + reserve[piece], 0);
+}
+
+// Les pions draftés ne se posent pas sur la dernière rangée : la zone compte alors au moins deux rangées
+export function getEffectiveDraftZone(zone: DraftZone, draftsPawns: boolean): DraftZone {
+  return draftsPawns && zone === 'backRank' ? 'backTwoRanks' : zone;
+}
+
+// Motif du refus d'une configuration de draft, null si elle est jouable
+export function getDraftSetupError(setup: DraftSetup): string | null {
+  const { reserve, zone, constraints } = setup;
+  if (!DRAFT_ZONES.includes(zone)) return 'Zone de placement inconnue';
+  if (!Array.isArray(constraints) || constraints.some(constraint => !DRAFT_CONSTRAINTS.includes(constraint))) {
+    return 'Contrainte inconnue';
+  }
+  const isCount = (count: unknown) => Number.isInteger(count) && (count as number) >= 0 && (count as number) <= MAX_RESERVE_COUNT;
+  if (!reserve || SHOP_PIECES.some(piece => !isCount(reserve[piece]))) {
+    return `Entre 0 et ${MAX_RESERVE_COUNT} pièces de chaque type`;
+  }
+  if (reserve.king !== 1) return 'La réserve doit compter exactement un roi';
+
+  // Sans pion dans la réserve, la rangée de pions est déjà occupée
+  const depth = DRAFT_ZONE_DEPTHS[getEffectiveDraftZone(zone, reserve.pawn > 0)];
+  const squares = reserve.pawn > 0 ? depth * 8 : depth === 1 ? 8 : (depth - 1) * 8;
+  if (getReserveSize(reserve) > squares) return `Pas plus de ${squares} pièces dans cette zone`;
+  return null;
+}
+
+export function isValidDraftSetup(setup: DraftSetup): boolean {
+  return getDraftSetupError(setup) === null;
+}
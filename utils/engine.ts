@@ -0,0 +1,293 @@
+import { GameState, PieceType, Player, Position, PromotionPieceType } from '@/types/chess';
+import {
+  getAllValidMoves,
+  isInCheck,
+  isValidRemoval,
+  isValidRestore,
+  makeMove,
+  updateCastlingRights,
+} from '@/utils/chessLogic';
+
+export type EngineAction =
+  | { type: 'move'; from: Position; to: Position; promotion?: PromotionPieceType }
+  | { type: 'removal'; square: Position }
+  | { type: 'restore'; square: Position };
+
+export interface SearchOptions {
+  removalsPerPlayer: number;
+  restoresPerPlayer?: number;
+  timeLimitMs: number;
+  maxDepth?: number;
+  cancelToken?: { cancelled: boolean };
+}
+
+// Échanges avec le Web Worker de recherche : l'état de partie passe tel quel, Set compris (clonage structuré)
+export type EngineWorkerRequest =
+  | { type: 'search'; id: number; gameState: GameState; options: Omit<SearchOptions, 'cancelToken'> }
+  | { type: 'cancel'; id: number };
+
+// Une recherche qui échoue dans le worker est signalée pour être reprise dans le fil JS
+export type EngineWorkerResponse =
+  | { id: number; action: EngineAction | null }
+  | { id: number; error: string };
+
+export const PIECE_VALUES: Record<PieceType, number> = {
+  pawn: 100,
+  knight: 320,
+  bishop: 330,
+  rook: 500,
+  queen: 900,
+  king: 0,
+};
+
+const MATE_SCORE = 100000;
+// Une suppression non utilisée garde de la valeur : on ne la gaspille pas
+const REMOVAL_VALUE = 25;
+// Nombre maximal de suppressions étudiées par position, pour contenir le facteur de branchement
+const MAX_REMOVAL_CANDIDATES = 6;
+// Durée maximale de calcul avant de rendre la main au fil JS (chronos, affichage)
+const YIELD_INTERVAL_MS = 12;
+
+class SearchAborted extends Error {}
+
+function opponentOf(player: Player): Player {
+  return player === 'white' ? 'black' : 'white';
+}
+
+// Bonus de position : centralisation des pièces et avancée des pions
+function getPositionBonus(type: PieceType, color: Player, row: number, col: number): number {
+  const centerDistance = Math.abs(3.5 - row) + Math.abs(3.5 - col);
+  switch (type) {
+    case 'pawn': {
+      const advance = color === 'white' ? 6 - row : row - 1;
+      return advance * 8 - Math.abs(3.5 - col) * 2;
+    }
+    case 'knight':
+      return 20 - centerDistance * 8;
+    case 'bishop':
+      return 10 - centerDistance * 4;
+    case 'queen':
+      return 5 - centerDistance * 2;
+    case 'king': {
+      // Le roi reste à l'abri sur sa rangée de départ
+      const homeRow = color === 'white' ? 7 : 0;
+      return row === homeRow ? 15 : -10 * Math.abs(homeRow - row);
+    }
+    default:
+      return 0;
+  }
+}
+
+// Évaluation du point de vue du joueur au trait
+export function evaluate(gameState: GameState): number {
+  let score = 0;
+
+  for (let row = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++) {
+      const piece = gameState.board[row][col];
+      if (!piece) continue;
+      const value = PIECE_VALUES[piece.type] + getPositionBonus(piece.type, piece.color, row, col);
+      score += piece.color === 'white' ? value : -value;
+    }
+  }
+
+  score += (gameState.removalsUsed.black - gameState.removalsUsed.white) * REMOVAL_VALUE;
+
+  return gameState.currentPlayer === 'white' ? score : -score;
+}
+
+function getRemovalCandidates(gameState: GameState, removalsPerPlayer: number): Position[] {
+  const { board, currentPlayer, removedSquares, removedSquareRules } = gameState;
+  if (gameState.removalsUsed[currentPlayer] >= removalsPerPlayer) return [];
+  // En échec, seule une case qui arrête une pièce longue peut parer
+  const inCheck = isInCheck(board, currentPlayer, removedSquares, removedSquareRules);
+  if (inCheck && !removedSquareRules.blockSliders) return [];
+
+  // Seules les cases vides que l'adversaire peut atteindre ont un intérêt
+  const opponent = opponentOf(currentPlayer);
+  const opponentMoves = getAllValidMoves(board, opponent, removedSquares, gameState);
+  const targets = new Map<string, { square: Position; weight: number }>();
+
+  let opponentKing: Position | null = null;
+  for (let row = 0; row < 8 && !opponentKing; row++) {
+    for (let col = 0; col < 8; col++) {
+      const piece = board[row][col];
+      if (piece && piece.type === 'king' && piece.color === opponent) opponentKing = [row, col];
+    }
+  }
+
+  for (const { from, to } of opponentMoves) {
+    if (board[to[0]][to[1]]) continue;
+    const key = `${to[0]}-${to[1]}`;
+    const target = targets.get(key) ?? { square: to, weight: 0 };
+    target.weight++;
+    // Les cases de fuite du roi adverse sont prioritaires
+    if (board[from[0]][from[1]]?.type === 'king') target.weight += 10;
+    if (opponentKing && Math.max(Math.abs(to[0] - opponentKing[0]), Math.abs(to[1] - opponentKing[1])) <= 2) {
+      target.weight += 2;
+    }
+    targets.set(key, target);
+  }
+
+  return [...targets.values()]
+    .filter(target => !inCheck || isValidRemoval(gameState, target.square, removalsPerPlayer))
+    .sort((a, b) => b.weight - a.weight)
+    .slice(0, MAX_REMOVAL_CANDIDATES)
+    .map(target => target.square);
+}
+
+export function generateActions(gameState: GameState, removalsPerPlayer: number): EngineAction[] {
+  const { board, currentPlayer, removedSquares } = gameState;
+
+  // Captures et promotions d'abord : l'élagage alpha-bêta en profite
+  const moves: EngineAction[] = getAllValidMoves(board, currentPlayer, removedSquares, gameState)
+    .map(move => ({ type: 'move' as const, ...move }))
+    .sort((a, b) => scoreMoveOrder(gameState, b) - scoreMoveOrder(gameState, a));
+
+  const removals: EngineAction[] = getRemovalCandidates(gameState, removalsPerPlayer)
+    .map(square => ({ type: 'removal' as const, square }));
+
+  return [...moves, ...removals];
+}
+
+function scoreMoveOrder(gameState: GameState, action: EngineAction): number {
+  if (action.type !== 'move') return 0;
+  const piece = gameState.board[action.from[0]][action.from[1]];
+  const target = gameState.board[action.to[0]][action.to[1]];
+  let score = 0;
+  // Un roque peut désigner sa propre tour : ce n'est pas une prise
+  if (target && piece && target.color !== piece.color) score += 10 * PIECE_VALUES[target.type] - PIECE_VALUES[piece.type];
+  if (action.promotion) score += PIECE_VALUES[action.promotion];
+  return score;
+}
+
+// Version allégée de applyMove / applyRemoval : ni notation ni historique pendant la recherche
+export function applyAction(gameState: GameState, action: EngineAction): GameState {
+  const nextPlayer = opponentOf(gameState.currentPlayer);
+
+  // Le retour automatique des cases temporaires est ignoré pendant la recherche
+  if (action.type === 'removal') {
+    const removedSquares = new Set(gameState.removedSquares);
+    removedSquares.add(`${action.square[0]}-${action.square[1]}`);
+    return {
+      ...gameState,
+      removedSquares,
+      removalsUsed: {
+        ...gameState.removalsUsed,
+        [gameState.currentPlayer]: gameState.removalsUsed[gameState.currentPlayer] + 1,
+      },
+      currentPlayer: nextPlayer,
+      enPassantTarget: null,
+    };
+  }
+
+  if (action.type === 'restore') {
+    const removedSquares = new Set(gameState.removedSquares);
+    removedSquares.delete(`${action.square[0]}-${action.square[1]}`);
+    return {
+      ...gameState,
+      removedSquares,
+      restoresUsed: {
+        ...gameState.restoresUsed,
+        [gameState.currentPlayer]: gameState.restoresUsed[gameState.currentPlayer] + 1,
+      },
+      currentPlayer: nextPlayer,
+      enPassantTarget: null,
+    };
+  }
+
+  const moveResult = makeMove(gameState.board, action.from, action.to, gameState, action.promotion);
+  return {
+    ...updateCastlingRights(gameState, action.from, action.to),
+    board: moveResult.board,
+    currentPlayer: nextPlayer,
+    enPassantTarget: moveResult.enPassantTarget,
+  };
+}
+
+function yieldToEventLoop(): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, 0));
+}
+
+export async function findBestAction(
+  gameState: GameState,
+  { removalsPerPlayer, restoresPerPlayer = 0, timeLimitMs, maxDepth = 4, cancelToken }: SearchOptions
+): Promise<EngineAction | null> {
+  const deadline = Date.now() + timeLimitMs;
+  let lastYield = Date.now();
+
+  const checkpoint = async () => {
+    if (Date.now() - lastYield > YIELD_INTERVAL_MS) {
+      await yieldToEventLoop();
+      lastYield = Date.now();
+    }
+    if (cancelToken?.cancelled || Date.now() > deadline) throw new SearchAborted();
+  };
+
+  const negamax = async (state: GameState, depth: number, alpha: number, beta: number, ply: number): Promise<number> => {
+    await checkpoint();
+    // Aux feuilles, l'évaluation statique suffit : le mat est reconnu à l'itération suivante
+    if (depth === 0) return evaluate(state);
+
+    const actions = generateActions(state, removalsPerPlayer);
+    if (actions.length === 0) {
+      // Mat au plus vite, pat sinon
+      return isInCheck(state.board, state.currentPlayer, state.removedSquares, state.removedSquareRules) ? -MATE_SCORE + ply : 0;
+    }
+
+    let best = -Infinity;
+    for (const action of actions) {
+      const score = -(await negamax(applyAction(state, action), depth - 1, -beta, -alpha, ply + 1));
+      if (score > best) best = score;
+      if (score > alpha) alpha = score;
+      if (alpha >= beta) break;
+    }
+    return best;
+  };
+
+  let rootActions = generateActions(gameState, removalsPerPlayer);
+  if (rootActions.length === 0) return getFallbackRestore(gameState, restoresPerPlayer);
+
+  let bestAction = rootActions[0];
+
+  // Approfondissement itératif : on garde le meilleur coup de la dernière profondeur complète
+  for (let depth = 1; depth <= maxDepth; depth++) {
+    try {
+      let alpha = -Infinity;
+      let depthBest = rootActions[0];
+      for (const action of rootActions) {
+        const score = -(await negamax(applyAction(gameState, action), depth - 1, -Infinity, -alpha, 1));
+        if (score > alpha) {
+          alpha = score;
+          depthBest = action;
+        }
+      }
+      bestAction = depthBest;
+      // Le meilleur coup est étudié en premier à la profondeur suivante
+      rootActions = [depthBest, ...rootActions.filter(action => action !== depthBest)];
+      if (alpha >= MATE_SCORE - maxDepth) break;
+    } catch (error) {
+      if (error instanceof SearchAborted) break;
+      throw error;
+    }
+  }
+
+  if (cancelToken?.cancelled) return null;
+  return bestAction;
+}
+
+// L'ordinateur ne rouvre une case qu'en dernier recours, quand il n'a plus aucune autre action
+function getFallbackRestore(gameState: GameState, restoresPerPlayer: number): EngineAction | null {
+  for (const key of gameState.removedSquares) {
+    const square = key.split('-').map(Number) as Position;
+    if (isValidRestore(gameState, square, restoresPerPlayer)) return { type: 'restore', square };
+  }
+  return null;
+}
+
+// L'ordinateur accepte la nulle quand sa position est nettement inférieure
+export function shouldAcceptDraw(gameState: GameState, computerPlayer: Player): boolean {
+  const score = evaluate(gameState);
+  const computerScore = gameState.currentPlayer === computerPlayer ? score : -score;
+  return computerScore < -150;
+}
@@ -0,0 +1,104 @@
+import { GameState } from '@/types/chess';
+import { EngineAction, EngineWorkerRequest, EngineWorkerResponse, findBestAction, SearchOptions } from '@/utils/engine';
+
+// Script servi depuis public/, produit par npm run build:engine
+const ENGINE_WORKER_URL = '/engine-worker.js';
+
+export interface EngineSearch {
+  result: Promise<EngineAction | null>;
+  cancel: () => void;
+}
+
+type PendingSearch = {
+  resolve: (action: EngineAction | null) => void;
+  fallback: () => void;
+};
+
+let worker: Worker | null = null;
+let workerFailed = false;
+let nextSearchId = 1;
+const pendingSearches = new Map<number, PendingSearch>();
+
+// Un seul worker pour toute la partie ; s'il ne se charge pas, les recherches en attente reprennent dans le fil JS
+function getWorker(): Worker | null {
+  if (worker || workerFailed) return worker;
+  if (typeof Worker === 'undefined') {
+    workerFailed = true;
+    return null;
+  }
+
+  try {
+    worker = new Worker(ENGINE_WORKER_URL);
+  } catch {
+    workerFailed = true;
+    return null;
+  }
+  worker.onmessage = ({ data }: MessageEvent<EngineWorkerResponse>) => {
+    const search = pendingSearches.get(data.id);
+    pendingSearches.delete(data.id);
+    if (!search) return;
+    if ('error' in data) {
+      console.warn(`Recherche hors fil interrompue (${data.error}), reprise dans le fil JS`);
+      search.fallback();
+    } else {
+      search.resolve(data.action);
+    }
+  };
+  worker.onerror = () => {
+    console.warn('Moteur hors fil indisponible, la recherche reprend dans le fil JS');
+    worker?.terminate();
+    worker = null;
+    workerFailed = true;
+    const searches = [...pendingSearches.values()];
+    pendingSearches.clear();
+    searches.forEach(search => search.fallback());
+  };
+  return worker;
+}
+
+function runOnMainThread(gameState: GameState, options: Omit<SearchOptions, 'cancelToken'>): EngineSearch {
+  const cancelToken = { cancelled: false };
+  return {
+    result: findBestAction(gameState, { ...options, cancelToken }),
+    cancel: () => {
+      cancelToken.cancelled = true;
+    },
+  };
+}
+
+// Recherche de l'ordinateur hors du fil JS quand un Web Worker est disponible (web) ; sur mobile,
+// elle reste dans le fil JS, découpée en tranches qui laissent tourner les chronos
+export function startEngineSearch(gameState: GameState, options: Omit<SearchOptions, 'cancelToken'>): EngineSearch {
+  const engineWorker = getWorker();
+  if (!engineWorker) return runOnMainThread(gameState, options);
+
+  const id = nextSearchId++;
+  let fallbackSearch: EngineSearch | null = null;
+  let cancelled = false;
+  const result = new Promise<EngineAction | null>((resolve, reject) => {
+    pendingSearches.set(id, {
+      resolve,
+      fallback: () => {
+        if (cancelled) return resolve(null);
+        fallbackSearch = runOnMainThread(gameState, options);
+        fallbackSearch.result.then(resolve, reject);
+      },
+    });
+  });
+  const request: EngineWorkerRequest = { type: 'search', id, gameState: { ...gameState, selectedSquare: null }, options };
+  engineWorker.postMessage(request);
+
+  return {
+    result,
+    cancel: () => {
+      cancelled = true;
+      fallbackSearch?.cancel();
+      const pending = pendingSearches.get(id);
+      if (!pending) return;
+      pendingSearches.delete(id);
+      pending.resolve(null);
+      const cancelRequest: EngineWorkerRequest = { type: 'cancel', id };
+      worker?.postMessage(cancelRequest);
+    },
+  };
+}
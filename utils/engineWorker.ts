@@ -0,0 +1,27 @@
+import { EngineWorkerRequest, EngineWorkerResponse, findBestAction } from '@/utils/engine';
+
+// Point d'entrée du Web Worker : compilé à part dans public/engine-worker.js (npm run build:engine)
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<EngineWorkerRequest>) => void) | null;
+  postMessage: (response: EngineWorkerResponse) => void;
+};
+
+// La recherche rend régulièrement la main : une demande d'abandon est lue entre deux tranches
+const cancelTokens = new Map<number, { cancelled: boolean }>();
+
+scope.onmessage = ({ data: request }) => {
+  if (request.type === 'cancel') {
+    const cancelToken = cancelTokens.get(request.id);
+    if (cancelToken) cancelToken.cancelled = true;
+    return;
+  }
+
+  const cancelToken = { cancelled: false };
+  cancelTokens.set(request.id, cancelToken);
+  findBestAction(request.gameState, { ...request.options, cancelToken })
+    .then(
+      action => scope.postMessage({ id: request.id, action }),
+      error => scope.postMessage({ id: request.id, error: error instanceof Error ? error.message : String(error) })
+    )
+    .finally(() => cancelTokens.delete(request.id));
+};
@@ -0,0 +1,355 @@
+import {
+  Board,
+  CastlingRights,
+  CastlingSide,
+  DraftConstraint,
+  DraftFormat,
+  DraftState,
+  DraftZone,
+  GameState,
+  PieceType,
+  Player,
+  RemovedSquareRules,
+} from '@/types/chess';
+import { createInitialGameState, findCastlingRookColumn, getPositionKey } from '@/utils/chessLogic';
+import { DEFAULT_CASTLING_ROOKS } from '@/utils/moveGenerator';
+import { DRAFT_CONSTRAINTS, DRAFT_ZONES, getEffectiveDraftZone } from '@/utils/draftSetup';
+import { algebraicToSquare, FILES, getPieceLetter, getPieceTypeFromLetter, squareToAlgebraic } from '@/utils/notation';
+
+// FEN étendue : les six champs standard, suivis des cases supprimées,
+// des suppressions restantes (blancs/noirs) et de la réserve du draft.
+// Exemple : rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1 - 3/3 -
+// Une case temporaire porte ses demi-coups restants (e4:2), les réouvertures restantes
+// suivent les suppressions quand la partie en accorde (3/3,1/1). Pendant le draft, la réserve
+// est suivie des réglages qui s'écartent du défaut : zone, contraintes, ordre serpent (avec les
+// placements restants du joueur) ou à l'aveugle, vérification finale (KQkq:half:snake2:review)
+export const INITIAL_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1 - 3/3 -';
+
+export class FENParseError extends Error {
+  field: number;
+
+  constructor(message: string, field: number) {
+    super(`FEN invalide, champ ${field} : ${message}`);
+    this.name = 'FENParseError';
+    this.field = field;
+  }
+}
+
+const castlingSymbols: [keyof CastlingRights, string][] = [
+  ['whiteKingside', 'K'],
+  ['whiteQueenside', 'Q'],
+  ['blackKingside', 'k'],
+  ['blackQueenside', 'q'],
+];
+
+function pieceToChar(type: PieceType, color: Player): string {
+  const letter = getPieceLetter(type);
+  return color === 'white' ? letter : letter.toLowerCase();
+}
+
+// Achats, choix caché et vérification finale ne tiennent pas dans une position
+function serializeDraftOptions(draftState: DraftState): string[] {
+  if (draftState.phase !== 'placement') {
+    throw new Error(`Draft en phase « ${draftState.phase} » : position non représentable en FEN`);
+  }
+  if (draftState.hiddenPlacement) {
+    throw new Error('Choix caché du draft à l\'aveugle : position non représentable en FEN');
+  }
+
+  const { white, black } = draftState.availablePieces;
+  const options: string[] = [];
+  if (draftState.zone !== getEffectiveDraftZone('backRank', [...white, ...black].includes('pawn'))) {
+    options.push(draftState.zone);
+  }
+  options.push(...draftState.constraints);
+  if (draftState.format === 'snake') options.push(`snake${draftState.placementsLeftInTurn}`);
+  if (draftState.format === 'blind') options.push('blind');
+  if (draftState.review) options.push('review');
+  return options;
+}
+
+function serializeBoard(board: Board): string {
+  return board
+    .map(row => {
+      let rank = '';
+      let emptySquares = 0;
+      for (const piece of row) {
+        if (!piece) {
+          emptySquares++;
+          continue;
+        }
+        if (emptySquares > 0) rank += emptySquares;
+        emptySquares = 0;
+        rank += pieceToChar(piece.type, piece.color);
+      }
+      return emptySquares > 0 ? rank + emptySquares : rank;
+    })
+    .join('/');
+}
+
+// Notation X-FEN : K et Q désignent la tour la plus extérieure de chaque côté du roi,
+// une lettre de colonne une tour plus intérieure (rangées draftées)
+function castlingRightToChar(gameState: GameState, right: keyof CastlingRights, symbol: string): string {
+  const color: Player = right.startsWith('white') ? 'white' : 'black';
+  const side: CastlingSide = right.endsWith('Kingside') ? 'kingside' : 'queenside';
+  const rookCol = gameState.castlingRooks[right];
+  const outermostCol = findCastlingRookColumn(gameState.board, color, side);
+  if (outermostCol === -1 || outermostCol === rookCol) return symbol;
+  return color === 'white' ? FILES[rookCol].toUpperCase() : FILES[rookCol];
+}
+
+export function toFEN(gameState: GameState, removalsPerPlayer: number, restoresPerPlayer: number = 0): string {
+  const castling = castlingSymbols
+    .filter(([right]) => gameState.castlingRights[right])
+    .map(([right, symbol]) => castlingRightToChar(gameState, right, symbol))
+    .join('');
+
+  const removed = [...gameState.removedSquares]
+    .map(key => {
+      const [row, col] = key.split('-').map(Number);
+      const square = squareToAlgebraic([row, col]);
+      return key in gameState.removalExpiry ? `${square}:${gameState.removalExpiry[key] - gameState.history.length}` : square;
+    })
+    .sort()
+    .join(',');
+
+  const removalsLeft = `${removalsPerPlayer - gameState.removalsUsed.white}/${removalsPerPlayer - gameState.removalsUsed.black}`;
+  const restoresLeft = `${restoresPerPlayer - gameState.restoresUsed.white}/${restoresPerPlayer - gameState.restoresUsed.black}`;
+
+  const reserve = gameState.draftState
+    ? [
+        [
+          ...gameState.draftState.availablePieces.white.map(type => pieceToChar(type, 'white')),
+          ...gameState.draftState.availablePieces.black.map(type => pieceToChar(type, 'black')),
+        ].join(''),
+        ...serializeDraftOptions(gameState.draftState),
+      ].join(':')
+    : '';
+
+  return [
+    serializeBoard(gameState.board),
+    gameState.currentPlayer === 'white' ? 'w' : 'b',
+    castling || '-',
+    gameState.enPassantTarget ? squareToAlgebraic(gameState.enPassantTarget) : '-',
+    gameState.halfmoveClock,
+    gameState.fullmoveNumber,
+    removed || '-',
+    restoresPerPlayer > 0 ? `${removalsLeft},${restoresLeft}` : removalsLeft,
+    reserve || '-',
+  ].join(' ');
+}
+
+function parseBoard(placement: string): Board {
+  const rows = placement.split('/');
+  if (rows.length !== 8) throw new FENParseError('8 rangées attendues', 1);
+
+  return rows.map(rowText => {
+    const row: Board[number] = [];
+    for (const char of rowText) {
+      if (/[1-8]/.test(char)) {
+        for (let i = 0; i < Number(char); i++) row.push(null);
+        continue;
+      }
+      const type = getPieceTypeFromLetter(char);
+      if (!type) throw new FENParseError(`pièce inconnue « ${char} »`, 1);
+      row.push({ type, color: char === char.toUpperCase() ? 'white' : 'black' });
+    }
+    if (row.length !== 8) throw new FENParseError(`rangée « ${rowText} » de ${row.length} cases`, 1);
+    return row;
+  });
+}
+
+function parseCount(value: string | undefined, field: number): number {
+  const count = Number(value);
+  if (value === undefined || !Number.isInteger(count) || count < 0) {
+    throw new FENParseError(`nombre attendu, reçu « ${value} »`, field);
+  }
+  return count;
+}
+
+// KQkq désignent la tour la plus extérieure de chaque côté du roi, une lettre de colonne la tour
+// elle-même (X-FEN et Shredder-FEN) ; sans tour, la colonne classique est conservée
+function parseCastling(board: Board, castling: string): Pick<GameState, 'castlingRights' | 'castlingRooks'> {
+  const castlingRights: CastlingRights = { whiteKingside: false, whiteQueenside: false, blackKingside: false, blackQueenside: false };
+  const castlingRooks = { ...DEFAULT_CASTLING_ROOKS };
+  if (castling === '-') return { castlingRights, castlingRooks };
+
+  for (const char of castling) {
+    const color: Player = char === char.toUpperCase() ? 'white' : 'black';
+    const homeRow = color === 'white' ? 7 : 0;
+    const kingCol = board[homeRow].findIndex(piece => piece?.type === 'king' && piece.color === color);
+    let side: CastlingSide;
+    let rookCol: number;
+    if ('KQkq'.includes(char)) {
+      side = char.toUpperCase() === 'K' ? 'kingside' : 'queenside';
+      rookCol = findCastlingRookColumn(board, color, side);
+    } else {
+      rookCol = FILES.indexOf(char.toLowerCase());
+      if (kingCol === -1) throw new FENParseError(`droit de roque « ${char} » sans roi sur sa rangée`, 3);
+      side = rookCol > kingCol ? 'kingside' : 'queenside';
+    }
+
+    const right = `${color}${side === 'kingside' ? 'Kingside' : 'Queenside'}` as const;
+    if (castlingRights[right]) throw new FENParseError(`droit de roque « ${char} » en double`, 3);
+    castlingRights[right] = true;
+    if (rookCol !== -1) castlingRooks[right] = rookCol;
+  }
+  return { castlingRights, castlingRooks };
+}
+
+function parseDraftOptions(
+  options: string[],
+  draftsPawns: boolean
+): Pick<DraftState, 'zone' | 'constraints' | 'format' | 'placementsLeftInTurn' | 'review'> {
+  // Des pions en réserve se posent devant la dernière rangée
+  let zone = getEffectiveDraftZone('backRank', draftsPawns);
+  const constraints: DraftConstraint[] = [];
+  let format: DraftFormat = 'alternate';
+  let placementsLeftInTurn = 1;
+  let review = false;
+
+  for (const option of options) {
+    const snake = /^snake([12])$/.exec(option);
+    if (DRAFT_ZONES.includes(option as DraftZone)) {
+      zone = option as DraftZone;
+    } else if (DRAFT_CONSTRAINTS.includes(option as DraftConstraint) && !constraints.includes(option as DraftConstraint)) {
+      constraints.push(option as DraftConstraint);
+    } else if (snake) {
+      format = 'snake';
+      placementsLeftInTurn = Number(snake[1]);
+    } else if (option === 'blind') {
+      format = 'blind';
+    } else if (option === 'review') {
+      review = true;
+    } else {
+      throw new FENParseError(`option de draft « ${option} » inconnue`, 9);
+    }
+  }
+  if (zone === 'backRank' && draftsPawns) {
+    throw new FENParseError('des pions en réserve ne se posent pas sur la seule dernière rangée', 9);
+  }
+
+  return { zone, constraints, format, placementsLeftInTurn, review };
+}
+
+export function parseFEN(
+  fen: string,
+  removalsPerPlayer: number,
+  timeLimitMinutes: number = 5,
+  removedSquareRules?: RemovedSquareRules,
+  restoresPerPlayer: number = 0
+): GameState {
+  const fields = fen.trim().split(/\s+/);
+  if (fields.length !== 9) {
+    throw new FENParseError(`9 champs attendus, ${fields.length} reçus`, fields.length);
+  }
+  const [placement, side, castling, enPassant, halfmove, fullmove, removed, removalsLeft, reserve] = fields;
+
+  const board = parseBoard(placement);
+
+  if (side !== 'w' && side !== 'b') throw new FENParseError(`trait « ${side} » inconnu`, 2);
+  const currentPlayer: Player = side === 'w' ? 'white' : 'black';
+
+  if (castling !== '-' && !/^[KQA-Hkqa-h]+$/.test(castling)) {
+    throw new FENParseError(`droits de roque « ${castling} » invalides`, 3);
+  }
+  const { castlingRights, castlingRooks } = parseCastling(board, castling);
+
+  const enPassantTarget = enPassant === '-' ? null : algebraicToSquare(enPassant);
+  if (enPassant !== '-' && !enPassantTarget) {
+    throw new FENParseError(`case de prise en passant « ${enPassant} » invalide`, 4);
+  }
+
+  // Sans historique, l'échéance d'une case temporaire est son nombre de demi-coups restants
+  const removedSquares = new Set<string>();
+  const removalExpiry: Record<string, number> = {};
+  if (removed !== '-') {
+    for (const entry of removed.split(',')) {
+      const [square, countdown] = entry.split(':');
+      const position = algebraicToSquare(square);
+      if (!position) throw new FENParseError(`case supprimée « ${square} » invalide`, 7);
+      if (board[position[0]][position[1]]) {
+        throw new FENParseError(`la case supprimée ${square} est occupée`, 7);
+      }
+      const key = `${position[0]}-${position[1]}`;
+      removedSquares.add(key);
+      if (countdown !== undefined) {
+        const plies = parseCount(countdown, 7);
+        if (plies === 0) throw new FENParseError(`la case ${square} devrait déjà être revenue`, 7);
+        removalExpiry[key] = plies;
+      }
+    }
+  }
+
+  const actionsMatch = /^(\d+)\/(\d+)(?:,(\d+)\/(\d+))?$/.exec(removalsLeft);
+  if (!actionsMatch) throw new FENParseError(`suppressions restantes « ${removalsLeft} » invalides`, 8);
+  const removalsUsed = {
+    white: removalsPerPlayer - Number(actionsMatch[1]),
+    black: removalsPerPlayer - Number(actionsMatch[2]),
+  };
+  if (removalsUsed.white < 0 || removalsUsed.black < 0) {
+    throw new FENParseError(`plus de ${removalsPerPlayer} suppressions restantes`, 8);
+  }
+  // Sans réouvertures indiquées, aucune n'a encore été jouée
+  const restoresUsed = {
+    white: actionsMatch[3] === undefined ? 0 : restoresPerPlayer - Number(actionsMatch[3]),
+    black: actionsMatch[4] === undefined ? 0 : restoresPerPlayer - Number(actionsMatch[4]),
+  };
+  if (restoresUsed.white < 0 || restoresUsed.black < 0) {
+    throw new FENParseError(`plus de ${restoresPerPlayer} réouvertures restantes`, 8);
+  }
+
+  let draftState: GameState['draftState'];
+  if (reserve !== '-') {
+    const [pieces, ...options] = reserve.split(':');
+    const availablePieces: { white: PieceType[]; black: PieceType[] } = { white: [], black: [] };
+    for (const char of pieces) {
+      const type = getPieceTypeFromLetter(char);
+      if (!type) throw new FENParseError(`pièce de réserve « ${char} » inconnue`, 9);
+      availablePieces[char === char.toUpperCase() ? 'white' : 'black'].push(type);
+    }
+    if (!pieces) throw new FENParseError('réserve vide', 9);
+    draftState = {
+      availablePieces,
+      selectedPiece: null,
+      currentDraftPlayer: currentPlayer,
+      hiddenPlacement: null,
+      armyBudget: null,
+      phase: 'placement',
+      gameTimeLeft: null,
+      ...parseDraftOptions(options, [...availablePieces.white, ...availablePieces.black].includes('pawn')),
+    };
+  }
+
+  // Les indicateurs de mouvement du roi et des tours se déduisent des droits de roque
+  const gameState: GameState = {
+    ...createInitialGameState(timeLimitMinutes, removedSquareRules),
+    board,
+    currentPlayer,
+    removedSquares,
+    removalExpiry,
+    removalsUsed,
+    restoresUsed,
+    castlingRights,
+    castlingRooks,
+    kingMoved: {
+      white: !castlingRights.whiteKingside && !castlingRights.whiteQueenside,
+      black: !castlingRights.blackKingside && !castlingRights.blackQueenside,
+    },
+    rookMoved: {
+      whiteKingside: !castlingRights.whiteKingside,
+      whiteQueenside: !castlingRights.whiteQueenside,
+      blackKingside: !castlingRights.blackKingside,
+      blackQueenside: !castlingRights.blackQueenside,
+    },
+    enPassantTarget,
+    halfmoveClock: parseCount(halfmove, 5),
+    fullmoveNumber: parseCount(fullmove, 6),
+    draftState,
+  };
+
+  return {
+    ...gameState,
+    positionHistory: draftState ? [] : [getPositionKey(gameState)],
+  };
+}
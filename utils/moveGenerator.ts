@@ -0,0 +1,563 @@
+import { Board, CastlingRookColumns, GameState, PieceType, Player, Position, PromotionPieceType, RemovedSquareRules } from '@/types/chess';
+
+// Représentation compacte pour la génération de coups : une case par entier (indice = rangée * 8 + colonne),
+// 0 pour une case vide, un code positif pour les blancs, négatif pour les noirs
+export const PAWN = 1;
+export const KNIGHT = 2;
+export const BISHOP = 3;
+export const ROOK = 4;
+export const QUEEN = 5;
+export const KING = 6;
+
+const PIECE_CODES: Record<PieceType, number> = {
+  pawn: PAWN,
+  knight: KNIGHT,
+  bishop: BISHOP,
+  rook: ROOK,
+  queen: QUEEN,
+  king: KING,
+};
+const PIECE_TYPES: PieceType[] = ['pawn', 'pawn', 'knight', 'bishop', 'rook', 'queen', 'king'];
+
+// Règles historiques : les pièces longues survolent les cases supprimées, le pion peut les sauter
+// en double pas, le roque ne les traverse pas
+export const DEFAULT_REMOVED_SQUARE_RULES: RemovedSquareRules = {
+  blockSliders: false,
+  pawnDoublePushOver: true,
+  castleThrough: false,
+  lifetime: 0,
+};
+
+export const DEFAULT_CASTLING_ROOKS: CastlingRookColumns = {
+  whiteKingside: 7,
+  whiteQueenside: 0,
+  blackKingside: 7,
+  blackQueenside: 0,
+};
+
+// Droits de roque sous forme de bits
+const WHITE_KINGSIDE = 1;
+const WHITE_QUEENSIDE = 2;
+const BLACK_KINGSIDE = 4;
+const BLACK_QUEENSIDE = 8;
+// Indice de chaque droit dans castlingRooks
+const CASTLING_INDEX: Record<number, number> = {
+  [WHITE_KINGSIDE]: 0,
+  [WHITE_QUEENSIDE]: 1,
+  [BLACK_KINGSIDE]: 2,
+  [BLACK_QUEENSIDE]: 3,
+};
+
+// Un coup tient dans un entier : départ, arrivée, drapeaux et pièce de promotion
+const FLAG_EN_PASSANT = 1;
+const FLAG_CASTLING = 2;
+const FLAG_DOUBLE_PUSH = 4;
+
+export function encodeMove(from: number, to: number, flags: number = 0, promotion: number = 0): number {
+  return from | (to << 6) | (flags << 12) | (promotion << 15);
+}
+
+export function moveFrom(move: number): number {
+  return move & 63;
+}
+
+export function moveTo(move: number): number {
+  return (move >> 6) & 63;
+}
+
+function moveFlags(move: number): number {
+  return (move >> 12) & 7;
+}
+
+export function movePromotion(move: number): number {
+  return (move >> 15) & 7;
+}
+
+export function isCastlingMove(move: number): boolean {
+  return (moveFlags(move) & FLAG_CASTLING) !== 0;
+}
+
+export interface SearchPosition {
+  squares: Int8Array;
+  removed: Uint8Array; // masque des cases supprimées
+  expiring: Uint8Array; // cases supprimées qui se rouvrent à la fin du demi-coup joué
+  side: 1 | -1; // 1 pour les blancs, -1 pour les noirs
+  castling: number;
+  castlingRooks: number[]; // case de départ de la tour de chaque droit, dans l'ordre des bits
+  epSquare: number; // -1 sans prise en passant possible
+  kings: { white: number; black: number }; // -1 si le roi n'est pas (encore) sur l'échiquier
+  rules: RemovedSquareRules;
+}
+
+export interface MoveUndo {
+  captured: number;
+  castling: number;
+  epSquare: number;
+}
+
+// Tables précalculées : cibles du cavalier et du roi, rayons des pièces longues
+const ROOK_DIRECTIONS: [number, number][] = [[-1, 0], [1, 0], [0, -1], [0, 1]];
+const BISHOP_DIRECTIONS: [number, number][] = [[-1, -1], [-1, 1], [1, -1], [1, 1]];
+const KNIGHT_OFFSETS: [number, number][] = [[-2, -1], [-2, 1], [-1, -2], [-1, 2], [1, -2], [1, 2], [2, -1], [2, 1]];
+const KING_OFFSETS: [number, number][] = [...ROOK_DIRECTIONS, ...BISHOP_DIRECTIONS];
+
+function buildTargets(offsets: [number, number][]): number[][] {
+  return Array.from({ length: 64 }, (_, square) => {
+    const row = square >> 3;
+    const col = square & 7;
+    return offsets
+      .filter(([dRow, dCol]) => row + dRow >= 0 && row + dRow < 8 && col + dCol >= 0 && col + dCol < 8)
+      .map(([dRow, dCol]) => (row + dRow) * 8 + col + dCol);
+  });
+}
+
+function buildRays(directions: [number, number][]): number[][][] {
+  return Array.from({ length: 64 }, (_, square) =>
+    directions.map(([dRow, dCol]) => {
+      const ray: number[] = [];
+      let row = (square >> 3) + dRow;
+      let col = (square & 7) + dCol;
+      while (row >= 0 && row < 8 && col >= 0 && col < 8) {
+        ray.push(row * 8 + col);
+        row += dRow;
+        col += dCol;
+      }
+      return ray;
+    })
+  );
+}
+
+const KNIGHT_TARGETS = buildTargets(KNIGHT_OFFSETS);
+const KING_TARGETS = buildTargets(KING_OFFSETS);
+const ROOK_RAYS = buildRays(ROOK_DIRECTIONS);
+const BISHOP_RAYS = buildRays(BISHOP_DIRECTIONS);
+
+function colorOf(side: 1 | -1): Player {
+  return side === 1 ? 'white' : 'black';
+}
+
+export function createSearchPosition(
+  board: Board,
+  removedSquares: Set<string>,
+  side: Player,
+  gameState?: GameState,
+  rules: RemovedSquareRules = gameState?.removedSquareRules ?? DEFAULT_REMOVED_SQUARE_RULES
+): SearchPosition {
+  const squares = new Int8Array(64);
+  const removed = new Uint8Array(64);
+  const expiring = new Uint8Array(64);
+  const kings = { white: -1, black: -1 };
+
+  for (let row = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++) {
+      const piece = board[row][col];
+      if (!piece) continue;
+      const square = row * 8 + col;
+      squares[square] = piece.color === 'white' ? PIECE_CODES[piece.type] : -PIECE_CODES[piece.type];
+      // Comme findKing : le premier roi rencontré fait foi
+      if (piece.type === 'king' && kings[piece.color] === -1) kings[piece.color] = square;
+    }
+  }
+  for (const key of removedSquares) {
+    const [row, col] = key.split('-').map(Number);
+    removed[row * 8 + col] = 1;
+    if (gameState && gameState.removalExpiry[key] <= gameState.history.length + 1) expiring[row * 8 + col] = 1;
+  }
+
+  // Un droit de roque n'est utilisable que si ni le roi ni la tour concernée n'ont bougé
+  let castling = 0;
+  if (gameState) {
+    const { castlingRights, kingMoved, rookMoved } = gameState;
+    if (castlingRights.whiteKingside && !kingMoved.white && !rookMoved.whiteKingside) castling |= WHITE_KINGSIDE;
+    if (castlingRights.whiteQueenside && !kingMoved.white && !rookMoved.whiteQueenside) castling |= WHITE_QUEENSIDE;
+    if (castlingRights.blackKingside && !kingMoved.black && !rookMoved.blackKingside) castling |= BLACK_KINGSIDE;
+    if (castlingRights.blackQueenside && !kingMoved.black && !rookMoved.blackQueenside) castling |= BLACK_QUEENSIDE;
+  }
+
+  const rookColumns = gameState?.castlingRooks ?? DEFAULT_CASTLING_ROOKS;
+  const castlingRooks = [
+    56 + rookColumns.whiteKingside,
+    56 + rookColumns.whiteQueenside,
+    rookColumns.blackKingside,
+    rookColumns.blackQueenside,
+  ];
+
+  const epTarget = gameState?.enPassantTarget;
+  return {
+    squares,
+    removed,
+    expiring,
+    side: side === 'white' ? 1 : -1,
+    castling,
+    castlingRooks,
+    epSquare: epTarget ? epTarget[0] * 8 + epTarget[1] : -1,
+    kings,
+    rules,
+  };
+}
+
+export function squareToPosition(square: number): Position {
+  return [square >> 3, square & 7];
+}
+
+export function getPieceTypeFromCode(code: number): PieceType {
+  return PIECE_TYPES[Math.abs(code)];
+}
+
+export function getPromotionPieceType(code: number): PromotionPieceType {
+  return PIECE_TYPES[code] as PromotionPieceType;
+}
+
+// Les cases supprimées sont toujours vides : selon les règles, les pièces longues les survolent ou s'y arrêtent
+export function isSquareAttacked(position: SearchPosition, square: number, by: 1 | -1): boolean {
+  const { squares, removed } = position;
+  const { blockSliders } = position.rules;
+  const row = square >> 3;
+  const col = square & 7;
+
+  // Un pion blanc attaque depuis la rangée du dessous, un pion noir depuis celle du dessus
+  const pawnRow = row + by;
+  if (pawnRow >= 0 && pawnRow < 8) {
+    if (col > 0 && squares[pawnRow * 8 + col - 1] === by * PAWN) return true;
+    if (col < 7 && squares[pawnRow * 8 + col + 1] === by * PAWN) return true;
+  }
+
+  for (const target of KNIGHT_TARGETS[square]) {
+    if (squares[target] === by * KNIGHT) return true;
+  }
+  for (const target of KING_TARGETS[square]) {
+    if (squares[target] === by * KING) return true;
+  }
+
+  for (const ray of ROOK_RAYS[square]) {
+    for (const target of ray) {
+      const piece = squares[target];
+      if (piece === 0 && !(blockSliders && removed[target])) continue;
+      if (piece === by * ROOK || piece === by * QUEEN) return true;
+      break;
+    }
+  }
+  for (const ray of BISHOP_RAYS[square]) {
+    for (const target of ray) {
+      const piece = squares[target];
+      if (piece === 0 && !(blockSliders && removed[target])) continue;
+      if (piece === by * BISHOP || piece === by * QUEEN) return true;
+      break;
+    }
+  }
+
+  return false;
+}
+
+// Échec une fois le demi-coup joué : les cases arrivées à expiration ne bloquent plus les pièces longues
+export function isSideInCheckAfterPly(position: SearchPosition, side: 1 | -1): boolean {
+  const { removed, expiring } = position;
+  const reopened: number[] = [];
+  for (let square = 0; square < 64; square++) {
+    if (expiring[square] && removed[square]) {
+      removed[square] = 0;
+      reopened.push(square);
+    }
+  }
+  const inCheck = isSideInCheck(position, side);
+  for (const square of reopened) removed[square] = 1;
+  return inCheck;
+}
+
+export function isSideInCheck(position: SearchPosition, side: 1 | -1): boolean {
+  const king = position.kings[colorOf(side)];
+  return king !== -1 && isSquareAttacked(position, king, side === 1 ? -1 : 1);
+}
+
+function pushPawnMove(moves: number[], from: number, to: number, side: 1 | -1, flags: number = 0) {
+  const lastRow = side === 1 ? 0 : 7;
+  if (to >> 3 === lastRow) {
+    for (const promotion of [QUEEN, ROOK, BISHOP, KNIGHT]) moves.push(encodeMove(from, to, flags, promotion));
+  } else {
+    moves.push(encodeMove(from, to, flags));
+  }
+}
+
+function generateSlidingMoves(position: SearchPosition, from: number, rays: number[][], moves: number[]) {
+  const { squares, removed, side, rules } = position;
+  for (const ray of rays) {
+    for (const to of ray) {
+      if (removed[to]) {
+        if (rules.blockSliders) break;
+        continue;
+      }
+      const target = squares[to];
+      if (target === 0) {
+        moves.push(encodeMove(from, to));
+        continue;
+      }
+      if (target * side < 0) moves.push(encodeMove(from, to));
+      break;
+    }
+  }
+}
+
+// Roque généralisé (rangées de draft) : le roi finit en g ou c, la tour en f ou d, où qu'ils soient partis
+function generateCastlingMoves(position: SearchPosition, king: number, moves: number[]) {
+  const { squares, removed, side, castling, castlingRooks, rules } = position;
+  const homeRow = side === 1 ? 7 : 0;
+  if (king >> 3 !== homeRow) return;
+
+  const opponent = side === 1 ? -1 : 1;
+  const kingsideRight = side === 1 ? WHITE_KINGSIDE : BLACK_KINGSIDE;
+  const queensideRight = side === 1 ? WHITE_QUEENSIDE : BLACK_QUEENSIDE;
+  if (!(castling & (kingsideRight | queensideRight))) return;
+  if (isSquareAttacked(position, king, opponent)) return;
+
+  for (const right of [kingsideRight, queensideRight]) {
+    if (!(castling & right)) continue;
+    const rook = castlingRooks[CASTLING_INDEX[right]];
+    const kingside = right === kingsideRight;
+    if (squares[rook] !== side * ROOK || (kingside ? rook < king : rook > king)) continue;
+
+    const kingTarget = homeRow * 8 + (kingside ? 6 : 2);
+    const rookTarget = homeRow * 8 + (kingside ? 5 : 3);
+    const first = Math.min(king, rook, kingTarget, rookTarget);
+    const last = Math.max(king, rook, kingTarget, rookTarget);
+
+    // Toutes les cases couvertes sont vides, hormis le roi et la tour eux-mêmes ; le roi et la tour
+    // ne peuvent s'arrêter sur une case supprimée, les autres ne sont que traversées
+    let free = true;
+    for (let square = first; square <= last && free; square++) {
+      if (square === king || square === rook) continue;
+      free = squares[square] === 0
+        && (!removed[square] || (rules.castleThrough && square !== kingTarget && square !== rookTarget));
+    }
+    if (!free) continue;
+
+    // Le roi ne doit traverser aucune case attaquée ; on retire le roi et la tour le temps de la vérification
+    squares[king] = 0;
+    squares[rook] = 0;
+    let safe = true;
+    for (let square = Math.min(king, kingTarget); square <= Math.max(king, kingTarget) && safe; square++) {
+      if (square !== king) safe = !isSquareAttacked(position, square, opponent);
+    }
+    squares[king] = side * KING;
+    squares[rook] = side * ROOK;
+    if (safe) moves.push(encodeMove(king, kingTarget, FLAG_CASTLING));
+  }
+}
+
+// Coups pseudo-légaux : conformes au déplacement des pièces, sans vérifier l'échec au roi
+export function generatePseudoLegalMoves(position: SearchPosition, onlyFrom: number = -1): number[] {
+  const { squares, removed, side, epSquare, rules } = position;
+  const moves: number[] = [];
+  const forward = side === 1 ? -8 : 8;
+  const startRow = side === 1 ? 6 : 1;
+
+  const first = onlyFrom === -1 ? 0 : onlyFrom;
+  const last = onlyFrom === -1 ? 63 : onlyFrom;
+
+  for (let from = first; from <= last; from++) {
+    const piece = squares[from] * side;
+    if (piece <= 0) continue;
+
+    switch (piece) {
+      case PAWN: {
+        const row = from >> 3;
+        const col = from & 7;
+        const oneStep = from + forward;
+        if (oneStep >= 0 && oneStep < 64) {
+          if (squares[oneStep] === 0 && !removed[oneStep]) pushPawnMove(moves, from, oneStep, side);
+          // Le double pas est bloqué par une pièce sur la case sautée, et par une case supprimée selon les règles
+          const twoSteps = oneStep + forward;
+          if (row === startRow && squares[oneStep] === 0 && (rules.pawnDoublePushOver || !removed[oneStep])
+            && squares[twoSteps] === 0 && !removed[twoSteps]) {
+            moves.push(encodeMove(from, twoSteps, FLAG_DOUBLE_PUSH));
+          }
+          for (const captureCol of [col - 1, col + 1]) {
+            if (captureCol < 0 || captureCol > 7) continue;
+            const to = oneStep - col + captureCol;
+            if (removed[to]) continue;
+            if (squares[to] * side < 0) {
+              pushPawnMove(moves, from, to, side);
+            } else if (to === epSquare && squares[to] === 0 && squares[row * 8 + captureCol] === -side * PAWN) {
+              moves.push(encodeMove(from, to, FLAG_EN_PASSANT));
+            }
+          }
+        }
+        break;
+      }
+      case KNIGHT:
+      case KING:
+        for (const to of (piece === KNIGHT ? KNIGHT_TARGETS : KING_TARGETS)[from]) {
+          if (!removed[to] && squares[to] * side <= 0) moves.push(encodeMove(from, to));
+        }
+        if (piece === KING) generateCastlingMoves(position, from, moves);
+        break;
+      case BISHOP:
+        generateSlidingMoves(position, from, BISHOP_RAYS[from], moves);
+        break;
+      case ROOK:
+        generateSlidingMoves(position, from, ROOK_RAYS[from], moves);
+        break;
+      case QUEEN:
+        generateSlidingMoves(position, from, ROOK_RAYS[from], moves);
+        generateSlidingMoves(position, from, BISHOP_RAYS[from], moves);
+        break;
+    }
+  }
+
+  return moves;
+}
+
+// Pièces clouées sur leur roi : elles seules (avec le roi et la prise en passant) exigent une vérification complète
+function getPinnedSquares(position: SearchPosition, king: number): Set<number> {
+  const { squares, removed, side } = position;
+  const { blockSliders } = position.rules;
+  const pinned = new Set<number>();
+
+  const scan = (rays: number[][], slider: number) => {
+    for (const ray of rays) {
+      let candidate = -1;
+      for (const square of ray) {
+        const piece = squares[square];
+        if (piece === 0 && !(blockSliders && removed[square])) continue;
+        if (candidate === -1 && piece * side > 0) {
+          candidate = square;
+          continue;
+        }
+        if (candidate !== -1 && (piece === -side * slider || piece === -side * QUEEN)) pinned.add(candidate);
+        break;
+      }
+    }
+  };
+  scan(ROOK_RAYS[king], ROOK);
+  scan(BISHOP_RAYS[king], BISHOP);
+
+  return pinned;
+}
+
+// Une case qui se rouvre à ce demi-coup peut démasquer une pièce longue : chaque coup est alors vérifié
+function hasExpiringBlocker(position: SearchPosition): boolean {
+  return position.rules.blockSliders && position.expiring.some((expiring, square) => expiring && position.removed[square]);
+}
+
+function isLegalMove(position: SearchPosition, move: number, king: number, fullCheck: boolean, pinned: Set<number>): boolean {
+  const from = moveFrom(move);
+  if (!fullCheck && from !== king && !pinned.has(from) && !(moveFlags(move) & FLAG_EN_PASSANT)) return true;
+
+  const side = position.side;
+  const undo = makeSearchMove(position, move);
+  const legal = !isSideInCheckAfterPly(position, side);
+  unmakeSearchMove(position, move, undo);
+  return legal;
+}
+
+export function generateLegalMoves(position: SearchPosition, onlyFrom: number = -1): number[] {
+  const pseudoLegal = generatePseudoLegalMoves(position, onlyFrom);
+  const king = position.kings[colorOf(position.side)];
+  // Sans roi (position partielle), aucun coup ne peut le mettre en échec
+  if (king === -1) return pseudoLegal;
+
+  const fullCheck = isSquareAttacked(position, king, position.side === 1 ? -1 : 1) || hasExpiringBlocker(position);
+  const pinned = getPinnedSquares(position, king);
+  return pseudoLegal.filter(move => isLegalMove(position, move, king, fullCheck, pinned));
+}
+
+// Détection du mat et du pat : on s'arrête au premier coup légal trouvé
+export function hasLegalMove(position: SearchPosition): boolean {
+  const pseudoLegal = generatePseudoLegalMoves(position);
+  const king = position.kings[colorOf(position.side)];
+  if (king === -1) return pseudoLegal.length > 0;
+
+  const fullCheck = isSquareAttacked(position, king, position.side === 1 ? -1 : 1) || hasExpiringBlocker(position);
+  const pinned = getPinnedSquares(position, king);
+  return pseudoLegal.some(move => isLegalMove(position, move, king, fullCheck, pinned));
+}
+
+function clearRookCastling(position: SearchPosition, castling: number, square: number, color: 1 | -1): number {
+  const rights = color === 1 ? [WHITE_KINGSIDE, WHITE_QUEENSIDE] : [BLACK_KINGSIDE, BLACK_QUEENSIDE];
+  for (const right of rights) {
+    if (position.castlingRooks[CASTLING_INDEX[right]] === square) castling &= ~right;
+  }
+  return castling;
+}
+
+// Case de la tour qui roque avec le roi arrivé en kingTarget
+function getCastlingRook(position: SearchPosition, kingTarget: number, side: 1 | -1): number {
+  const kingside = (kingTarget & 7) === 6;
+  const right = side === 1 ? (kingside ? WHITE_KINGSIDE : WHITE_QUEENSIDE) : (kingside ? BLACK_KINGSIDE : BLACK_QUEENSIDE);
+  return position.castlingRooks[CASTLING_INDEX[right]];
+}
+
+// Case à désigner pour jouer le coup : un roque où le roi bouge de moins de deux colonnes se joue sur sa tour
+export function getMoveTargetSquare(position: SearchPosition, move: number): number {
+  const from = moveFrom(move);
+  const to = moveTo(move);
+  if (!isCastlingMove(move) || Math.abs((to & 7) - (from & 7)) >= 2) return to;
+  return getCastlingRook(position, to, position.side);
+}
+
+// Joue le coup sur place ; unmakeSearchMove restaure exactement la position précédente
+export function makeSearchMove(position: SearchPosition, move: number): MoveUndo {
+  const { squares, side } = position;
+  const from = moveFrom(move);
+  const to = moveTo(move);
+  const flags = moveFlags(move);
+  const promotion = movePromotion(move);
+  const piece = squares[from];
+  const undo: MoveUndo = { captured: squares[to], castling: position.castling, epSquare: position.epSquare };
+
+  if (flags & FLAG_CASTLING) {
+    // Le roi ou la tour peut arriver sur la case de départ de l'autre : on vide les deux avant de poser
+    const rook = getCastlingRook(position, to, side);
+    undo.captured = 0;
+    squares[from] = 0;
+    squares[rook] = 0;
+    squares[to] = side * KING;
+    squares[(to & ~7) | ((to & 7) === 6 ? 5 : 3)] = side * ROOK;
+  } else {
+    if (flags & FLAG_EN_PASSANT) {
+      squares[(from & ~7) | (to & 7)] = 0;
+    }
+    squares[to] = promotion ? side * promotion : piece;
+    squares[from] = 0;
+  }
+
+  if (piece * side === KING) {
+    position.kings[colorOf(side)] = to;
+    position.castling &= side === 1 ? ~(WHITE_KINGSIDE | WHITE_QUEENSIDE) : ~(BLACK_KINGSIDE | BLACK_QUEENSIDE);
+  } else if (piece * side === ROOK) {
+    position.castling = clearRookCastling(position, position.castling, from, side);
+  }
+  if (undo.captured * side === -ROOK) {
+    position.castling = clearRookCastling(position, position.castling, to, side === 1 ? -1 : 1);
+  }
+
+  position.epSquare = flags & FLAG_DOUBLE_PUSH ? (from + to) >> 1 : -1;
+  position.side = side === 1 ? -1 : 1;
+  return undo;
+}
+
+export function unmakeSearchMove(position: SearchPosition, move: number, undo: MoveUndo) {
+  const { squares } = position;
+  const side = position.side === 1 ? -1 : 1;
+  const from = moveFrom(move);
+  const to = moveTo(move);
+  const flags = moveFlags(move);
+
+  if (flags & FLAG_CASTLING) {
+    squares[to] = 0;
+    squares[(to & ~7) | ((to & 7) === 6 ? 5 : 3)] = 0;
+    squares[getCastlingRook(position, to, side)] = side * ROOK;
+    squares[from] = side * KING;
+  } else {
+    squares[from] = movePromotion(move) ? side * PAWN : squares[to];
+    squares[to] = undo.captured;
+
+    if (flags & FLAG_EN_PASSANT) {
+      squares[(from & ~7) | (to & 7)] = -side * PAWN;
+    }
+  }
+  if (squares[from] === side * KING) position.kings[colorOf(side)] = from;
+
+  position.side = side;
+  position.castling = undo.castling;
+  position.epSquare = undo.epSquare;
+}
@@ -0,0 +1,148 @@
+import {
+  CastlingSide,
+  ConfirmationRecord,
+  GameEndReason,
+  MoveRecord,
+  PieceType,
+  PlacementRecord,
+  Position,
+  PromotionPieceType,
+  PurchaseRecord,
+} from '@/types/chess';
+
+export const FILES = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'];
+
+const pieceLetters: Record<PieceType, string> = {
+  king: 'K',
+  queen: 'Q',
+  rook: 'R',
+  bishop: 'B',
+  knight: 'N',
+  pawn: 'P',
+};
+
+export function getPieceLetter(type: PieceType): string {
+  return pieceLetters[type];
+}
+
+export function getPieceTypeFromLetter(letter: string): PieceType | null {
+  const entry = Object.entries(pieceLetters).find(([, value]) => value === letter.toUpperCase());
+  return entry ? (entry[0] as PieceType) : null;
+}
+
+// La rangée 0 du plateau correspond à la 8e rangée de l'échiquier
+export function squareToAlgebraic([row, col]: Position): string {
+  return `${FILES[col]}${8 - row}`;
+}
+
+export function algebraicToSquare(square: string): Position | null {
+  const match = /^([a-h])([1-8])$/.exec(square);
+  if (!match) return null;
+  return [8 - Number(match[2]), FILES.indexOf(match[1])];
+}
+
+export function formatMoveNotation({
+  piece,
+  from,
+  to,
+  isCapture,
+  promotion,
+  castling,
+  disambiguation,
+  isCheck,
+  isCheckmate,
+}: {
+  piece: PieceType;
+  from: Position;
+  to: Position;
+  isCapture: boolean;
+  promotion?: PromotionPieceType;
+  castling?: CastlingSide;
+  disambiguation: string;
+  isCheck: boolean;
+  isCheckmate: boolean;
+}): string {
+  let notation: string;
+
+  if (castling) {
+    notation = castling === 'kingside' ? 'O-O' : 'O-O-O';
+  } else if (piece === 'pawn') {
+    // Un pion qui capture est désigné par sa colonne de départ
+    notation = isCapture ? `${FILES[from[1]]}x${squareToAlgebraic(to)}` : squareToAlgebraic(to);
+    if (promotion) notation += `=${pieceLetters[promotion]}`;
+  } else {
+    notation = `${pieceLetters[piece]}${disambiguation}${isCapture ? 'x' : ''}${squareToAlgebraic(to)}`;
+  }
+
+  if (isCheckmate) return `${notation}#`;
+  if (isCheck) return `${notation}+`;
+  return notation;
+}
+
+// Une suppression ou une réouverture peut découvrir un échec, voire mater
+function getCheckSuffix({ isCheck, isCheckmate }: { isCheck: boolean; isCheckmate: boolean }): string {
+  if (isCheckmate) return '#';
+  return isCheck ? '+' : '';
+}
+
+export function getRemovalNotation(square: Position, check = { isCheck: false, isCheckmate: false }): string {
+  return `@${squareToAlgebraic(square)}${getCheckSuffix(check)}`;
+}
+
+export function getRestoreNotation(square: Position, check = { isCheck: false, isCheckmate: false }): string {
+  return `=@${squareToAlgebraic(square)}${getCheckSuffix(check)}`;
+}
+
+export function getPlacementNotation(piece: PieceType, square: Position): string {
+  return `${pieceLetters[piece]}@${squareToAlgebraic(square)}`;
+}
+
+// Armée achetée, pièces identiques regroupées : « K Q 2R 2B 2N 8P »
+export function getPurchaseNotation(pieces: PieceType[]): string {
+  const counts = new Map<PieceType, number>();
+  for (const piece of pieces) counts.set(piece, (counts.get(piece) ?? 0) + 1);
+  return [...counts].map(([piece, count]) => `${count > 1 ? count : ''}${pieceLetters[piece]}`).join(' ');
+}
+
+// Achats et placements précèdent la partie : ils forment le draft
+export function isDraftRecord(record: MoveRecord): record is PlacementRecord | PurchaseRecord | ConfirmationRecord {
+  return record.type === 'placement' || record.type === 'purchase' || record.type === 'confirmation';
+}
+
+// Numérotation reprise du coup de départ (FEN) ; une partie où les noirs ont le trait commence par « N... »
+export function groupMovesByTurn(
+  history: MoveRecord[],
+  firstTurn: number = 1
+): { turn: number; white?: MoveRecord; black?: MoveRecord }[] {
+  // Le draft précède la partie et n'est pas numéroté
+  const plies = history.filter(record => !isDraftRecord(record));
+  const turns: { turn: number; white?: MoveRecord; black?: MoveRecord }[] = [];
+
+  let turn = firstTurn;
+  for (const record of plies) {
+    const last = turns[turns.length - 1];
+    if (record.player === 'white') {
+      turns.push({ turn, white: record });
+    } else {
+      if (last && last.turn === turn && !last.black) {
+        last.black = record;
+      } else {
+        turns.push({ turn, black: record });
+      }
+      turn++;
+    }
+  }
+
+  return turns;
+}
+
+export const resultReasonLabels: Record<GameEndReason, string> = {
+  checkmate: 'par échec et mat',
+  timeout: 'au temps',
+  stalemate: 'par pat',
+  insufficientMaterial: 'par manque de matériel',
+  threefoldRepetition: 'par triple répétition',
+  fiftyMoveRule: 'par la règle des 50 coups',
+  agreement: 'par accord mutuel',
+  resignation: 'par abandon',
+};
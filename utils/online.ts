@@ -0,0 +1,124 @@
+import { GameSettings, GameState, Position } from '@/types/chess';
+import { OnlineAction } from '@/types/online';
+import {
+  applyArmyPurchase,
+  applyDraftPlacement,
+  applyMove,
+  applyRemoval,
+  applyRestore,
+  confirmDraft,
+  createDraftGameState,
+  createInitialGameState,
+  getAllValidMoves,
+  getGameResult,
+  getUndoableDraftPlayer,
+  isValidArmyPurchase,
+  isValidDraftConfirmation,
+  isValidDraftPlacement,
+  isValidRemoval,
+  isValidRestore,
+  undoDraftPlacement,
+} from '@/utils/chessLogic';
+import { getSettingsArmyBudget } from '@/utils/army';
+import { parseFEN } from '@/utils/fen';
+
+export class OnlineActionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OnlineActionError';
+  }
+}
+
+// Position de départ d'une partie en ligne, construite comme dans l'écran de jeu
+export function createStartGameState(settings: GameSettings): GameState {
+  if (settings.startFen?.trim()) {
+    return parseFEN(settings.startFen, settings.removalsPerPlayer, settings.timeLimit, settings.removedSquareRules, settings.restoresPerPlayer);
+  }
+  return settings.draftMode
+    ? createDraftGameState(
+      settings.timeLimit,
+      settings.removedSquareRules,
+      settings.draftFormat,
+      settings.draftSeed,
+      getSettingsArmyBudget(settings),
+      settings.draftSetup,
+      settings.draftTimeLimit,
+      settings.draftReview
+    )
+    : createInitialGameState(settings.timeLimit, settings.removedSquareRules);
+}
+
+// Les messages viennent du réseau : on ne fait pas confiance à leur forme
+function isSquare(value: unknown): value is Position {
+  return Array.isArray(value)
+    && value.length === 2
+    && value.every(coordinate => Number.isInteger(coordinate) && coordinate >= 0 && coordinate < 8);
+}
+
+function isSameSquare([rowA, colA]: Position, [rowB, colB]: Position): boolean {
+  return rowA === rowB && colA === colB;
+}
+
+// Valide puis applique une action reçue du réseau, fin de partie comprise
+export function applyOnlineAction(
+  gameState: GameState,
+  action: OnlineAction,
+  { removalsPerPlayer, restoresPerPlayer }: Pick<GameSettings, 'removalsPerPlayer' | 'restoresPerPlayer'>
+): GameState {
+  if (gameState.gameOver) throw new OnlineActionError('La partie est terminée');
+
+  let nextGameState: GameState;
+  switch (action.type) {
+    case 'purchase':
+      if (!isValidArmyPurchase(gameState, action.pieces)) {
+        throw new OnlineActionError('Armée invalide');
+      }
+      nextGameState = applyArmyPurchase(gameState, action.pieces);
+      break;
+    case 'placement':
+      if (!isSquare(action.square) || !isValidDraftPlacement(gameState, action.piece, action.square)) {
+        throw new OnlineActionError('Placement invalide');
+      }
+      nextGameState = applyDraftPlacement(gameState, action.piece, action.square);
+      break;
+    case 'confirmDraft':
+      if (!isValidDraftConfirmation(gameState)) throw new OnlineActionError('Aucune position à valider');
+      nextGameState = confirmDraft(gameState);
+      break;
+    case 'undoDraft':
+      if (getUndoableDraftPlayer(gameState) === null) throw new OnlineActionError('Aucun placement à reprendre');
+      nextGameState = undoDraftPlacement(gameState);
+      break;
+    case 'removal':
+      if (gameState.draftState || !isSquare(action.square) || !isValidRemoval(gameState, action.square, removalsPerPlayer)) {
+        throw new OnlineActionError('Suppression invalide');
+      }
+      nextGameState = applyRemoval(gameState, action.square, removalsPerPlayer);
+      break;
+    case 'restore':
+      if (gameState.draftState || !isSquare(action.square) || !isValidRestore(gameState, action.square, restoresPerPlayer)) {
+        throw new OnlineActionError('Réouverture invalide');
+      }
+      nextGameState = applyRestore(gameState, action.square, removalsPerPlayer);
+      break;
+    case 'move': {
+      if (gameState.draftState || !isSquare(action.from) || !isSquare(action.to)) {
+        throw new OnlineActionError('Coup invalide');
+      }
+      const { board, currentPlayer, removedSquares } = gameState;
+      const isLegal = getAllValidMoves(board, currentPlayer, removedSquares, gameState).some(move =>
+        isSameSquare(move.from, action.from)
+        && isSameSquare(move.to, action.to)
+        && move.promotion === action.promotion
+      );
+      if (!isLegal) throw new OnlineActionError('Coup illégal');
+      nextGameState = applyMove(gameState, action.from, action.to, action.promotion, removalsPerPlayer).gameState;
+      break;
+    }
+    default:
+      throw new OnlineActionError('Action inconnue');
+  }
+
+  const result = getGameResult(nextGameState, removalsPerPlayer, restoresPerPlayer);
+  return { ...nextGameState, gameOver: result !== null, result };
+}
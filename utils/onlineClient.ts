@@ -0,0 +1,56 @@
+import { ClientMessage, ServerMessage } from '@/types/online';
+
+export const DEFAULT_SERVER_URL = 'ws://localhost:8080';
+
+export interface OnlineConnection {
+  send: (message: ClientMessage) => void;
+  close: () => void;
+}
+
+interface ConnectionHandlers {
+  onMessage: (message: ServerMessage) => void;
+  onClose: () => void;
+}
+
+// WebSocket est fourni par React Native comme par le navigateur
+export function connectToServer(url: string, { onMessage, onClose }: ConnectionHandlers): OnlineConnection {
+  const socket = new WebSocket(url);
+  // Messages envoyés avant l'ouverture de la connexion
+  const queue: string[] = [];
+  let closedByClient = false;
+
+  socket.onopen = () => {
+    queue.splice(0).forEach(data => socket.send(data));
+  };
+
+  socket.onmessage = event => {
+    let message: ServerMessage;
+    try {
+      message = JSON.parse(String(event.data));
+    } catch (error) {
+      console.warn('Message du serveur illisible', error);
+      return;
+    }
+    onMessage(message);
+  };
+
+  // Une erreur de connexion est toujours suivie d'une fermeture
+  socket.onclose = () => {
+    if (!closedByClient) onClose();
+  };
+
+  return {
+    send: message => {
+      const data = JSON.stringify(message);
+      if (socket.readyState === WebSocket.OPEN) {
+        socket.send(data);
+      } else {
+        queue.push(data);
+      }
+    },
+    close: () => {
+      closedByClient = true;
+      socket.close();
+    },
+  };
+}
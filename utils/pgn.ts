@@ -0,0 +1,610 @@
+import {
+  ArmyMode,
+  ClockMode,
+  DraftConstraint,
+  DraftFormat,
+  DraftReserve,
+  DraftSetup,
+  DraftZone,
+  GameEndReason,
+  GameResult,
+  GameSettings,
+  GameState,
+  Move,
+  PieceType,
+  Player,
+  Position,
+} from '@/types/chess';
+import {
+  createDraftGameState,
+  createInitialGameState,
+  getAllValidMoves,
+  getAvailableDraftPieces,
+  getCastlingSide,
+  getGameResult,
+  applyMove,
+  applyRemoval,
+  applyRestore,
+  applyArmyPurchase,
+  applyDraftPlacement,
+  confirmDraft,
+  isValidArmyPurchase,
+  isValidDraftPlacement,
+  isValidRemoval,
+  isValidRestore,
+} from '@/utils/chessLogic';
+import { DEFAULT_REMOVED_SQUARE_RULES } from '@/utils/moveGenerator';
+import { ARMY_MODES, DEFAULT_ARMY_BUDGET, getSettingsArmyBudget, isValidArmyBudget } from '@/utils/army';
+import { DRAFT_FORMATS, isValidDraftSeed } from '@/utils/draftFormats';
+import {
+  DEFAULT_DRAFT_RESERVE,
+  DEFAULT_DRAFT_SETUP,
+  DRAFT_CONSTRAINTS,
+  DRAFT_ZONES,
+  getDraftSetupError,
+} from '@/utils/draftSetup';
+import { parseFEN } from '@/utils/fen';
+import {
+  algebraicToSquare,
+  getPieceLetter,
+  getPieceTypeFromLetter,
+  groupMovesByTurn,
+  squareToAlgebraic,
+} from '@/utils/notation';
+
+export const VARIANT_NAME = 'Chess Variant 64';
+
+export class PGNParseError extends Error {
+  line: number;
+  column: number;
+
+  constructor(message: string, line: number, column: number) {
+    super(`${message} (ligne ${line}, colonne ${column})`);
+    this.name = 'PGNParseError';
+    this.line = line;
+    this.column = column;
+  }
+}
+
+export interface ParsedPGN {
+  tags: Record<string, string>;
+  settings: GameSettings;
+  startGameState: GameState; // avant le premier placement ou le premier coup
+  gameState: GameState;
+}
+
+interface Token {
+  value: string;
+  line: number;
+  column: number;
+}
+
+const RESULT_TOKENS = ['1-0', '0-1', '1/2-1/2', '*'];
+const CLOCK_MODES: ClockMode[] = ['fischer', 'bronstein', 'delay', 'hourglass'];
+
+// Fins de partie que l'on ne peut pas déduire de la position
+const OFF_BOARD_REASONS: GameEndReason[] = ['timeout', 'agreement', 'resignation'];
+
+function isOffBoardReason(reason: string): reason is GameEndReason {
+  return (OFF_BOARD_REASONS as string[]).includes(reason);
+}
+
+function formatResult(result: GameResult | null): string {
+  if (!result) return '*';
+  if (!result.winner) return '1/2-1/2';
+  return result.winner === 'white' ? '1-0' : '0-1';
+}
+
+function escapeTagValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+}
+
+function formatDate(date: Date): string {
+  const month = `${date.getMonth() + 1}`.padStart(2, '0');
+  const day = `${date.getDate()}`.padStart(2, '0');
+  return `${date.getFullYear()}.${month}.${day}`;
+}
+
+export function exportPGN(
+  gameState: GameState,
+  settings: GameSettings,
+  extraTags: Record<string, string> = {},
+  date: Date = new Date()
+): string {
+  const result = formatResult(gameState.result);
+  const computerPlayer = settings.opponent === 'computer'
+    ? (settings.humanColor === 'white' ? 'black' : 'white')
+    : null;
+  const tags: Record<string, string> = {
+    Event: 'Partie amicale',
+    Site: '?',
+    Date: formatDate(date),
+    White: computerPlayer === 'white' ? 'Ordinateur' : 'Blanc',
+    Black: computerPlayer === 'black' ? 'Ordinateur' : 'Noir',
+    Result: result,
+    Variant: VARIANT_NAME,
+    TimeLimit: `${settings.timeLimit}`,
+    Increment: `${settings.clockIncrement}`,
+    ClockMode: settings.clockMode,
+    RemovalsPerPlayer: `${settings.removalsPerPlayer}`,
+    RestoresPerPlayer: `${settings.restoresPerPlayer}`,
+    DraftMode: settings.draftMode ? 'true' : 'false',
+    DraftFormat: settings.draftFormat,
+    BlockSliders: `${settings.removedSquareRules.blockSliders}`,
+    PawnDoublePushOver: `${settings.removedSquareRules.pawnDoublePushOver}`,
+    CastleThrough: `${settings.removedSquareRules.castleThrough}`,
+    RemovalLifetime: `${settings.removedSquareRules.lifetime}`,
+    ...extraTags,
+  };
+
+  // Position de départ personnalisée : tags standard SetUp et FEN
+  const startFen = settings.startFen?.trim();
+  if (startFen) {
+    tags.SetUp = '1';
+    tags.FEN = startFen;
+  }
+
+  if (settings.draftMode && settings.draftFormat === 'random') {
+    tags.DraftSeed = `${settings.draftSeed}`;
+  }
+  if (settings.draftMode && settings.armyMode === 'budget') {
+    tags.ArmyMode = settings.armyMode;
+    tags.ArmyBudget = `${settings.armyBudget}`;
+  }
+  if (settings.draftMode && settings.draftFormat !== 'random') {
+    const { reserve, zone, constraints } = settings.draftSetup;
+    const reserveTag = formatDraftReserve(reserve);
+    if (settings.armyMode === 'fixed' && reserveTag !== formatDraftReserve(DEFAULT_DRAFT_RESERVE)) {
+      tags.DraftReserve = reserveTag;
+    }
+    if (zone !== DEFAULT_DRAFT_SETUP.zone) tags.DraftZone = zone;
+    if (constraints.length > 0) tags.DraftConstraints = constraints.join(',');
+    if (settings.draftTimeLimit > 0) tags.DraftTimeLimit = `${settings.draftTimeLimit}`;
+    if (settings.draftReview) tags.DraftReview = 'true';
+  }
+
+  // Les placements indiquent leur couleur comme en FEN : majuscule pour les blancs
+  const placements = gameState.history.filter(record => record.type === 'placement');
+  if (placements.length > 0) {
+    tags.Draft = placements
+      .map(record => {
+        const letter = getPieceLetter(record.piece);
+        return `${record.player === 'white' ? letter : letter.toLowerCase()}@${squareToAlgebraic(record.square)}`;
+      })
+      .join(' ');
+  }
+  if (gameState.result) {
+    tags.Termination = gameState.result.reason;
+  }
+
+  const tagSection = Object.entries(tags)
+    .map(([name, value]) => `[${name} "${escapeTagValue(value)}"]`)
+    .join('\n');
+
+  const firstTurn = startFen ? parseSettingsFEN(startFen, settings).fullmoveNumber : 1;
+  const tokens: string[] = [];
+  for (const { turn, white, black } of groupMovesByTurn(gameState.history, firstTurn)) {
+    tokens.push(white ? `${turn}.` : `${turn}...`);
+    if (white) tokens.push(white.notation);
+    if (black) tokens.push(black.notation);
+  }
+  tokens.push(result);
+
+  // Lignes de 80 caractères au plus, comme le veut le format PGN
+  const lines: string[] = [];
+  let currentLine = '';
+  for (const token of tokens) {
+    if (currentLine && currentLine.length + token.length + 1 > 80) {
+      lines.push(currentLine);
+      currentLine = token;
+    } else {
+      currentLine = currentLine ? `${currentLine} ${token}` : token;
+    }
+  }
+  lines.push(currentLine);
+
+  return `${tagSection}\n\n${lines.join('\n')}\n`;
+}
+
+function parseSettingsFEN(fen: string, settings: GameSettings): GameState {
+  return parseFEN(fen, settings.removalsPerPlayer, settings.timeLimit, settings.removedSquareRules, settings.restoresPerPlayer);
+}
+
+function tokenize(text: string): { tags: Map<string, Token>; tokens: Token[] } {
+  const tags = new Map<string, Token>();
+  const tokens: Token[] = [];
+
+  let line = 1;
+  let column = 1;
+  let index = 0;
+
+  const advance = () => {
+    if (text[index] === '\n') {
+      line++;
+      column = 1;
+    } else {
+      column++;
+    }
+    index++;
+  };
+
+  while (index < text.length) {
+    const char = text[index];
+
+    if (/\s/.test(char)) {
+      advance();
+    } else if (char === '[') {
+      // Paire de tags : [Nom "valeur"]
+      const startLine = line;
+      const startColumn = column;
+      const end = text.indexOf('\n', index);
+      const raw = text.slice(index, end === -1 ? text.length : end).trimEnd();
+      const match = /^\[([A-Za-z0-9_]+)\s+"((?:[^"\\]|\\.)*)"\]$/.exec(raw);
+      if (!match) {
+        throw new PGNParseError('Paire de tags invalide', startLine, startColumn);
+      }
+      const valueColumn = startColumn + raw.indexOf('"') + 1;
+      tags.set(match[1], {
+        value: match[2].replace(/\\(["\\])/g, '$1'),
+        line: startLine,
+        column: valueColumn,
+      });
+      while (index < text.length && text[index] !== '\n') advance();
+    } else if (char === '{') {
+      // Commentaire entre accolades, éventuellement sur plusieurs lignes
+      const startLine = line;
+      const startColumn = column;
+      while (index < text.length && text[index] !== '}') advance();
+      if (index >= text.length) {
+        throw new PGNParseError('Commentaire non terminé', startLine, startColumn);
+      }
+      advance();
+    } else if (char === ';') {
+      while (index < text.length && text[index] !== '\n') advance();
+    } else if (char === '(') {
+      // Les variantes ne sont pas rejouées
+      const startLine = line;
+      const startColumn = column;
+      let depth = 0;
+      do {
+        if (text[index] === '(') depth++;
+        if (text[index] === ')') depth--;
+        advance();
+      } while (index < text.length && depth > 0);
+      if (depth > 0) {
+        throw new PGNParseError('Variante non terminée', startLine, startColumn);
+      }
+    } else {
+      const startLine = line;
+      const startColumn = column;
+      let value = '';
+      while (index < text.length && !/[\s{};()[\]]/.test(text[index])) {
+        value += text[index];
+        advance();
+      }
+      if (!value) {
+        throw new PGNParseError(`Caractère inattendu « ${char} »`, line, column);
+      }
+      tokens.push({ value, line: startLine, column: startColumn });
+    }
+  }
+
+  return { tags, tokens };
+}
+
+function parseNumberTag(tag: Token | undefined, fallback: number): number {
+  if (!tag) return fallback;
+  const value = Number(tag.value);
+  if (!Number.isInteger(value) || value < 0) {
+    throw new PGNParseError(`Valeur numérique invalide « ${tag.value} »`, tag.line, tag.column);
+  }
+  return value;
+}
+
+function parseBooleanTag(tag: Token | undefined, name: string, fallback: boolean): boolean {
+  if (!tag) return fallback;
+  if (tag.value !== 'true' && tag.value !== 'false') {
+    throw new PGNParseError(`Valeur ${name} invalide « ${tag.value} »`, tag.line, tag.column);
+  }
+  return tag.value === 'true';
+}
+
+// Réserve notée comme une rangée de FEN, une lettre par pièce : « KQRRBBNN »
+function formatDraftReserve(reserve: DraftReserve): string {
+  return getAvailableDraftPieces(reserve).map(getPieceLetter).join('');
+}
+
+function parseDraftSetup(tags: Map<string, Token>): DraftSetup {
+  const reserveTag = tags.get('DraftReserve');
+  const reserve = { ...DEFAULT_DRAFT_RESERVE };
+  if (reserveTag) {
+    for (const piece of Object.keys(reserve) as PieceType[]) reserve[piece] = 0;
+    for (const letter of reserveTag.value) {
+      const piece = letter === letter.toUpperCase() ? getPieceTypeFromLetter(letter) : null;
+      if (!piece) {
+        throw new PGNParseError(`Pièce de réserve inconnue « ${letter} »`, reserveTag.line, reserveTag.column);
+      }
+      reserve[piece]++;
+    }
+  }
+
+  const zoneTag = tags.get('DraftZone');
+  if (zoneTag && !DRAFT_ZONES.includes(zoneTag.value as DraftZone)) {
+    throw new PGNParseError(`Valeur DraftZone invalide « ${zoneTag.value} »`, zoneTag.line, zoneTag.column);
+  }
+
+  const constraintsTag = tags.get('DraftConstraints');
+  const constraints = constraintsTag ? constraintsTag.value.split(',') as DraftConstraint[] : [];
+  const unknown = constraints.find(constraint => !DRAFT_CONSTRAINTS.includes(constraint));
+  if (constraintsTag && unknown !== undefined) {
+    throw new PGNParseError(`Contrainte de draft inconnue « ${unknown} »`, constraintsTag.line, constraintsTag.column);
+  }
+
+  const setup: DraftSetup = { reserve, zone: (zoneTag?.value as DraftZone | undefined) ?? DEFAULT_DRAFT_SETUP.zone, constraints };
+  const error = getDraftSetupError(setup);
+  if (error) {
+    const location = reserveTag ?? zoneTag ?? { line: 1, column: 1 };
+    throw new PGNParseError(error, location.line, location.column);
+  }
+  return setup;
+}
+
+function replayDraft(gameState: GameState, tag: Token): GameState {
+  const placements: { piece: PieceType; square: Position; player: Player; text: string; column: number }[] = [];
+  let offset = 0;
+
+  for (const placement of tag.value.split(' ')) {
+    const column = tag.column + offset;
+    offset += placement.length + 1;
+    if (!placement) continue;
+
+    const match = /^([KQRBNPkqrbnp])@([a-h][1-8])$/.exec(placement);
+    const piece = match ? getPieceTypeFromLetter(match[1]) : null;
+    const square = match ? algebraicToSquare(match[2]) : null;
+    if (!match || !piece || !square) {
+      throw new PGNParseError(`Placement invalide « ${placement} »`, tag.line, column);
+    }
+    const player: Player = match[1] === match[1].toUpperCase() ? 'white' : 'black';
+    placements.push({ piece, square, player, text: placement, column });
+  }
+
+  // Armées achetées : chacune se déduit des pièces que son camp a posées
+  let state = gameState;
+  while (state.draftState?.phase === 'shop') {
+    const player = state.draftState.currentDraftPlayer;
+    const army = placements.filter(placement => placement.player === player).map(placement => placement.piece);
+    if (!isValidArmyPurchase(state, army)) {
+      throw new PGNParseError(`Armée ${player === 'white' ? 'blanche' : 'noire'} invalide`, tag.line, tag.column);
+    }
+    state = applyArmyPurchase(state, army);
+  }
+
+  for (const { piece, square, player, text, column } of placements) {
+    if (!state.draftState || state.draftState.currentDraftPlayer !== player) {
+      throw new PGNParseError(`Placement hors de son tour « ${text} »`, tag.line, column);
+    }
+    if (!isValidDraftPlacement(state, piece, square)) {
+      throw new PGNParseError(`Placement illégal « ${text} »`, tag.line, column);
+    }
+    state = applyDraftPlacement(state, piece, square);
+  }
+
+  // Une partie exportée a dépassé la vérification finale : les deux joueurs avaient validé
+  while (state.draftState?.phase === 'review') state = confirmDraft(state);
+
+  if (state.draftState) {
+    throw new PGNParseError('Draft incomplet', tag.line, tag.column);
+  }
+  return state;
+}
+
+function resolveMove(gameState: GameState, san: string): Move | null {
+  const { board, currentPlayer, removedSquares } = gameState;
+  const legalMoves = getAllValidMoves(board, currentPlayer, removedSquares, gameState);
+
+  const castling = /^(O-O-O|0-0-0|O-O|0-0)$/.exec(san);
+  if (castling) {
+    const side = castling[1].length === 3 ? 'kingside' : 'queenside';
+    return legalMoves.find(({ from, to }) => getCastlingSide(board, from, to) === side) ?? null;
+  }
+
+  const match = /^([KQRBN])?([a-h])?([1-8])?x?([a-h][1-8])(?:=([QRBN]))?$/.exec(san);
+  if (!match) return null;
+
+  const pieceType = match[1] ? getPieceTypeFromLetter(match[1]) : 'pawn';
+  const fromFile = match[2];
+  const fromRank = match[3];
+  const to = algebraicToSquare(match[4]);
+  const promotion = match[5] ? getPieceTypeFromLetter(match[5]) : undefined;
+  if (!to) return null;
+
+  const candidates = legalMoves.filter(move =>
+    board[move.from[0]][move.from[1]]?.type === pieceType &&
+    move.to[0] === to[0] && move.to[1] === to[1] &&
+    (!fromFile || squareToAlgebraic(move.from)[0] === fromFile) &&
+    (!fromRank || squareToAlgebraic(move.from)[1] === fromRank) &&
+    move.promotion === promotion
+  );
+
+  // Un coup ambigu est refusé plutôt que deviné
+  return candidates.length === 1 ? candidates[0] : null;
+}
+
+export function parsePGN(text: string): ParsedPGN {
+  const { tags, tokens } = tokenize(text);
+
+  const variant = tags.get('Variant');
+  if (variant && variant.value !== VARIANT_NAME) {
+    throw new PGNParseError(`Variante non supportée « ${variant.value} »`, variant.line, variant.column);
+  }
+
+  const clockModeTag = tags.get('ClockMode');
+  if (clockModeTag && !CLOCK_MODES.includes(clockModeTag.value as ClockMode)) {
+    throw new PGNParseError(`Valeur ClockMode invalide « ${clockModeTag.value} »`, clockModeTag.line, clockModeTag.column);
+  }
+
+  const draftFormatTag = tags.get('DraftFormat');
+  if (draftFormatTag && !DRAFT_FORMATS.includes(draftFormatTag.value as DraftFormat)) {
+    throw new PGNParseError(`Valeur DraftFormat invalide « ${draftFormatTag.value} »`, draftFormatTag.line, draftFormatTag.column);
+  }
+  const draftSeedTag = tags.get('DraftSeed');
+  if (draftSeedTag && !isValidDraftSeed(Number(draftSeedTag.value))) {
+    throw new PGNParseError(`Valeur DraftSeed invalide « ${draftSeedTag.value} »`, draftSeedTag.line, draftSeedTag.column);
+  }
+
+  const armyModeTag = tags.get('ArmyMode');
+  if (armyModeTag && !ARMY_MODES.includes(armyModeTag.value as ArmyMode)) {
+    throw new PGNParseError(`Valeur ArmyMode invalide « ${armyModeTag.value} »`, armyModeTag.line, armyModeTag.column);
+  }
+  const armyBudgetTag = tags.get('ArmyBudget');
+  if (armyBudgetTag && !isValidArmyBudget(Number(armyBudgetTag.value))) {
+    throw new PGNParseError(`Valeur ArmyBudget invalide « ${armyBudgetTag.value} »`, armyBudgetTag.line, armyBudgetTag.column);
+  }
+
+  // Un tag FEN sans SetUp est toléré ; SetUp "0" l'annule
+  const fenTag = tags.get('SetUp')?.value === '0' ? undefined : tags.get('FEN');
+
+  const settings: GameSettings = {
+    timeLimit: parseNumberTag(tags.get('TimeLimit'), 5),
+    clockMode: (clockModeTag?.value as ClockMode | undefined) ?? 'fischer',
+    clockIncrement: parseNumberTag(tags.get('Increment'), 0),
+    removalsPerPlayer: parseNumberTag(tags.get('RemovalsPerPlayer'), 3),
+    restoresPerPlayer: parseNumberTag(tags.get('RestoresPerPlayer'), 0),
+    draftMode: parseBooleanTag(tags.get('DraftMode'), 'DraftMode', false),
+    draftFormat: (draftFormatTag?.value as DraftFormat | undefined) ?? 'alternate',
+    draftSeed: draftSeedTag ? Number(draftSeedTag.value) : 0,
+    armyMode: (armyModeTag?.value as ArmyMode | undefined) ?? 'fixed',
+    armyBudget: armyBudgetTag ? Number(armyBudgetTag.value) : DEFAULT_ARMY_BUDGET,
+    draftSetup: parseDraftSetup(tags),
+    draftTimeLimit: parseNumberTag(tags.get('DraftTimeLimit'), 0),
+    draftReview: parseBooleanTag(tags.get('DraftReview'), 'DraftReview', false),
+    // Une partie importée se rejoue toujours entre deux humains
+    opponent: 'human',
+    humanColor: 'white',
+    computerDraftStyle: 'balanced',
+    boardLayout: 'standard',
+    removedSquareRules: {
+      blockSliders: parseBooleanTag(tags.get('BlockSliders'), 'BlockSliders', DEFAULT_REMOVED_SQUARE_RULES.blockSliders),
+      pawnDoublePushOver: parseBooleanTag(
+        tags.get('PawnDoublePushOver'),
+        'PawnDoublePushOver',
+        DEFAULT_REMOVED_SQUARE_RULES.pawnDoublePushOver
+      ),
+      castleThrough: parseBooleanTag(tags.get('CastleThrough'), 'CastleThrough', DEFAULT_REMOVED_SQUARE_RULES.castleThrough),
+      lifetime: parseNumberTag(tags.get('RemovalLifetime'), DEFAULT_REMOVED_SQUARE_RULES.lifetime),
+    },
+    ...(fenTag && { startFen: fenTag.value }),
+  };
+
+  // Comme au lancement d'une partie, une position de départ l'emporte sur le draft
+  let startGameState: GameState;
+  let draftTag: Token | undefined;
+  if (fenTag) {
+    try {
+      startGameState = parseSettingsFEN(fenTag.value, settings);
+    } catch (error) {
+      throw new PGNParseError(error instanceof Error ? error.message : String(error), fenTag.line, fenTag.column);
+    }
+  } else if (settings.draftMode && settings.draftFormat === 'random') {
+    // Le tirage se refait à l'identique à partir de la graine
+    if (!draftSeedTag) {
+      throw new PGNParseError('Tag DraftSeed manquant pour un draft tiré au sort', 1, 1);
+    }
+    startGameState = createDraftGameState(settings.timeLimit, settings.removedSquareRules, 'random', settings.draftSeed);
+  } else if (settings.draftMode) {
+    draftTag = tags.get('Draft');
+    if (!draftTag) {
+      throw new PGNParseError('Tag Draft manquant pour une partie en mode draft', 1, 1);
+    }
+    startGameState = createDraftGameState(
+      settings.timeLimit,
+      settings.removedSquareRules,
+      settings.draftFormat,
+      0,
+      getSettingsArmyBudget(settings),
+      settings.draftSetup,
+      settings.draftTimeLimit,
+      settings.draftReview
+    );
+  } else {
+    startGameState = createInitialGameState(settings.timeLimit, settings.removedSquareRules);
+  }
+  let gameState = draftTag ? replayDraft(startGameState, draftTag) : startGameState;
+
+  let resultToken: Token | null = null;
+  for (const token of tokens) {
+    if (resultToken) {
+      throw new PGNParseError(`Coup après le résultat « ${token.value} »`, token.line, token.column);
+    }
+    if (RESULT_TOKENS.includes(token.value)) {
+      resultToken = token;
+      continue;
+    }
+
+    // Numéros de coups (« 12. » ou « 12... »), éventuellement collés au coup suivant
+    const numberMatch = /^\d+\.+/.exec(token.value);
+    const san = (numberMatch ? token.value.slice(numberMatch[0].length) : token.value)
+      .replace(/[+#!?]+$/, '');
+    const column = token.column + (numberMatch ? numberMatch[0].length : 0);
+    if (!san || /^\$\d+$/.test(san)) continue;
+
+    if (gameState.gameOver) {
+      throw new PGNParseError(`Coup après la fin de la partie « ${san} »`, token.line, column);
+    }
+
+    if (san.startsWith('=@')) {
+      const square = algebraicToSquare(san.slice(2));
+      if (!square || !isValidRestore(gameState, square, settings.restoresPerPlayer)) {
+        throw new PGNParseError(`Réouverture illégale « ${san} »`, token.line, column);
+      }
+      gameState = applyRestore(gameState, square, settings.removalsPerPlayer);
+    } else if (san.startsWith('@')) {
+      const square = algebraicToSquare(san.slice(1));
+      if (!square || !isValidRemoval(gameState, square, settings.removalsPerPlayer)) {
+        throw new PGNParseError(`Suppression illégale « ${san} »`, token.line, column);
+      }
+      gameState = applyRemoval(gameState, square, settings.removalsPerPlayer);
+    } else {
+      const move = resolveMove(gameState, san);
+      if (!move) {
+        throw new PGNParseError(`Coup illégal ou ambigu « ${san} »`, token.line, column);
+      }
+      gameState = applyMove(gameState, move.from, move.to, move.promotion, settings.removalsPerPlayer).gameState;
+    }
+
+    const result = getGameResult(gameState, settings.removalsPerPlayer, settings.restoresPerPlayer);
+    if (result) {
+      gameState = { ...gameState, gameOver: true, result };
+    }
+  }
+
+  // Les fins de partie hors échiquier (abandon, temps, accord) viennent du résultat annoncé
+  if (resultToken && resultToken.value !== '*') {
+    const announced = resultToken.value;
+    if (gameState.result) {
+      if (formatResult(gameState.result) !== announced) {
+        throw new PGNParseError(`Résultat incohérent avec la position « ${announced} »`, resultToken.line, resultToken.column);
+      }
+    } else {
+      const termination = tags.get('Termination');
+      const winner: Player | null = announced === '1-0' ? 'white' : announced === '0-1' ? 'black' : null;
+      const reason = termination?.value ?? (winner ? 'resignation' : 'agreement');
+      if (!isOffBoardReason(reason)) {
+        const location = termination ?? resultToken;
+        throw new PGNParseError(`Fin de partie « ${reason} » absente de la position`, location.line, location.column);
+      }
+      gameState = {
+        ...gameState,
+        gameOver: true,
+        result: { outcome: winner ? 'win' : 'draw', winner, reason },
+      };
+    }
+  }
+
+  return {
+    tags: Object.fromEntries([...tags].map(([name, tag]) => [name, tag.value])),
+    settings,
+    startGameState,
+    gameState,
+  };
+}
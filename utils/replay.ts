@@ -0,0 +1,50 @@
+import { GameState, MoveRecord } from '@/types/chess';
+import {
+  applyArmyPurchase,
+  applyDraftPlacement,
+  applyMove,
+  applyRemoval,
+  applyRestore,
+  confirmDraft,
+} from '@/utils/chessLogic';
+import { isDraftRecord } from '@/utils/notation';
+
+export function applyRecord(gameState: GameState, record: MoveRecord, removalsPerPlayer: number): GameState {
+  switch (record.type) {
+    case 'move':
+      return applyMove(gameState, record.from, record.to, record.promotion, removalsPerPlayer).gameState;
+    case 'removal':
+      return applyRemoval(gameState, record.square, removalsPerPlayer);
+    case 'restore':
+      return applyRestore(gameState, record.square, removalsPerPlayer);
+    case 'placement':
+      return applyDraftPlacement(gameState, record.piece, record.square);
+    case 'purchase':
+      return applyArmyPurchase(gameState, record.pieces);
+    case 'confirmation':
+      return confirmDraft(gameState);
+  }
+}
+
+// Une position par demi-coup : la position de départ, puis une après chaque action
+export function getReplayFrames(startGameState: GameState, history: MoveRecord[], removalsPerPlayer: number): GameState[] {
+  const frames: GameState[] = [startGameState];
+
+  let gameState = startGameState;
+  for (const record of history) {
+    gameState = applyRecord(gameState, record, removalsPerPlayer);
+    // Les chronos affichés sont ceux relevés au moment de l'action
+    frames.push({ ...gameState, timeLeft: record.timeLeft });
+  }
+
+  return frames;
+}
+
+// Pile d'annulation d'une partie reprise : la position avant chaque coup, suppression ou réouverture,
+// avec les chronos relevés à ce moment-là (le draft a sa propre annulation, limitée à son déroulement)
+export function rebuildUndoStack(startGameState: GameState, history: MoveRecord[], removalsPerPlayer: number): GameState[] {
+  const frames = getReplayFrames(startGameState, history, removalsPerPlayer);
+  return history.flatMap((record, index) => isDraftRecord(record)
+    ? []
+    : [{ ...frames[index], timeLeft: record.timeLeft, selectedSquare: null }]);
+}
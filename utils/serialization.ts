@@ -0,0 +1,54 @@
+import { GameSettings, GameState, SerializedGameState } from '@/types/chess';
+import { DEFAULT_ARMY_BUDGET } from '@/utils/army';
+import { DEFAULT_DRAFT_SETUP } from '@/utils/draftSetup';
+import { DEFAULT_CASTLING_ROOKS, DEFAULT_REMOVED_SQUARE_RULES } from '@/utils/moveGenerator';
+
+// Le Set des cases supprimées devient un tableau, seul format que JSON sait représenter
+export function serializeGameState(gameState: GameState): SerializedGameState {
+  return { ...gameState, removedSquares: [...gameState.removedSquares] };
+}
+
+// Les parties enregistrées avant les règles configurables suivaient les règles par défaut,
+// sans réouverture ni case temporaire, avec les tours de roque en a et h et la réserve classique
+// posée sur la dernière rangée
+export function deserializeGameState(serialized: SerializedGameState): GameState {
+  return {
+    ...serialized,
+    removedSquares: new Set(serialized.removedSquares),
+    removedSquareRules: { ...DEFAULT_REMOVED_SQUARE_RULES, ...serialized.removedSquareRules },
+    restoresUsed: serialized.restoresUsed ?? { white: 0, black: 0 },
+    removalExpiry: serialized.removalExpiry ?? {},
+    castlingRooks: serialized.castlingRooks ?? { ...DEFAULT_CASTLING_ROOKS },
+    draftState: serialized.draftState && {
+      ...serialized.draftState,
+      format: serialized.draftState.format ?? 'alternate',
+      placementsLeftInTurn: serialized.draftState.placementsLeftInTurn ?? 1,
+      hiddenPlacement: serialized.draftState.hiddenPlacement ?? null,
+      armyBudget: serialized.draftState.armyBudget ?? null,
+      phase: serialized.draftState.phase ?? 'placement',
+      zone: serialized.draftState.zone ?? ((serialized.draftState.armyBudget ?? null) === null ? 'backRank' : 'backTwoRanks'),
+      constraints: serialized.draftState.constraints ?? [],
+      review: serialized.draftState.review ?? false,
+      gameTimeLeft: serialized.draftState.gameTimeLeft ?? null,
+    },
+  };
+}
+
+// Réglages des parties enregistrées avant l'ajout d'une option : la valeur qu'elles suivaient alors
+export function deserializeSettings<T extends GameSettings>(settings: T): T {
+  return {
+    ...settings,
+    clockMode: settings.clockMode ?? 'fischer',
+    clockIncrement: settings.clockIncrement ?? 0,
+    restoresPerPlayer: settings.restoresPerPlayer ?? 0,
+    draftFormat: settings.draftFormat ?? 'alternate',
+    draftSeed: settings.draftSeed ?? 0,
+    armyMode: settings.armyMode ?? 'fixed',
+    armyBudget: settings.armyBudget ?? DEFAULT_ARMY_BUDGET,
+    draftSetup: settings.draftSetup ?? DEFAULT_DRAFT_SETUP,
+    draftTimeLimit: settings.draftTimeLimit ?? 0,
+    draftReview: settings.draftReview ?? false,
+    boardLayout: settings.boardLayout ?? 'standard',
+    removedSquareRules: { ...DEFAULT_REMOVED_SQUARE_RULES, ...settings.removedSquareRules },
+  };
+}
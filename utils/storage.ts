@@ -0,0 +1,169 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { GameConfig, GameSettings, GameState, SerializedGameState } from '@/types/chess';
+import { deserializeGameState, deserializeSettings, serializeGameState } from '@/utils/serialization';
+
+// AsyncStorage s'appuie sur localStorage dans le navigateur et sur le stockage natif ailleurs
+const SAVED_GAME_KEY = 'chess-variant-64/partie-en-cours';
+const LIBRARY_KEY = 'chess-variant-64/bibliotheque';
+// À incrémenter si le format change : une ancienne sauvegarde est migrée à la lecture,
+// une sauvegarde d'une version plus récente de l'application est laissée intacte
+const SAVED_GAME_VERSION = 8;
+const LIBRARY_VERSION = 8;
+// Version à partir de laquelle les chronos sont enregistrés en millisecondes
+const MILLISECOND_CLOCKS_VERSION = 2;
+
+export interface SavedGame {
+  config: GameConfig;
+  gameState: GameState;
+  startGameState: GameState;
+  savedAt: number;
+}
+
+// Partie terminée conservée dans la bibliothèque de l'appareil
+export interface LibraryGame {
+  id: string;
+  settings: GameSettings;
+  startGameState: GameState;
+  gameState: GameState;
+  finishedAt: number;
+}
+
+interface SerializedSavedGame {
+  version: number;
+  config: GameConfig;
+  gameState: SerializedGameState;
+  startGameState: SerializedGameState;
+  savedAt: number;
+}
+
+type SerializedLibraryGame = Omit<LibraryGame, 'startGameState' | 'gameState'> & {
+  startGameState: SerializedGameState;
+  gameState: SerializedGameState;
+};
+
+interface SerializedLibrary {
+  version: number;
+  games: SerializedLibraryGame[];
+}
+
+// Les champs ajoutés depuis reprennent leur valeur implicite à la désérialisation ;
+// seuls les chronos, autrefois en secondes, changent d'unité
+function upgradeGameState(serialized: SerializedGameState, version: number): GameState {
+  if (version >= MILLISECOND_CLOCKS_VERSION) return deserializeGameState(serialized);
+  const toMilliseconds = ({ white, black }: GameState['timeLeft']) => ({ white: white * 1000, black: black * 1000 });
+  return deserializeGameState({
+    ...serialized,
+    timeLeft: toMilliseconds(serialized.timeLeft),
+    history: serialized.history.map(record => ({ ...record, timeLeft: toMilliseconds(record.timeLeft) })),
+  });
+}
+
+function isKnownVersion(version: unknown, current: number): version is number {
+  return Number.isInteger(version) && (version as number) >= 1 && (version as number) <= current;
+}
+
+export async function saveGame(savedGame: SavedGame): Promise<void> {
+  const serialized: SerializedSavedGame = {
+    version: SAVED_GAME_VERSION,
+    config: savedGame.config,
+    gameState: serializeGameState({ ...savedGame.gameState, selectedSquare: null }),
+    startGameState: serializeGameState(savedGame.startGameState),
+    savedAt: savedGame.savedAt,
+  };
+  try {
+    await AsyncStorage.setItem(SAVED_GAME_KEY, JSON.stringify(serialized));
+  } catch (error) {
+    // Stockage plein ou indisponible (navigation privée) : la partie continue sans sauvegarde
+    console.warn('Sauvegarde de la partie impossible', error);
+  }
+}
+
+export async function loadSavedGame(): Promise<SavedGame | null> {
+  try {
+    const raw = await AsyncStorage.getItem(SAVED_GAME_KEY);
+    if (!raw) return null;
+
+    const serialized: SerializedSavedGame = JSON.parse(raw);
+    if (!isKnownVersion(serialized.version, SAVED_GAME_VERSION) || !Array.isArray(serialized.gameState?.removedSquares)) {
+      return null;
+    }
+
+    return {
+      config: deserializeSettings(serialized.config),
+      gameState: upgradeGameState(serialized.gameState, serialized.version),
+      startGameState: upgradeGameState(serialized.startGameState, serialized.version),
+      savedAt: serialized.savedAt,
+    };
+  } catch (error) {
+    console.warn('Sauvegarde illisible, elle est ignorée', error);
+    return null;
+  }
+}
+
+export async function clearSavedGame(): Promise<void> {
+  try {
+    await AsyncStorage.removeItem(SAVED_GAME_KEY);
+  } catch (error) {
+    console.warn('Suppression de la sauvegarde impossible', error);
+  }
+}
+
+// null si la bibliothèque enregistrée n'a pu être lue : elle ne doit alors pas être réécrite
+async function readLibrary(): Promise<LibraryGame[] | null> {
+  try {
+    const raw = await AsyncStorage.getItem(LIBRARY_KEY);
+    if (!raw) return [];
+
+    const serialized: SerializedLibrary = JSON.parse(raw);
+    if (!isKnownVersion(serialized.version, LIBRARY_VERSION) || !Array.isArray(serialized.games)) return null;
+
+    return serialized.games.map(game => ({
+      ...game,
+      settings: deserializeSettings(game.settings),
+      startGameState: upgradeGameState(game.startGameState, serialized.version),
+      gameState: upgradeGameState(game.gameState, serialized.version),
+    }));
+  } catch (error) {
+    console.warn('Bibliothèque illisible', error);
+    return null;
+  }
+}
+
+export async function loadLibrary(): Promise<LibraryGame[]> {
+  return (await readLibrary()) ?? [];
+}
+
+async function writeLibrary(games: LibraryGame[]): Promise<void> {
+  const serialized: SerializedLibrary = {
+    version: LIBRARY_VERSION,
+    games: games.map(game => ({
+      ...game,
+      startGameState: serializeGameState(game.startGameState),
+      gameState: serializeGameState({ ...game.gameState, selectedSquare: null }),
+    })),
+  };
+  try {
+    await AsyncStorage.setItem(LIBRARY_KEY, JSON.stringify(serialized));
+  } catch (error) {
+    console.warn('Enregistrement de la bibliothèque impossible', error);
+  }
+}
+
+// Les parties les plus récentes en tête
+export async function addGameToLibrary(game: Omit<LibraryGame, 'id'>): Promise<void> {
+  const games = await readLibrary();
+  if (!games) {
+    console.warn('Bibliothèque illisible, la partie n\'y est pas ajoutée');
+    return;
+  }
+  const id = `${game.finishedAt.toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+  await writeLibrary([{ ...game, id }, ...games]);
+}
+
+export async function deleteGameFromLibrary(id: string): Promise<LibraryGame[]> {
+  const library = await readLibrary();
+  if (!library) return [];
+  const games = library.filter(game => game.id !== id);
+  await writeLibrary(games);
+  return games;
+}